@@ -2,30 +2,55 @@ import React, { useState, useEffect } from 'react';
 import { SessionForm } from './components/SessionForm';
 import { PayrollDashboard } from './components/PayrollDashboard';
 import { LoginPage } from './components/LoginPage';
-import { Session, User } from './types';
+import { AccountDialog } from './components/AccountDialog';
+import { CalendarView } from './components/CalendarView';
+import { SyncIndicator } from './components/SyncIndicator';
+import { SessionDetail } from './components/SessionDetail';
+import { TherapistOverview } from './components/TherapistOverview';
+import { UserManager } from './components/UserManager';
+import { Appointment, Session, User } from './types';
 import { dbService } from './services/dbService';
+import { syncService } from './services/syncService';
+import { treatmentName } from './services/treatmentCatalogue';
+import { Route, RouteName, guardRoute, parseRoute, routeHash } from './services/router';
 
-type Route = 'login' | 'register' | 'log' | 'payroll';
+const route = (name: RouteName, params: Record<string, string> = {}, query: Record<string, string> = {}): Route =>
+  ({ name, params, query });
 
 function App() {
+  // Storage loads asynchronously; nothing can be read until it has
+  const [storageState, setStorageState] = useState<'loading' | 'ready' | 'failed'>('loading');
+  const [storageError, setStorageError] = useState('');
   const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [currentRoute, setCurrentRoute] = useState<Route>('login');
+  const [currentRoute, setCurrentRoute] = useState<Route>(() => parseRoute(window.location.hash) || route('login'));
   const [sessions, setSessions] = useState<Session[]>([]);
+  const [showAccount, setShowAccount] = useState(false);
+  const [pendingAppointment, setPendingAppointment] = useState<Appointment | null>(null);
+
+  useEffect(() => {
+    dbService.ready
+      .then(() => {
+        // Restore a persisted login so a page reload doesn't sign the user out
+        setCurrentUser(dbService.restoreSession());
+        setStorageState('ready');
+        syncService.start();
+      })
+      .catch(error => {
+        console.error("Storage failed to load:", error);
+        setStorageError(error instanceof Error ? error.message : String(error));
+        setStorageState('failed');
+      });
+
+    return dbService.onStorageError(() => {
+      alert("Your last change could not be saved on this device. Check available storage and try again.");
+    });
+  }, []);
 
   // --- Routing Logic ---
   useEffect(() => {
     const handleHashChange = () => {
-      const hash = window.location.hash.replace('#/', '');
-      
-      if (hash === 'register') {
-        setCurrentRoute('register');
-      } else if (hash === 'login' || hash === '') {
-        setCurrentRoute('login');
-      } else if (hash === 'log') {
-        setCurrentRoute('log');
-      } else if (hash === 'dashboard' || hash === 'payroll') {
-        setCurrentRoute('payroll');
-      }
+      // Unknown paths fall back to login, which the guard turns into the user's home page
+      setCurrentRoute(parseRoute(window.location.hash) || route('login'));
     };
 
     // Listen for hash changes
@@ -37,12 +62,13 @@ function App() {
     return () => window.removeEventListener('hashchange', handleHashChange);
   }, []);
 
-  // Update hash when route changes internally
-  const navigate = (route: Route) => {
-    setCurrentRoute(route);
-    // Use a slight delay to ensure state updates before hash if needed, 
-    // but here we just push to history
-    window.location.hash = `/${route === 'payroll' ? 'dashboard' : route}`;
+  // Update hash when route changes internally; `replace` is for redirects and filter changes,
+  // which shouldn't leave an extra step in the browser history
+  const navigate = (to: Route, replace = false) => {
+    setCurrentRoute(to);
+    const hash = routeHash(to.name, to.params, to.query);
+    if (replace) window.location.replace(hash);
+    else window.location.hash = hash;
   };
 
   // --- Data Logic ---
@@ -52,26 +78,42 @@ function App() {
     setSessions(data);
   };
 
+  // Pick up sessions and users pulled from other devices
   useEffect(() => {
-    if (currentUser) {
-      refreshData();
-      // Redirect logic after login
-      if (currentRoute === 'login' || currentRoute === 'register') {
-        navigate(currentUser.role === 'admin' ? 'payroll' : 'log');
+    return syncService.subscribe((_, applied) => {
+      if (applied === 0 || !currentUser) return;
+      // Deactivated on another device
+      if (!dbService.restoreSession()) {
+        handleLogout();
+        return;
       }
-    } else {
-        // If not logged in, enforce public routes
-        if (currentRoute !== 'register') {
-             // Don't overwrite if user specifically asked for register
-             navigate('login');
-        }
-    }
+      refreshData();
+    });
   }, [currentUser]);
 
+  useEffect(() => {
+    if (storageState !== 'ready') return;
+    if (currentUser) refreshData();
+  }, [currentUser, storageState]);
+
+  // Role guards: send the user somewhere they're allowed to be
+  useEffect(() => {
+    if (storageState !== 'ready') return;
+    const redirect = guardRoute(currentRoute, currentUser);
+    if (redirect) navigate(redirect, true);
+  }, [currentRoute, currentUser, storageState]);
+
   const handleLogout = () => {
+    dbService.logout();
+    setShowAccount(false);
     setCurrentUser(null);
     setSessions([]);
-    navigate('login');
+    navigate(route('login'));
+  };
+
+  const handleCompleteAppointment = (appointment: Appointment) => {
+    setPendingAppointment(appointment);
+    navigate(route('log'));
   };
 
   const handleSessionSuccess = () => {
@@ -80,14 +122,27 @@ function App() {
   };
 
   // --- Render Views ---
+
+  if (storageState !== 'ready') {
+    return (
+        <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+            <p className={`text-sm ${storageState === 'failed' ? 'text-red-600' : 'text-slate-400'}`}>
+                {storageState === 'failed'
+                    ? `PhysioTrack could not open its data: ${storageError} Your stored data has not been changed.`
+                    : 'Loading…'}
+            </p>
+        </div>
+    );
+  }
   
   // Public Views
   if (!currentUser) {
     return (
         <LoginPage 
             onLogin={setCurrentUser} 
-            initialMode={currentRoute === 'register' ? 'register' : 'login'}
-            onNavigate={(mode) => navigate(mode)}
+            initialMode={currentRoute.name === 'register' ? 'register' : 'login'}
+            inviteCode={currentRoute.query.code || null}
+            onNavigate={(mode) => navigate(route(mode, {}, currentRoute.query.next ? { next: currentRoute.query.next } : {}))}
         />
     );
   }
@@ -109,8 +164,10 @@ function App() {
             </div>
             
             <div className="flex items-center gap-4">
+               <SyncIndicator />
                <div className="text-right hidden sm:block">
                   <p className="text-sm font-semibold text-slate-800">{currentUser.name}</p>
+                  <button onClick={() => setShowAccount(true)} className="text-xs text-slate-500 hover:text-slate-700 mr-3">Account</button>
                   <button onClick={handleLogout} className="text-xs text-red-500 hover:text-red-700">Sign Out</button>
                </div>
                
@@ -118,54 +175,103 @@ function App() {
                <div className="hidden md:flex gap-1 bg-slate-100 p-1 rounded-lg">
                   {currentUser.role === 'therapist' && (
                     <button
-                        onClick={() => navigate('log')}
+                        onClick={() => navigate(route('log'))}
                         className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${
-                            currentRoute === 'log' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                            currentRoute.name === 'log' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
                         }`}
                     >
                         Log Session
                     </button>
                   )}
                   <button
-                      onClick={() => navigate('payroll')}
+                      onClick={() => navigate(route('calendar'))}
                       className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${
-                          currentRoute === 'payroll' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                          currentRoute.name === 'calendar' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                      }`}
+                  >
+                      Calendar
+                  </button>
+                  <button
+                      onClick={() => navigate(route('dashboard'))}
+                      className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${
+                          currentRoute.name === 'dashboard' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
                       }`}
                   >
                       {currentUser.role === 'admin' ? 'Reports & Data' : 'My Payroll'}
                   </button>
+                  {currentUser.role === 'admin' && (
+                    <button
+                        onClick={() => navigate(route('users'))}
+                        className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${
+                            currentRoute.name === 'users' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                        }`}
+                    >
+                        Users
+                    </button>
+                  )}
                </div>
             </div>
         </div>
       </header>
 
+      {showAccount && <AccountDialog currentUser={currentUser} onClose={() => setShowAccount(false)} />}
+
       {/* Main Content */}
       <main className="max-w-5xl mx-auto px-4 py-8">
-        {currentRoute === 'log' && currentUser.role === 'therapist' ? (
+        {guardRoute(currentRoute, currentUser) ? null : currentRoute.name === 'log' ? (
             <div className="max-w-3xl mx-auto animate-in fade-in slide-in-from-bottom-2 duration-500">
                 <div className="mb-6">
                     <h2 className="text-2xl font-bold text-slate-800">New Timesheet Entry</h2>
                     <p className="text-slate-500">Record a treatment session and get it signed.</p>
                 </div>
-                <SessionForm currentUser={currentUser} onSuccess={handleSessionSuccess} />
+                <SessionForm
+                    currentUser={currentUser}
+                    onSuccess={handleSessionSuccess}
+                    appointment={pendingAppointment}
+                    onClearAppointment={() => setPendingAppointment(null)}
+                />
                 
                 {/* Recent quick view */}
                 <div className="mt-10">
                     <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-4">Your Recent Sessions</h3>
                     <div className="space-y-3">
-                        {sessions.slice(0, 3).map(s => (
-                            <div key={s.id} className="bg-white p-3 rounded-lg border border-slate-200 flex justify-between items-center opacity-75 grayscale hover:grayscale-0 transition-all">
+                        {sessions.filter(s => !s.voidedAt).slice(0, 3).map(s => (
+                            <a key={s.id} href={routeHash('session', { id: s.id })} className="bg-white p-3 rounded-lg border border-slate-200 flex justify-between items-center opacity-75 grayscale hover:grayscale-0 transition-all">
                                 <div>
                                     <p className="font-medium text-slate-800">{s.patientName}</p>
-                                    <p className="text-xs text-slate-500">{new Date(s.timestamp).toLocaleDateString()} • {s.treatmentType}</p>
+                                    <p className="text-xs text-slate-500">{new Date(s.timestamp).toLocaleDateString()} • {treatmentName(dbService.getTreatments(true), s.treatmentType)}</p>
                                 </div>
                                 <span className="text-xs font-bold bg-slate-100 px-2 py-1 rounded text-slate-600">{s.durationMinutes} min</span>
-                            </div>
+                            </a>
                         ))}
                         {sessions.length === 0 && <p className="text-sm text-slate-400 italic">No recent sessions.</p>}
                     </div>
                 </div>
             </div>
+        ) : currentRoute.name === 'session' ? (
+            <div className="max-w-3xl mx-auto animate-in fade-in slide-in-from-bottom-2 duration-500">
+                <SessionDetail currentUser={currentUser} sessionId={currentRoute.params.id} onBack={() => (window.history.length > 1 ? window.history.back() : navigate(route('dashboard')))} />
+            </div>
+        ) : currentRoute.name === 'therapist' ? (
+            <div className="animate-in fade-in slide-in-from-bottom-2 duration-500">
+                <TherapistOverview currentUser={currentUser} therapistId={currentRoute.params.id} />
+            </div>
+        ) : currentRoute.name === 'users' ? (
+            <div className="animate-in fade-in slide-in-from-bottom-2 duration-500">
+                <div className="mb-6">
+                    <h2 className="text-2xl font-bold text-slate-800">User Management</h2>
+                    <p className="text-slate-500">Create accounts, change roles and keep therapist contract details up to date.</p>
+                </div>
+                <UserManager currentUser={currentUser} onCurrentUserChange={setCurrentUser} />
+            </div>
+        ) : currentRoute.name === 'calendar' ? (
+            <div className="animate-in fade-in slide-in-from-bottom-2 duration-500">
+                <div className="mb-6">
+                    <h2 className="text-2xl font-bold text-slate-800">Appointments</h2>
+                    <p className="text-slate-500">Book treatments and turn them into signed sessions.</p>
+                </div>
+                <CalendarView currentUser={currentUser} onComplete={handleCompleteAppointment} />
+            </div>
         ) : (
             <div className="animate-in fade-in slide-in-from-bottom-2 duration-500">
                  <div className="mb-6">
@@ -178,7 +284,13 @@ function App() {
                             : 'Track your working hours and generate your invoices.'}
                     </p>
                 </div>
-                <PayrollDashboard currentUser={currentUser} sessions={sessions} />
+                <PayrollDashboard
+                    currentUser={currentUser}
+                    sessions={sessions}
+                    onSessionsChange={refreshData}
+                    query={currentRoute.query}
+                    onQueryChange={(query) => navigate(route('dashboard', {}, query), true)}
+                />
             </div>
         )}
       </main>
@@ -187,20 +299,43 @@ function App() {
       <nav className="md:hidden fixed bottom-0 left-0 right-0 bg-white border-t border-slate-200 px-6 py-3 flex justify-around items-center z-50 pb-safe">
         {currentUser.role === 'therapist' && (
             <button 
-                onClick={() => navigate('log')}
-                className={`flex flex-col items-center gap-1 ${currentRoute === 'log' ? 'text-blue-600' : 'text-slate-400'}`}
+                onClick={() => navigate(route('log'))}
+                className={`flex flex-col items-center gap-1 ${currentRoute.name === 'log' ? 'text-blue-600' : 'text-slate-400'}`}
             >
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
                 <span className="text-xs font-medium">Log</span>
             </button>
         )}
         <button 
-            onClick={() => navigate('payroll')}
-            className={`flex flex-col items-center gap-1 ${currentRoute === 'payroll' ? 'text-blue-600' : 'text-slate-400'}`}
+            onClick={() => navigate(route('calendar'))}
+            className={`flex flex-col items-center gap-1 ${currentRoute.name === 'calendar' ? 'text-blue-600' : 'text-slate-400'}`}
+        >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+            <span className="text-xs font-medium">Calendar</span>
+        </button>
+        <button 
+            onClick={() => navigate(route('dashboard'))}
+            className={`flex flex-col items-center gap-1 ${currentRoute.name === 'dashboard' ? 'text-blue-600' : 'text-slate-400'}`}
         >
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" /></svg>
             <span className="text-xs font-medium">Reports</span>
         </button>
+        {currentUser.role === 'admin' && (
+            <button 
+                onClick={() => navigate(route('users'))}
+                className={`flex flex-col items-center gap-1 ${currentRoute.name === 'users' ? 'text-blue-600' : 'text-slate-400'}`}
+            >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" /></svg>
+                <span className="text-xs font-medium">Users</span>
+            </button>
+        )}
+        <button 
+            onClick={() => setShowAccount(true)}
+            className="flex flex-col items-center gap-1 text-slate-400"
+        >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" /></svg>
+            <span className="text-xs font-medium">Account</span>
+        </button>
         <button 
             onClick={handleLogout}
             className="flex flex-col items-center gap-1 text-red-400"
@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from 'react';
+import { User } from '../types';
+import { dbService } from '../services/dbService';
+import { InviteManager } from './InviteManager';
+import { SyncSettings } from './SyncSettings';
+import { BackupManager } from './BackupManager';
+import { AnalysisProviderSettings } from './AnalysisProviderSettings';
+
+interface AccountDialogProps {
+  currentUser: User;
+  onClose: () => void;
+}
+
+const MIN_PASSWORD_LENGTH = 4;
+
+export const AccountDialog: React.FC<AccountDialogProps> = ({ currentUser, onClose }) => {
+  const isAdmin = currentUser.role === 'admin';
+  const users = useMemo(
+    () => isAdmin ? dbService.getAllUsers().filter(u => u.id !== currentUser.id) : [],
+    [isAdmin, currentUser.id]
+  );
+
+  // Change own password
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  // Admin reset
+  const [resetUserId, setResetUserId] = useState('');
+  const [resetPassword, setResetPassword] = useState('');
+
+  const [error, setError] = useState('');
+  const [successMsg, setSuccessMsg] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccessMsg('');
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError("New passwords don't match.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await dbService.changePassword(currentUser.id, currentPassword, newPassword);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      setSuccessMsg(result.message);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    } else {
+      setError(result.message);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccessMsg('');
+
+    if (resetPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await dbService.resetPassword(currentUser.id, resetUserId, resetPassword);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      setSuccessMsg(result.message);
+      setResetPassword('');
+    } else {
+      setError(result.message);
+    }
+  };
+
+  const inputClass = "w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-[60]" onClick={onClose}>
+      <div className="bg-white p-6 rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto border border-slate-200 space-y-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-bold text-slate-800">Account</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-sm">Close</button>
+        </div>
+
+        {successMsg && (
+          <div className="p-3 rounded-lg bg-green-50 text-green-700 text-sm font-medium border border-green-200">
+            ✅ {successMsg}
+          </div>
+        )}
+        {error && (
+          <div className="p-3 rounded-lg bg-red-50 text-red-600 text-sm font-medium border border-red-100">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleChange} className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Change Password</h3>
+          <input
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            className={inputClass}
+            placeholder="Current password"
+            required
+          />
+          <input
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            className={inputClass}
+            placeholder="New password"
+            required
+          />
+          <input
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className={inputClass}
+            placeholder="Confirm new password"
+            required
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full py-2 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700 transition-all disabled:bg-slate-400"
+          >
+            Update Password
+          </button>
+        </form>
+
+        {isAdmin && (
+          <form onSubmit={handleReset} className="space-y-3 pt-6 border-t border-slate-100">
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Reset a User's Password</h3>
+            <select
+              value={resetUserId}
+              onChange={(e) => setResetUserId(e.target.value)}
+              className={inputClass}
+              required
+            >
+              <option value="">Select user...</option>
+              {users.map(u => (
+                <option key={u.id} value={u.id}>{u.name} ({u.username})</option>
+              ))}
+            </select>
+            <input
+              type="password"
+              value={resetPassword}
+              onChange={(e) => setResetPassword(e.target.value)}
+              className={inputClass}
+              placeholder="Temporary password"
+              required
+            />
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full py-2 rounded-lg bg-slate-800 text-white font-semibold hover:bg-slate-700 transition-all disabled:bg-slate-400"
+            >
+              Reset Password
+            </button>
+          </form>
+        )}
+
+        {isAdmin && (
+          <div className="pt-6 border-t border-slate-100">
+            <InviteManager currentUser={currentUser} />
+          </div>
+        )}
+
+        {isAdmin && (
+          <div className="pt-6 border-t border-slate-100">
+            <BackupManager currentUser={currentUser} />
+          </div>
+        )}
+
+        {isAdmin && (
+          <div className="pt-6 border-t border-slate-100">
+            <AnalysisProviderSettings currentUser={currentUser} />
+          </div>
+        )}
+
+        <div className="pt-6 border-t border-slate-100">
+          <SyncSettings />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { AnalysisPrivacy, AnalysisSettings, User } from '../types';
+import { dbService } from '../services/dbService';
+import { ANALYSIS_PROVIDERS } from '../services/analysisProvider';
+import { PRIVACY_MODES } from '../services/analysisPrivacy';
+
+interface AnalysisProviderSettingsProps {
+  currentUser: User;
+}
+
+// Which provider writes the payroll analysis on this device; keys stay here and are not synced or backed up.
+// The privacy policy is the clinic's, and is synced.
+export const AnalysisProviderSettings: React.FC<AnalysisProviderSettingsProps> = ({ currentUser }) => {
+  const [settings, setSettings] = useState<AnalysisSettings>(() => dbService.getAnalysisSettings());
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const update = (changes: Partial<AnalysisSettings>) => {
+    setSettings({ ...settings, ...changes });
+    setMessage('');
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = dbService.updateAnalysisSettings(currentUser.id, settings);
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+    setError('');
+    setSettings(dbService.getAnalysisSettings());
+    setMessage(result.message);
+  };
+
+  const inputClass = "w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <form onSubmit={handleSave} className="space-y-3">
+      <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Payroll Analysis</h3>
+      <div className="space-y-2">
+        {ANALYSIS_PROVIDERS.map(p => (
+          <label key={p.id} className="flex items-start gap-2 text-sm">
+            <input
+              type="radio"
+              name="analysis-provider"
+              checked={settings.provider === p.id}
+              onChange={() => update({ provider: p.id })}
+              className="mt-1"
+            />
+            <span>
+              <span className="font-medium text-slate-700">{p.label}</span>
+              <span className="block text-xs text-slate-500">{p.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {settings.provider === 'gemini' && (
+        <>
+          <input
+            type="password"
+            value={settings.geminiApiKey}
+            onChange={(e) => update({ geminiApiKey: e.target.value })}
+            className={inputClass}
+            placeholder="Gemini API key"
+          />
+          <input
+            value={settings.geminiModel}
+            onChange={(e) => update({ geminiModel: e.target.value })}
+            className={inputClass}
+            placeholder="Model, e.g. gemini-2.5-flash"
+          />
+        </>
+      )}
+
+      {settings.provider === 'openai' && (
+        <>
+          <input
+            type="url"
+            value={settings.endpointUrl}
+            onChange={(e) => update({ endpointUrl: e.target.value })}
+            className={inputClass}
+            placeholder="Base URL, e.g. http://localhost:11434/v1"
+            required
+          />
+          <input
+            value={settings.endpointModel}
+            onChange={(e) => update({ endpointModel: e.target.value })}
+            className={inputClass}
+            placeholder="Model, e.g. llama3.1"
+            required
+          />
+          <input
+            type="password"
+            value={settings.endpointApiKey}
+            onChange={(e) => update({ endpointApiKey: e.target.value })}
+            className={inputClass}
+            placeholder="API key (optional for local servers)"
+          />
+        </>
+      )}
+
+      {settings.provider !== 'template' && (
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Patient data in prompts</label>
+          <select
+            value={settings.privacy}
+            onChange={(e) => update({ privacy: e.target.value as AnalysisPrivacy })}
+            className={inputClass}
+          >
+            {PRIVACY_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+          </select>
+          <p className="mt-1 text-xs text-slate-500">{PRIVACY_MODES.find(m => m.id === settings.privacy)?.description}</p>
+        </div>
+      )}
+
+      {settings.provider !== 'template' && (
+        <label className="flex items-center gap-2 text-xs text-slate-500">
+          <input
+            type="checkbox"
+            checked={settings.fallbackToTemplate}
+            onChange={(e) => update({ fallbackToTemplate: e.target.checked })}
+          />
+          Write the offline summary if the provider can't be reached
+        </label>
+      )}
+
+      <button
+        type="submit"
+        className="w-full py-2 rounded-lg bg-slate-800 text-white font-semibold hover:bg-slate-700 transition-all"
+      >
+        Save Analysis Settings
+      </button>
+      {(message || error) && <p className={`text-xs ${error ? 'text-red-600' : 'text-slate-500'}`}>{error || message}</p>}
+    </form>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { AnalysisResult, FigureCheck } from '../types';
+import { providerLabel } from '../services/analysisProvider';
+import { formatMoney } from '../services/payrollService';
+
+interface AnalysisReportCardProps {
+  result: AnalysisResult;
+}
+
+const formatFigure = (check: FigureCheck, value: number): string =>
+  check.figure.metric === 'gross_pay' ? formatMoney(value) : String(value);
+
+const CHECK_STYLES: Record<FigureCheck['status'], { icon: string; className: string; title: string }> = {
+  match: { icon: '✓', className: 'text-emerald-400', title: 'Matches the computed total' },
+  mismatch: { icon: '✗', className: 'text-red-400', title: 'Does not match the computed total' },
+  unchecked: { icon: '–', className: 'text-slate-500', title: 'Not a figure PhysioTrack can check' },
+};
+
+// Renders the structured analysis, with every quoted figure checked against the payroll totals
+export const AnalysisReportCard: React.FC<AnalysisReportCardProps> = ({ result }) => {
+  const [showRaw, setShowRaw] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const { analysis, checks } = result;
+  const mismatches = checks.filter(c => c.status === 'mismatch');
+
+  const copyInvoiceText = () => {
+    if (!analysis) return;
+    navigator.clipboard.writeText(analysis.invoiceText);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      {result.parseError && (
+        <p className="px-3 py-2 rounded-lg bg-amber-500/10 border border-amber-500/30 text-amber-300 text-xs">
+          The answer couldn't be read as a report ({result.parseError}) so it is shown as written, and its figures haven't been checked.
+        </p>
+      )}
+      {mismatches.length > 0 && (
+        <p className="px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/30 text-red-300 text-xs">
+          {mismatches.length} quoted figure(s) don't match the payroll totals. Check them before using this report.
+        </p>
+      )}
+
+      {analysis ? (
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 space-y-4 leading-relaxed">
+          <p className="text-white">{analysis.greeting}</p>
+          <section>
+            <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-1">Workload</h4>
+            <p>{analysis.workloadSummary}</p>
+          </section>
+          {analysis.observations.length > 0 && (
+            <section>
+              <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-1">Observations</h4>
+              <ul className="list-disc pl-5 space-y-1">
+                {analysis.observations.map((o, i) => <li key={i}>{o}</li>)}
+              </ul>
+            </section>
+          )}
+          <section>
+            <div className="flex justify-between items-center mb-1">
+              <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Invoice Description</h4>
+              <button onClick={copyInvoiceText} className="text-xs text-indigo-300 hover:text-indigo-200">
+                {copied ? 'Copied!' : 'Copy'}
+              </button>
+            </div>
+            <blockquote className="border-l-2 border-indigo-400 pl-3 text-slate-300">{analysis.invoiceText}</blockquote>
+          </section>
+          {checks.length > 0 && (
+            <section>
+              <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-1">Quoted Figures</h4>
+              <table className="w-full text-xs">
+                <tbody className="divide-y divide-slate-700">
+                  {checks.map((check, i) => {
+                    const style = CHECK_STYLES[check.status];
+                    return (
+                      <tr key={i} className={check.status === 'mismatch' ? 'bg-red-500/10' : ''}>
+                        <td className={`py-1 pr-2 w-5 font-bold ${style.className}`} title={style.title}>{style.icon}</td>
+                        <td className="py-1 pr-2">{check.figure.label}</td>
+                        <td className={`py-1 text-right font-mono ${check.status === 'mismatch' ? 'text-red-300 line-through' : ''}`}>
+                          {formatFigure(check, check.figure.value)}
+                        </td>
+                        <td className="py-1 pl-2 text-right font-mono text-emerald-300 w-28">
+                          {check.status === 'mismatch' && check.expected !== undefined && formatFigure(check, check.expected)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </section>
+          )}
+        </div>
+      ) : (
+        <div className="bg-slate-800/50 p-4 rounded-lg leading-relaxed whitespace-pre-wrap font-mono border border-slate-700">
+          {result.text}
+        </div>
+      )}
+
+      <div className="flex justify-between items-center text-xs text-slate-500">
+        <p>
+          Written by {providerLabel(result.provider)}
+          {result.fallbackReason && <span className="text-amber-400"> — {result.fallbackReason}</span>}
+        </p>
+        {analysis && (
+          <button onClick={() => setShowRaw(v => !v)} className="hover:text-slate-300">
+            {showRaw ? 'Hide raw response' : 'Show raw response'}
+          </button>
+        )}
+      </div>
+      {analysis && showRaw && (
+        <pre className="bg-slate-950 p-3 rounded-lg text-xs text-slate-400 whitespace-pre-wrap break-all border border-slate-800">{result.text}</pre>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { Patient, TreatmentType, User } from '../types';
+import { dbService } from '../services/dbService';
+import { PatientPicker } from './PatientPicker';
+import { TreatmentFields } from './TreatmentFields';
+
+interface AppointmentDialogProps {
+  currentUser: User;
+  initialStart: Date;
+  onClose: () => void;
+  onBooked: () => void;
+}
+
+// datetime-local wants local time without a zone
+const toLocalInput = (d: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+export const AppointmentDialog: React.FC<AppointmentDialogProps> = ({ currentUser, initialStart, onClose, onBooked }) => {
+  const isAdmin = currentUser.role === 'admin';
+  const therapists = useMemo(() => isAdmin ? dbService.getAllTherapists() : [currentUser], [isAdmin, currentUser]);
+
+  const [therapistId, setTherapistId] = useState(therapists[0]?.id || '');
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [treatmentType, setTreatmentType] = useState<TreatmentType>(() => dbService.getTreatments()[0]?.id || '');
+  const [duration, setDuration] = useState<number>(() => dbService.getTreatments()[0]?.defaultDuration || 60);
+  const [start, setStart] = useState(toLocalInput(initialStart));
+  const [error, setError] = useState('');
+
+  const handleTreatmentChange = (type: TreatmentType, minutes: number) => {
+    setTreatmentType(type);
+    setDuration(minutes);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const therapist = therapists.find(t => t.id === therapistId);
+    if (!therapist) {
+      setError("Choose a therapist.");
+      return;
+    }
+    if (!patient) {
+      setError("Select or add the patient.");
+      return;
+    }
+
+    const result = dbService.bookAppointment(currentUser.id, {
+      therapistId: therapist.id,
+      therapistName: therapist.name,
+      patientId: patient.id,
+      patientName: patient.name,
+      treatmentType,
+      start: new Date(start).toISOString(),
+      durationMinutes: duration,
+    });
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+    onBooked();
+  };
+
+  const inputClass = "w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-[60]" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white p-6 rounded-2xl shadow-xl w-full max-w-md border border-slate-200 space-y-4"
+      >
+        <h2 className="text-xl font-bold text-slate-800">Book Appointment</h2>
+
+        {isAdmin && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Therapist</label>
+            <select value={therapistId} onChange={(e) => setTherapistId(e.target.value)} className={inputClass} required>
+              {therapists.map(t => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Patient</label>
+          <PatientPicker currentUser={currentUser} selected={patient} onSelect={setPatient} />
+        </div>
+
+        <TreatmentFields treatmentType={treatmentType} duration={duration} onChange={handleTreatmentChange} />
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Start</label>
+          <input type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} className={inputClass} required />
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-lg bg-red-50 text-red-600 text-sm font-medium border border-red-100">{error}</div>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg">
+            Cancel
+          </button>
+          <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg">
+            Book
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
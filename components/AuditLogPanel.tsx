@@ -0,0 +1,79 @@
+import React from 'react';
+import { AuditEntry, AuditSnapshot } from '../types';
+import { dbService } from '../services/dbService';
+
+interface AuditLogPanelProps {
+  sessionFilter: string; // '' shows every entry
+  onFilterChange: (sessionId: string) => void;
+}
+
+const TRACKED_FIELDS: (keyof AuditSnapshot)[] = ['patientName', 'treatmentType', 'durationMinutes', 'timestamp'];
+
+const describeChanges = (entry: AuditEntry): string[] => {
+  if (!entry.before) return [];
+  const before = entry.before;
+  return TRACKED_FIELDS
+    .filter(field => before[field] !== entry.after[field])
+    .map(field => `${field}: ${String(before[field])} → ${String(entry.after[field])}`);
+};
+
+const ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  create: 'bg-green-100 text-green-800',
+  edit: 'bg-amber-100 text-amber-800',
+  void: 'bg-red-100 text-red-800',
+};
+
+export const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ sessionFilter, onFilterChange }) => {
+  // Read on every render so new entries show up as soon as the parent re-renders
+  const entries = dbService.getAuditLog(sessionFilter.trim() || undefined);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex flex-wrap gap-3 justify-between items-center">
+        <h3 className="font-semibold text-slate-700">Audit Log</h3>
+        <div className="flex items-center gap-2">
+          <input
+            value={sessionFilter}
+            onChange={(e) => onFilterChange(e.target.value)}
+            className="px-3 py-1.5 rounded-lg border border-slate-300 text-sm font-mono focus:ring-2 focus:ring-blue-500"
+            placeholder="Filter by session ID"
+          />
+          {sessionFilter && (
+            <button onClick={() => onFilterChange('')} className="text-xs text-slate-500 hover:text-slate-700">Clear</button>
+          )}
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="p-6 text-center text-sm text-slate-400">No audit entries.</div>
+      ) : (
+        <ul className="divide-y divide-slate-100 max-h-96 overflow-y-auto">
+          {entries.map(entry => (
+            <li key={entry.id} className="px-6 py-3 text-sm">
+              <div className="flex justify-between items-center">
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action]}`}>
+                    {entry.action}
+                  </span>
+                  <span className="font-medium text-slate-700">{entry.actorName}</span>
+                  <span className="text-slate-500">• {entry.after.patientName}</span>
+                </div>
+                <span className="text-xs text-slate-400">{new Date(entry.at).toLocaleString()}</span>
+              </div>
+              <button
+                onClick={() => onFilterChange(entry.sessionId)}
+                className="text-xs font-mono text-blue-600 hover:underline"
+              >
+                {entry.sessionId}
+              </button>
+              {entry.reason && <p className="text-xs text-red-600">Reason: {entry.reason}</p>}
+              {describeChanges(entry).map(change => (
+                <p key={change} className="text-xs text-slate-500 font-mono">{change}</p>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
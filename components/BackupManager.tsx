@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { User } from '../types';
+import { dbService } from '../services/dbService';
+import { BackupContents, RestoreMode, RestorePreviewRow, backupFilename, createBackupFile, readBackupFile } from '../services/backupService';
+import { downloadBlob } from '../services/pdfService';
+
+interface BackupManagerProps {
+  currentUser: User;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export const BackupManager: React.FC<BackupManagerProps> = ({ currentUser }) => {
+  // Export
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+
+  // Restore
+  const [file, setFile] = useState<File | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [contents, setContents] = useState<BackupContents | null>(null);
+  const [preview, setPreview] = useState<RestorePreviewRow[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError("Passphrases don't match.");
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const result = await dbService.exportBackup(currentUser.id);
+      if (!result.success || !result.contents) {
+        setError(result.message);
+        return;
+      }
+      downloadBlob(await createBackupFile(result.contents, passphrase), backupFilename());
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The backup could not be created.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCheck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (!file) return;
+
+    setBusy(true);
+    try {
+      const backup = await readBackupFile(await file.text(), restorePassphrase);
+      setPreview(dbService.previewRestore(backup));
+      setContents(backup);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The backup could not be read.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!contents) return;
+    const warning = mode === 'replace'
+      ? 'Replace ALL data on this device with the backup? Records that are not in the backup will be removed.'
+      : 'Add the records from the backup that are missing on this device?';
+    if (!confirm(warning)) return;
+
+    setBusy(true);
+    const result = await dbService.restoreBackup(currentUser.id, contents, mode);
+    setBusy(false);
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+    alert(result.message);
+    // Every view reads from dbService on mount, so start afresh
+    window.location.reload();
+  };
+
+  const resetRestore = () => {
+    setContents(null);
+    setPreview([]);
+    setRestorePassphrase('');
+  };
+
+  const inputClass = "w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 text-red-600 text-sm font-medium border border-red-100">{error}</div>
+      )}
+
+      <form onSubmit={handleExport} className="space-y-3">
+        <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Download Backup</h3>
+        <p className="text-xs text-slate-500">
+          Users, sessions, signatures, patients and settings, encrypted with a passphrase. Keep the passphrase safe: without it the file can't be opened.
+        </p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className={inputClass}
+          placeholder="Backup passphrase"
+          required
+        />
+        <input
+          type="password"
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+          className={inputClass}
+          placeholder="Confirm passphrase"
+          required
+        />
+        <button
+          type="submit"
+          disabled={busy}
+          className="w-full py-2 rounded-lg bg-slate-800 text-white font-semibold hover:bg-slate-700 transition-all disabled:bg-slate-400"
+        >
+          Download Encrypted Backup
+        </button>
+      </form>
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Restore From Backup</h3>
+        {!contents ? (
+          <form onSubmit={handleCheck} className="space-y-3">
+            <input
+              type="file"
+              accept=".ptbackup,application/json"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              className="block w-full text-sm text-slate-500"
+              required
+            />
+            <input
+              type="password"
+              value={restorePassphrase}
+              onChange={(e) => setRestorePassphrase(e.target.value)}
+              className={inputClass}
+              placeholder="Backup passphrase"
+              required
+            />
+            <button
+              type="submit"
+              disabled={busy || !file}
+              className="w-full py-2 rounded-lg bg-slate-100 text-slate-700 font-semibold hover:bg-slate-200 transition-all disabled:text-slate-400"
+            >
+              Check Backup
+            </button>
+          </form>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-xs text-slate-500">
+              Backup from {new Date(contents.exportedAt).toLocaleString()} by {contents.exportedBy}
+            </p>
+            <div className="flex p-1 bg-slate-100 rounded-lg">
+              {(['merge', 'replace'] as RestoreMode[]).map(m => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => setMode(m)}
+                  className={`flex-1 py-1.5 text-sm font-medium rounded-md capitalize ${mode === m ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+                >
+                  {m}
+                </button>
+              ))}
+            </div>
+            <table className="w-full text-xs text-slate-600">
+              <thead className="text-slate-400">
+                <tr>
+                  <th className="text-left font-medium py-1"></th>
+                  <th className="text-right font-medium">Added</th>
+                  <th className="text-right font-medium">{mode === 'replace' ? 'Overwritten' : 'Kept as is'}</th>
+                  <th className="text-right font-medium">{mode === 'replace' ? 'Removed' : 'Untouched'}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {preview.map(row => (
+                  <tr key={row.key}>
+                    <td className="py-1">{row.label}</td>
+                    <td className="text-right text-green-700">{row.added || '–'}</td>
+                    <td className="text-right">{row.changed || '–'}</td>
+                    <td className={`text-right ${mode === 'replace' && row.localOnly ? 'text-red-600 font-semibold' : ''}`}>{row.localOnly || '–'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-slate-400">A copy of the current data is kept on this device before restoring.</p>
+            <div className="flex gap-2">
+              <button type="button" onClick={resetRestore} className="flex-1 py-2 rounded-lg bg-slate-100 text-slate-600 font-semibold hover:bg-slate-200">
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleRestore}
+                disabled={busy}
+                className={`flex-1 py-2 rounded-lg text-white font-semibold transition-all disabled:bg-slate-400 ${mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+              >
+                {mode === 'replace' ? 'Replace Data' : 'Merge Backup'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
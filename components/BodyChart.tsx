@@ -0,0 +1,43 @@
+import React from 'react';
+import { BodyMark, BodyView } from '../types';
+import { BODY_REGIONS, BODY_VIEWBOX, painColor } from '../services/bodyChart';
+
+interface BodyChartProps {
+  marks: BodyMark[];
+  onToggle?: (view: BodyView, regionId: string) => void; // omitted when read-only
+}
+
+const VIEWS: BodyView[] = ['front', 'back'];
+
+export const BodyChart: React.FC<BodyChartProps> = ({ marks, onToggle }) => (
+  <div className="flex justify-center gap-6">
+    {VIEWS.map(view => (
+      <figure key={view} className="text-center">
+        <svg viewBox={`0 0 ${BODY_VIEWBOX.width} ${BODY_VIEWBOX.height}`} className="w-32 h-64">
+          {BODY_REGIONS.filter(r => r.view === view).map(region => {
+            const mark = marks.find(m => m.view === view && m.regionId === region.id);
+            return (
+              <rect
+                key={region.id}
+                x={region.x}
+                y={region.y}
+                width={region.width}
+                height={region.height}
+                rx={region.radius}
+                fill={mark ? painColor(mark.pain) : '#e2e8f0'}
+                fillOpacity={mark ? 0.85 : 1}
+                stroke="#fff"
+                strokeWidth={1}
+                className={onToggle ? 'cursor-pointer hover:opacity-70' : ''}
+                onClick={onToggle ? () => onToggle(view, region.id) : undefined}
+              >
+                <title>{region.label}{mark ? ` — pain ${mark.pain}/10` : ''}</title>
+              </rect>
+            );
+          })}
+        </svg>
+        <figcaption className="text-xs text-slate-400 capitalize">{view}</figcaption>
+      </figure>
+    ))}
+  </div>
+);
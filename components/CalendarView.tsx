@@ -0,0 +1,260 @@
+import React, { useMemo, useState } from 'react';
+import { Appointment, AppointmentStatus, Treatment, User } from '../types';
+import { dbService } from '../services/dbService';
+import { treatmentColor, treatmentName } from '../services/treatmentCatalogue';
+import { AppointmentDialog } from './AppointmentDialog';
+
+interface CalendarViewProps {
+  currentUser: User;
+  onComplete: (appointment: Appointment) => void;
+}
+
+type ViewMode = 'day' | 'week';
+
+const DAY_START_HOUR = 7;
+const DAY_END_HOUR = 21;
+const HOUR_HEIGHT = 48; // px
+
+const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  booked: 'Booked',
+  completed: 'Completed',
+  no_show: 'No-show',
+  late_cancel: 'Late cancellation',
+  cancelled: 'Cancelled',
+};
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+const startOfWeek = (d: Date) => {
+  const day = startOfDay(d);
+  // Weeks start on Monday
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return day;
+};
+
+const addDays = (d: Date, days: number) => {
+  const next = new Date(d);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+const blockClass = (a: Appointment) => {
+  if (a.status === 'completed') return 'bg-green-100 border-green-300 text-green-900';
+  if (a.status !== 'booked') return 'bg-slate-100 border-slate-300 text-slate-500 line-through';
+  return '';
+};
+
+// Booked appointments take their treatment's catalogue colour
+const blockStyle = (a: Appointment, treatments: Treatment[]): React.CSSProperties => {
+  if (a.status !== 'booked') return {};
+  const color = treatmentColor(treatments, a.treatmentType);
+  return { backgroundColor: `${color}1a`, borderColor: `${color}66`, color };
+};
+
+export const CalendarView: React.FC<CalendarViewProps> = ({ currentUser, onComplete }) => {
+  const isAdmin = currentUser.role === 'admin';
+  const [mode, setMode] = useState<ViewMode>('week');
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const [therapistFilter, setTherapistFilter] = useState('all');
+  const [bookingStart, setBookingStart] = useState<Date | null>(null);
+  const [selected, setSelected] = useState<Appointment | null>(null);
+  // Bumped after any write so appointments are re-read
+  const [version, setVersion] = useState(0);
+
+  const therapists = useMemo(() => isAdmin ? dbService.getAllTherapists() : [], [isAdmin]);
+  const treatments = useMemo(() => dbService.getTreatments(true), []);
+
+  const days = useMemo(() => {
+    if (mode === 'day') return [anchor];
+    const monday = startOfWeek(anchor);
+    return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+  }, [mode, anchor]);
+
+  const appointments = useMemo(() => {
+    const from = days[0].getTime();
+    const to = addDays(days[days.length - 1], 1).getTime();
+    return dbService.getAppointments(currentUser.id, currentUser.role).filter(a => {
+      const t = new Date(a.start).getTime();
+      return t >= from && t < to && (therapistFilter === 'all' || a.therapistId === therapistFilter);
+    });
+  }, [days, currentUser, therapistFilter, version]);
+
+  const step = (direction: number) => setAnchor(addDays(anchor, direction * (mode === 'day' ? 1 : 7)));
+
+  const handleStatus = (appointment: Appointment, status: AppointmentStatus) => {
+    const result = dbService.setAppointmentStatus(currentUser.id, appointment.id, status);
+    if (!result.success) {
+      alert(result.message);
+      return;
+    }
+    setSelected(null);
+    setVersion(v => v + 1);
+  };
+
+  const handleSlotClick = (day: Date, e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const minutes = Math.floor(((e.clientY - rect.top) / HOUR_HEIGHT) * 4) * 15; // snap to 15 mins
+    const start = new Date(day);
+    start.setHours(DAY_START_HOUR, minutes);
+    setBookingStart(start);
+  };
+
+  const title = mode === 'day'
+    ? anchor.toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })
+    : `${days[0].toLocaleDateString(undefined, { day: 'numeric', month: 'short' })} – ${days[6].toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}`;
+
+  const hours = Array.from({ length: DAY_END_HOUR - DAY_START_HOUR }, (_, i) => DAY_START_HOUR + i);
+  const canComplete = (a: Appointment) => a.status === 'booked' && a.therapistId === currentUser.id;
+  const canUpdate = (a: Appointment) => a.status === 'booked' && (isAdmin || a.therapistId === currentUser.id);
+
+  return (
+    <div className="space-y-4">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center justify-between gap-3 bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+        <div className="flex items-center gap-2">
+          <button onClick={() => step(-1)} className="px-2 py-1 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-600">‹</button>
+          <button onClick={() => setAnchor(startOfDay(new Date()))} className="px-3 py-1 rounded-lg bg-slate-100 hover:bg-slate-200 text-sm text-slate-600">Today</button>
+          <button onClick={() => step(1)} className="px-2 py-1 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-600">›</button>
+          <h3 className="ml-2 font-semibold text-slate-800">{title}</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          {isAdmin && (
+            <select
+              value={therapistFilter}
+              onChange={(e) => setTherapistFilter(e.target.value)}
+              className="px-3 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All Therapists</option>
+              {therapists.map(t => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+          )}
+          <div className="flex bg-slate-100 p-1 rounded-lg">
+            {(['day', 'week'] as ViewMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-3 py-1 text-sm font-medium rounded-md capitalize ${mode === m ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setBookingStart(new Date())}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg"
+          >
+            Book
+          </button>
+        </div>
+      </div>
+
+      {/* Grid */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-x-auto">
+        <div className="flex min-w-[640px]">
+          <div className="w-14 shrink-0 pt-10">
+            {hours.map(h => (
+              <div key={h} style={{ height: HOUR_HEIGHT }} className="text-xs text-slate-400 text-right pr-2 -mt-2">
+                {String(h).padStart(2, '0')}:00
+              </div>
+            ))}
+          </div>
+          {days.map(day => {
+            const dayAppointments = appointments.filter(a => startOfDay(new Date(a.start)).getTime() === day.getTime());
+            const isToday = day.getTime() === startOfDay(new Date()).getTime();
+            return (
+              <div key={day.toISOString()} className="flex-1 border-l border-slate-100 min-w-[80px]">
+                <div className={`h-10 flex items-center justify-center text-xs font-semibold border-b border-slate-100 ${isToday ? 'text-blue-600' : 'text-slate-500'}`}>
+                  {day.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' })}
+                </div>
+                <div
+                  className="relative cursor-pointer"
+                  style={{ height: hours.length * HOUR_HEIGHT }}
+                  onClick={(e) => handleSlotClick(day, e)}
+                >
+                  {hours.map(h => (
+                    <div key={h} style={{ top: (h - DAY_START_HOUR) * HOUR_HEIGHT }} className="absolute inset-x-0 border-t border-slate-100" />
+                  ))}
+                  {dayAppointments.map(a => {
+                    const start = new Date(a.start);
+                    const offset = (start.getHours() - DAY_START_HOUR) * 60 + start.getMinutes();
+                    return (
+                      <button
+                        key={a.id}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setSelected(a);
+                        }}
+                        style={{ top: (offset / 60) * HOUR_HEIGHT, height: (a.durationMinutes / 60) * HOUR_HEIGHT - 2, ...blockStyle(a, treatments) }}
+                        className={`absolute inset-x-1 rounded-md border px-1.5 py-0.5 text-left text-xs overflow-hidden ${blockClass(a)}`}
+                      >
+                        <span className="font-semibold block truncate">{a.patientName}</span>
+                        <span className="block truncate">
+                          {start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          {isAdmin && ` • ${a.therapistName}`}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Selected appointment */}
+      {selected && (
+        <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-[60]" onClick={() => setSelected(null)}>
+          <div className="bg-white p-6 rounded-2xl shadow-xl w-full max-w-sm border border-slate-200 space-y-4" onClick={(e) => e.stopPropagation()}>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">{selected.patientName}</h2>
+              <p className="text-sm text-slate-500">
+                {new Date(selected.start).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} • {selected.durationMinutes} mins
+              </p>
+              <p className="text-sm text-slate-500">{treatmentName(treatments, selected.treatmentType)} with {selected.therapistName}</p>
+              <p className="text-xs font-medium text-slate-400 mt-1">{STATUS_LABELS[selected.status]}</p>
+            </div>
+            <div className="flex flex-col gap-2">
+              {canComplete(selected) && (
+                <button
+                  onClick={() => onComplete(selected)}
+                  className="w-full py-2 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700"
+                >
+                  Complete & Sign
+                </button>
+              )}
+              {canUpdate(selected) && (
+                <div className="grid grid-cols-3 gap-2">
+                  <button onClick={() => handleStatus(selected, 'no_show')} className="py-1.5 text-xs font-medium rounded-lg bg-amber-50 text-amber-700 hover:bg-amber-100">
+                    No-show
+                  </button>
+                  <button onClick={() => handleStatus(selected, 'late_cancel')} className="py-1.5 text-xs font-medium rounded-lg bg-orange-50 text-orange-700 hover:bg-orange-100">
+                    Late cancel
+                  </button>
+                  <button onClick={() => handleStatus(selected, 'cancelled')} className="py-1.5 text-xs font-medium rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-200">
+                    Cancel
+                  </button>
+                </div>
+              )}
+              <button onClick={() => setSelected(null)} className="text-sm text-slate-400 hover:text-slate-600">Close</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {bookingStart && (
+        <AppointmentDialog
+          currentUser={currentUser}
+          initialStart={bookingStart}
+          onClose={() => setBookingStart(null)}
+          onBooked={() => {
+            setBookingStart(null);
+            setVersion(v => v + 1);
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { BodyView, ClinicalNoteDraft } from '../types';
+import { SOAP_SECTIONS, bodyMarkLabel, painColor } from '../services/bodyChart';
+import { BodyChart } from './BodyChart';
+
+interface ClinicalNoteEditorProps {
+  note: ClinicalNoteDraft;
+  onChange: (note: ClinicalNoteDraft) => void;
+}
+
+const DEFAULT_PAIN = 5;
+
+export const ClinicalNoteEditor: React.FC<ClinicalNoteEditorProps> = ({ note, onChange }) => {
+  const toggleRegion = (view: BodyView, regionId: string) => {
+    const marked = note.bodyMarks.some(m => m.view === view && m.regionId === regionId);
+    onChange({
+      ...note,
+      bodyMarks: marked
+        ? note.bodyMarks.filter(m => !(m.view === view && m.regionId === regionId))
+        : [...note.bodyMarks, { view, regionId, pain: DEFAULT_PAIN }],
+    });
+  };
+
+  const setPain = (index: number, pain: number) => {
+    onChange({ ...note, bodyMarks: note.bodyMarks.map((m, i) => (i === index ? { ...m, pain } : m)) });
+  };
+
+  return (
+    <div className="space-y-4">
+      {SOAP_SECTIONS.map(({ key, label, placeholder }) => (
+        <div key={key}>
+          <label className="block text-xs font-medium text-slate-500 mb-1">{label}</label>
+          <textarea
+            value={note[key]}
+            onChange={(e) => onChange({ ...note, [key]: e.target.value })}
+            rows={2}
+            className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            placeholder={placeholder}
+          />
+        </div>
+      ))}
+
+      <div>
+        <label className="block text-xs font-medium text-slate-500 mb-1">Treated Areas</label>
+        <p className="text-xs text-slate-400 mb-2">Tap an area to mark it, then set the pain score.</p>
+        <BodyChart marks={note.bodyMarks} onToggle={toggleRegion} />
+        {note.bodyMarks.length > 0 && (
+          <ul className="mt-3 space-y-2">
+            {note.bodyMarks.map((mark, i) => (
+              <li key={`${mark.view}:${mark.regionId}`} className="flex items-center gap-3 text-sm">
+                <span className="w-44 text-slate-700">{bodyMarkLabel(mark)}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={10}
+                  value={mark.pain}
+                  onChange={(e) => setPain(i, Number(e.target.value))}
+                  className="flex-1"
+                  aria-label={`Pain score for ${bodyMarkLabel(mark)}`}
+                />
+                <span className="w-10 text-right font-semibold" style={{ color: painColor(mark.pain) }}>{mark.pain}/10</span>
+                <button type="button" onClick={() => toggleRegion(mark.view, mark.regionId)} className="text-xs text-red-500 hover:text-red-700">
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from 'react';
+import { User } from '../types';
+import { dbService } from '../services/dbService';
+import { SheetRows, readSpreadsheet } from '../services/spreadsheetService';
+import { ColumnMapping, DateOrder, IMPORT_FIELDS, buildImportRows, guessMapping, sessionKey } from '../services/importService';
+
+interface ImportWizardProps {
+  currentUser: User;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 200;
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ currentUser, onImported, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SheetRows | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dateOrder, setDateOrder] = useState<DateOrder>('dmy');
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    try {
+      const rows = await readSpreadsheet(file);
+      if (rows.length < 2) {
+        setError('The file needs a header row and at least one session.');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(rows);
+      setMapping(guessMapping(rows[0].cells));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The file could not be read.');
+    }
+  };
+
+  const missingFields = mapping ? IMPORT_FIELDS.filter(f => f.required && mapping[f.field] < 0) : [];
+
+  const rows = useMemo(() => {
+    if (!sheet || !mapping || missingFields.length) return [];
+    const existingKeys = new Set(
+      dbService.getSessions(currentUser.id, 'admin')
+        .filter(s => !s.voidedAt)
+        .map(s => sessionKey(s.therapistId, s.timestamp, s.patientName))
+    );
+    return buildImportRows(sheet, mapping, dateOrder, {
+      therapists: dbService.getAllTherapists(true),
+      treatments: dbService.getTreatments(true),
+      isLocked: (therapistId, month, year) => dbService.isPeriodLocked(therapistId, month, year),
+      existingKeys,
+    });
+  }, [sheet, mapping, dateOrder, currentUser.id, missingFields.length]);
+
+  const validRows = rows.filter(r => r.draft && !r.errors.length);
+  const invalidCount = rows.length - validRows.length;
+  const shownRows = (showErrorsOnly ? rows.filter(r => r.errors.length) : rows).slice(0, PREVIEW_LIMIT);
+
+  const handleImport = () => {
+    if (!validRows.length) return;
+    const skipping = invalidCount ? ` ${invalidCount} row(s) with errors will be skipped.` : '';
+    if (!confirm(`Import ${validRows.length} session(s) as unsigned historical records?${skipping}`)) return;
+
+    const outcome = dbService.importSessions(currentUser.id, validRows.map(r => r.draft!));
+    if (!outcome.success) {
+      setError(outcome.message);
+      return;
+    }
+    setResult(outcome.message);
+    onImported();
+  };
+
+  const reset = () => {
+    setSheet(null);
+    setMapping(null);
+    setFileName('');
+    setResult(null);
+    setError('');
+  };
+
+  const selectClass = "w-full px-2 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+        <div>
+          <h3 className="font-semibold text-slate-700">Import Sessions</h3>
+          <p className="text-xs text-slate-500">
+            Bring in historical sessions from a CSV or Excel (.xlsx) timesheet. Imported sessions are marked as unsigned.
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-sm">Close</button>
+      </div>
+
+      {error && <p className="px-6 py-2 text-sm text-red-600">{error}</p>}
+
+      {result ? (
+        <div className="p-6 space-y-3">
+          <p className="text-sm font-medium text-green-700">{result}</p>
+          <button onClick={reset} className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg">
+            Import Another File
+          </button>
+        </div>
+      ) : !sheet || !mapping ? (
+        <div className="p-6">
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="block w-full text-sm text-slate-500"
+          />
+          <p className="mt-2 text-xs text-slate-400">
+            The first row should hold column names, e.g. Date, Time, Therapist, Patient, Treatment, Duration, Notes.
+          </p>
+        </div>
+      ) : (
+        <div className="p-6 space-y-4">
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-slate-600">
+              <span className="font-medium">{fileName}</span> — {sheet.length - 1} row(s)
+            </span>
+            <button onClick={reset} className="text-xs text-blue-600 hover:text-blue-800">Choose another file</button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <div key={field}>
+                <label className="block text-xs font-medium text-slate-500 mb-1">
+                  {label}{required && <span className="text-red-500"> *</span>}
+                </label>
+                <select
+                  value={mapping[field]}
+                  onChange={(e) => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+                  className={selectClass}
+                >
+                  <option value={-1}>{required ? 'Choose a column…' : 'Not in file'}</option>
+                  {sheet[0].cells.map((header, i) => (
+                    <option key={i} value={i}>{header || `Column ${i + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Date format</label>
+              <select value={dateOrder} onChange={(e) => setDateOrder(e.target.value as DateOrder)} className={selectClass}>
+                <option value="dmy">DD/MM/YYYY</option>
+                <option value="mdy">MM/DD/YYYY</option>
+              </select>
+            </div>
+          </div>
+
+          {missingFields.length > 0 ? (
+            <p className="text-sm text-amber-700">Choose a column for {missingFields.map(f => f.label).join(', ')}.</p>
+          ) : (
+            <>
+              <div className="flex justify-between items-center">
+                <p className="text-sm text-slate-600">
+                  <span className="font-semibold text-green-700">{validRows.length} ready</span>
+                  {invalidCount > 0 && <>, <span className="font-semibold text-red-600">{invalidCount} with errors</span></>}
+                </p>
+                <label className="flex items-center gap-1 text-xs text-slate-500">
+                  <input type="checkbox" checked={showErrorsOnly} onChange={(e) => setShowErrorsOnly(e.target.checked)} />
+                  Show errors only
+                </label>
+              </div>
+
+              <div className="overflow-x-auto max-h-96 border border-slate-100 rounded-lg">
+                <table className="w-full text-xs text-left text-slate-600">
+                  <thead className="bg-slate-50 text-slate-500 uppercase sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">Date</th>
+                      <th className="px-3 py-2">Therapist</th>
+                      <th className="px-3 py-2">Patient</th>
+                      <th className="px-3 py-2">Treatment</th>
+                      <th className="px-3 py-2">Mins</th>
+                      <th className="px-3 py-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {shownRows.map(row => (
+                      <tr key={row.row} className={row.errors.length ? 'bg-red-50/50' : ''}>
+                        <td className="px-3 py-2 text-slate-400">{row.row}</td>
+                        <td className="px-3 py-2">
+                          {row.draft ? new Date(row.draft.timestamp).toLocaleString() : row.cells[mapping.date]}
+                        </td>
+                        <td className="px-3 py-2">{row.draft?.therapistName || row.cells[mapping.therapist]}</td>
+                        <td className="px-3 py-2">{row.cells[mapping.patient]}</td>
+                        <td className="px-3 py-2">{row.cells[mapping.treatment]}</td>
+                        <td className="px-3 py-2">{row.cells[mapping.duration]}</td>
+                        <td className="px-3 py-2">
+                          {row.errors.length
+                            ? <ul className="text-red-600">{row.errors.map(e => <li key={e}>{e}</li>)}</ul>
+                            : <span className="text-green-700">OK</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {rows.length > PREVIEW_LIMIT && !showErrorsOnly && (
+                <p className="text-xs text-slate-400">Showing the first {PREVIEW_LIMIT} rows.</p>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleImport}
+                  disabled={!validRows.length}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:bg-slate-300"
+                >
+                  Import {validRows.length} Session{validRows.length === 1 ? '' : 's'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Invite, User, UserRole } from '../types';
+import { dbService } from '../services/dbService';
+import { routeHash } from '../services/router';
+
+interface InviteManagerProps {
+  currentUser: User;
+}
+
+const inviteUrl = (invite: Invite) =>
+  `${window.location.origin}${window.location.pathname}${routeHash('register', {}, { code: invite.token })}`;
+
+const inviteStatus = (invite: Invite): string => {
+  if (invite.usedAt) return `Used ${new Date(invite.usedAt).toLocaleDateString()}`;
+  if (new Date(invite.expiresAt).getTime() <= Date.now()) return 'Expired';
+  return `Expires ${new Date(invite.expiresAt).toLocaleDateString()}`;
+};
+
+export const InviteManager: React.FC<InviteManagerProps> = ({ currentUser }) => {
+  const [invites, setInvites] = useState<Invite[]>(() => dbService.getInvites());
+  const [role, setRole] = useState<UserRole>('therapist');
+  const [name, setName] = useState('');
+  const [validDays, setValidDays] = useState(7);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const copyLink = (invite: Invite) => {
+    navigator.clipboard.writeText(inviteUrl(invite));
+    setCopiedToken(invite.token);
+    setTimeout(() => setCopiedToken(null), 2000);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const result = dbService.createInvite(currentUser.id, role, name, validDays);
+    if (!result.success || !result.invite) {
+      setError(result.message);
+      return;
+    }
+    setInvites([...dbService.getInvites()]);
+    setName('');
+    copyLink(result.invite);
+  };
+
+  const handleRevoke = (token: string) => {
+    dbService.revokeInvite(token);
+    setInvites([...dbService.getInvites()]);
+  };
+
+  const inputClass = "px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Invite a User</h3>
+      <form onSubmit={handleCreate} className="space-y-3">
+        <div className="flex p-1 bg-slate-100 rounded-lg">
+          <button
+            type="button"
+            onClick={() => setRole('therapist')}
+            className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${role === 'therapist' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+          >
+            Therapist
+          </button>
+          <button
+            type="button"
+            onClick={() => setRole('admin')}
+            className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${role === 'admin' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+          >
+            Admin
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={`${inputClass} flex-1`}
+            placeholder="Name (optional, locks it)"
+          />
+          <select value={validDays} onChange={(e) => setValidDays(Number(e.target.value))} className={inputClass}>
+            <option value={1}>1 day</option>
+            <option value={7}>7 days</option>
+            <option value={30}>30 days</option>
+          </select>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          className="w-full py-2 rounded-lg bg-slate-800 text-white font-semibold hover:bg-slate-700 transition-all"
+        >
+          Create & Copy Invite Link
+        </button>
+      </form>
+
+      {invites.length > 0 && (
+        <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg max-h-48 overflow-y-auto">
+          {invites.map(invite => {
+            const isOpen = !invite.usedAt && new Date(invite.expiresAt).getTime() > Date.now();
+            return (
+              <li key={invite.token} className="px-3 py-2 flex justify-between items-center text-sm">
+                <div>
+                  <p className="font-medium text-slate-700">
+                    {invite.name || 'Anyone'} <span className="text-xs text-slate-400">({invite.role})</span>
+                  </p>
+                  <p className="text-xs text-slate-500">{inviteStatus(invite)}</p>
+                </div>
+                {isOpen && (
+                  <div className="flex gap-3">
+                    <button onClick={() => copyLink(invite)} className="text-xs text-blue-600 hover:text-blue-800">
+                      {copiedToken === invite.token ? 'Copied!' : 'Copy link'}
+                    </button>
+                    <button onClick={() => handleRevoke(invite.token)} className="text-xs text-red-500 hover:text-red-700">
+                      Revoke
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
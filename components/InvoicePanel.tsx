@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { ClinicDetails, Invoice, Session, User } from '../types';
+import { dbService } from '../services/dbService';
+import { formatMoney } from '../services/payrollService';
+import { invoiceFilename, renderInvoicePdf } from '../services/invoiceService';
+import { downloadBlob } from '../services/pdfService';
+
+interface InvoicePanelProps {
+  currentUser: User;
+  sessions: Session[]; // sessions for the selected month, any therapist; only used to list who can be invoiced
+  month: number;
+  year: number;
+}
+
+export const InvoicePanel: React.FC<InvoicePanelProps> = ({ currentUser, sessions, month, year }) => {
+  const isAdmin = currentUser.role === 'admin';
+  const [clinic, setClinic] = useState<ClinicDetails>(() => dbService.getClinicDetails());
+  const [editingClinic, setEditingClinic] = useState(false);
+  // Bumped after issuing so the stored invoice lookups re-run
+  const [version, setVersion] = useState(0);
+
+  const therapists = useMemo(() => {
+    const byId = new Map<string, string>();
+    sessions.forEach(s => byId.set(s.therapistId, s.therapistName));
+    return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [sessions]);
+
+  const issued = useMemo(() => {
+    const map: Record<string, Invoice | undefined> = {};
+    therapists.forEach(t => {
+      map[t.id] = dbService.findInvoice(t.id, month, year);
+    });
+    return map;
+  }, [therapists, month, year, version]);
+
+  const handleIssue = (therapist: { id: string; name: string }) => {
+    const draft = dbService.draftInvoice(therapist, month, year, currentUser.id);
+    const unrated = draft.lineItems.filter(item => item.amount === 0).length;
+    if (unrated > 0 && !confirm(`${unrated} session(s) have no pay rate and will be invoiced at ${formatMoney(0)}. Continue?`)) {
+      return;
+    }
+
+    const result = dbService.issueInvoice(currentUser.id, therapist, month, year);
+    if (!result.success || !result.invoice) {
+      alert(result.message);
+      return;
+    }
+    downloadBlob(renderInvoicePdf(result.invoice), invoiceFilename(result.invoice));
+    setVersion(v => v + 1);
+  };
+
+  const handleDownload = (invoice: Invoice) => {
+    downloadBlob(renderInvoicePdf(invoice), invoiceFilename(invoice));
+  };
+
+  const handleSaveClinic = (e: React.FormEvent) => {
+    e.preventDefault();
+    dbService.updateClinicDetails(clinic);
+    setEditingClinic(false);
+  };
+
+  const inputClass = "w-full px-3 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+        <div>
+          <h3 className="font-semibold text-slate-700">Invoices</h3>
+          <p className="text-xs text-slate-500">
+            {new Date(year, month).toLocaleString('default', { month: 'long', year: 'numeric' })} • billed to {clinic.name}
+          </p>
+        </div>
+        {isAdmin && (
+          <button onClick={() => setEditingClinic(v => !v)} className="text-xs text-blue-600 hover:text-blue-800">
+            {editingClinic ? 'Cancel' : 'Edit clinic details'}
+          </button>
+        )}
+      </div>
+
+      {editingClinic && (
+        <form onSubmit={handleSaveClinic} className="p-4 grid grid-cols-1 md:grid-cols-3 gap-3 border-b border-slate-100">
+          <input
+            value={clinic.name}
+            onChange={(e) => setClinic({ ...clinic, name: e.target.value })}
+            className={inputClass}
+            placeholder="Clinic name"
+            required
+          />
+          <input
+            value={clinic.email}
+            onChange={(e) => setClinic({ ...clinic, email: e.target.value })}
+            className={inputClass}
+            placeholder="Accounts email"
+          />
+          <textarea
+            value={clinic.address}
+            onChange={(e) => setClinic({ ...clinic, address: e.target.value })}
+            className={inputClass}
+            placeholder="Address"
+            rows={2}
+          />
+          <button
+            type="submit"
+            className="md:col-span-3 px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+          >
+            Save Clinic Details
+          </button>
+        </form>
+      )}
+
+      {therapists.length === 0 ? (
+        <div className="p-6 text-center text-sm text-slate-400">No sessions to invoice this month.</div>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {therapists.map(t => {
+            const invoice = issued[t.id];
+            return (
+              <li key={t.id} className="px-6 py-3 flex justify-between items-center text-sm">
+                <div>
+                  <p className="font-medium text-slate-700">{t.name}</p>
+                  {invoice && (
+                    <p className="text-xs text-slate-500">
+                      {invoice.number} • {formatMoney(invoice.total)} • issued {new Date(invoice.issuedAt).toLocaleDateString()}
+                    </p>
+                  )}
+                </div>
+                {invoice ? (
+                  <button
+                    onClick={() => handleDownload(invoice)}
+                    className="px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+                  >
+                    Download PDF
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleIssue(t)}
+                    className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+                  >
+                    Generate Invoice
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,51 +1,66 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { dbService } from '../services/dbService';
-import { User, UserRole } from '../types';
+import { User } from '../types';
 
 interface LoginPageProps {
   onLogin: (user: User) => void;
   initialMode: 'login' | 'register';
+  inviteCode: string | null;
   onNavigate: (mode: 'login' | 'register') => void;
 }
 
-export const LoginPage: React.FC<LoginPageProps> = ({ onLogin, initialMode, onNavigate }) => {
+export const LoginPage: React.FC<LoginPageProps> = ({ onLogin, initialMode, inviteCode, onNavigate }) => {
   // Sync state with props when props change (hash change)
   const isRegistering = initialMode === 'register';
+  const invite = useMemo(() => inviteCode ? dbService.validateInvite(inviteCode) : null, [inviteCode]);
   
   // Form Fields
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
-  const [role, setRole] = useState<UserRole>('therapist');
 
   const [error, setError] = useState('');
   const [successMsg, setSuccessMsg] = useState('');
-  const [copiedLink, setCopiedLink] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleLogin = (e: React.FormEvent) => {
+  // Invites can fix the invitee's name
+  useEffect(() => {
+    if (invite?.name) setName(invite.name);
+  }, [invite]);
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setSuccessMsg('');
+    setIsSubmitting(true);
     
-    const user = dbService.login(username, password);
-    if (user) {
-      onLogin(user);
+    const result = await dbService.login(username, password);
+    setIsSubmitting(false);
+    if (result.user) {
+      onLogin(result.user);
     } else {
-      setError('Invalid username or password');
+      setError(result.message);
     }
   };
 
-  const handleRegister = (e: React.FormEvent) => {
+  const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setSuccessMsg('');
 
+    if (!invite || !inviteCode) {
+        setError("A valid invite is required to register.");
+        return;
+    }
+
     if (password.length < 4) {
         setError("Password must be at least 4 characters.");
         return;
     }
 
-    const result = dbService.registerUser(name, username, password, role);
+    setIsSubmitting(true);
+    const result = await dbService.registerUser(name, username, password, inviteCode);
+    setIsSubmitting(false);
     
     if (result.success) {
         setSuccessMsg("Account created! Please sign in.");
@@ -65,13 +80,6 @@ export const LoginPage: React.FC<LoginPageProps> = ({ onLogin, initialMode, onNa
     if (isRegistering) setName('');
   };
 
-  const copyLink = () => {
-    const url = `${window.location.origin}${window.location.pathname}#/register`;
-    navigator.clipboard.writeText(url);
-    setCopiedLink(true);
-    setTimeout(() => setCopiedLink(false), 2000);
-  };
-
   return (
     <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
       <div className="bg-white p-8 rounded-2xl shadow-xl w-full max-w-md border border-slate-200">
@@ -91,9 +99,16 @@ export const LoginPage: React.FC<LoginPageProps> = ({ onLogin, initialMode, onNa
           </div>
         )}
 
+        {isRegistering && !invite ? (
+          <div className="p-4 rounded-lg bg-amber-50 text-amber-800 text-sm border border-amber-200">
+            Registration is by invitation only. {inviteCode
+              ? 'This invite link is invalid, has expired or has already been used.'
+              : 'Ask your clinic administrator for an invite link.'}
+          </div>
+        ) : (
         <form onSubmit={isRegistering ? handleRegister : handleLogin} className="space-y-5">
           
-          {isRegistering && (
+          {isRegistering && invite && (
             <div className="animate-in fade-in slide-in-from-top-2 duration-300 space-y-5">
                 <div>
                     <label className="block text-sm font-medium text-slate-700 mb-1">Full Name</label>
@@ -101,29 +116,17 @@ export const LoginPage: React.FC<LoginPageProps> = ({ onLogin, initialMode, onNa
                     type="text"
                     value={name}
                     onChange={(e) => setName(e.target.value)}
-                    className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-blue-500 outline-none"
+                    disabled={!!invite.name}
+                    className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-slate-100 disabled:text-slate-500"
                     placeholder="e.g. Sarah Jones"
                     required
                     />
                 </div>
-                <div>
-                    <label className="block text-sm font-medium text-slate-700 mb-1">Role</label>
-                    <div className="flex p-1 bg-slate-100 rounded-lg">
-                        <button
-                            type="button"
-                            onClick={() => setRole('therapist')}
-                            className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${role === 'therapist' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
-                        >
-                            Therapist
-                        </button>
-                        <button
-                            type="button"
-                            onClick={() => setRole('admin')}
-                            className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${role === 'admin' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
-                        >
-                            Admin
-                        </button>
-                    </div>
+                <div className="text-sm text-slate-600">
+                    You've been invited as {invite.role === 'admin' ? 'an' : 'a'}{' '}
+                    <span className={`font-semibold ${invite.role === 'admin' ? 'text-indigo-600' : 'text-blue-600'}`}>
+                        {invite.role === 'admin' ? 'Administrator' : 'Therapist'}
+                    </span>.
                 </div>
             </div>
           )}
@@ -161,36 +164,20 @@ export const LoginPage: React.FC<LoginPageProps> = ({ onLogin, initialMode, onNa
 
           <button
             type="submit"
-            className="w-full py-3 rounded-lg bg-blue-600 text-white font-semibold shadow-md hover:bg-blue-700 hover:shadow-lg transition-all active:scale-[0.99]"
+            disabled={isSubmitting}
+            className="w-full py-3 rounded-lg bg-blue-600 text-white font-semibold shadow-md hover:bg-blue-700 hover:shadow-lg transition-all active:scale-[0.99] disabled:bg-slate-400 disabled:cursor-wait"
           >
-            {isRegistering ? 'Create Account' : 'Sign In'}
+            {isSubmitting ? 'Please wait...' : isRegistering ? 'Create Account' : 'Sign In'}
           </button>
         </form>
+        )}
 
         <div className="mt-6 pt-6 border-t border-slate-100 text-center space-y-4">
           <button 
             onClick={toggleMode}
             className="text-sm font-medium text-blue-600 hover:text-blue-800 hover:underline block w-full"
           >
-            {isRegistering ? 'Already have an account? Sign In' : 'Need an account? Register here'}
-          </button>
-
-          <button 
-             onClick={copyLink}
-             className="text-xs text-slate-400 hover:text-slate-600 flex items-center justify-center gap-1 mx-auto transition-colors"
-             title="Send this link to therapists to sign up"
-          >
-             {copiedLink ? (
-                <>
-                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
-                    Link Copied!
-                </>
-             ) : (
-                <>
-                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" /></svg>
-                    Share Registration Link
-                </>
-             )}
+            {isRegistering ? 'Already have an account? Sign In' : 'Have an invite? Register here'}
           </button>
         </div>
       </div>
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { Patient, PatientConsent, User } from '../types';
+import { dbService } from '../services/dbService';
+import { searchPatients } from '../services/patientMatching';
+
+interface PatientPickerProps {
+  currentUser: User;
+  selected: Patient | null;
+  onSelect: (patient: Patient | null) => void;
+}
+
+const NO_CONSENT: PatientConsent = { treatment: false, dataProcessing: false, contact: false };
+
+export const PatientPicker: React.FC<PatientPickerProps> = ({ currentUser, selected, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  // Bumped after an inline create so the search sees the new patient
+  const [version, setVersion] = useState(0);
+
+  // Inline create form
+  const [dateOfBirth, setDateOfBirth] = useState('');
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [consent, setConsent] = useState<PatientConsent>(NO_CONSENT);
+  const [error, setError] = useState('');
+
+  const patients = useMemo(() => dbService.getPatients(), [version]);
+  const matches = useMemo(() => searchPatients(patients, query), [patients, query]);
+
+  const handleSelect = (patient: Patient) => {
+    onSelect(patient);
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  const startCreate = () => {
+    setIsCreating(true);
+    setIsOpen(false);
+    setError('');
+  };
+
+  const handleCreate = () => {
+    setError('');
+    if (!consent.treatment) {
+      setError("The patient's consent to treatment is required.");
+      return;
+    }
+
+    const result = dbService.addPatient(currentUser.id, {
+      name: query,
+      dateOfBirth: dateOfBirth || undefined,
+      phone: phone.trim() || undefined,
+      email: email.trim() || undefined,
+      consent,
+    });
+    if (!result.success || !result.patient) {
+      setError(result.message);
+      return;
+    }
+
+    setVersion(v => v + 1);
+    setIsCreating(false);
+    setDateOfBirth('');
+    setPhone('');
+    setEmail('');
+    setConsent(NO_CONSENT);
+    handleSelect(result.patient);
+  };
+
+  const inputClass = "w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all";
+
+  if (selected) {
+    return (
+      <div className="flex items-center justify-between px-4 py-2 rounded-lg border border-blue-200 bg-blue-50">
+        <div>
+          <p className="font-medium text-slate-800">{selected.name}</p>
+          {selected.dateOfBirth && (
+            <p className="text-xs text-slate-500">DOB {new Date(selected.dateOfBirth).toLocaleDateString()}</p>
+          )}
+        </div>
+        <button type="button" onClick={() => onSelect(null)} className="text-xs text-blue-600 hover:text-blue-800">
+          Change
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+          setIsCreating(false);
+        }}
+        onFocus={() => setIsOpen(true)}
+        className={inputClass}
+        placeholder="Search patients, e.g. John Doe"
+      />
+
+      {isOpen && (
+        <ul className="absolute z-20 mt-1 w-full bg-white border border-slate-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+          {matches.map(p => (
+            <li key={p.id}>
+              <button
+                type="button"
+                onClick={() => handleSelect(p)}
+                className="w-full text-left px-4 py-2 text-sm hover:bg-slate-50"
+              >
+                <span className="font-medium text-slate-800">{p.name}</span>
+                {p.dateOfBirth && <span className="ml-2 text-xs text-slate-400">{p.dateOfBirth}</span>}
+              </button>
+            </li>
+          ))}
+          {query.trim() && (
+            <li>
+              <button
+                type="button"
+                onClick={startCreate}
+                className="w-full text-left px-4 py-2 text-sm text-blue-600 hover:bg-blue-50 border-t border-slate-100"
+              >
+                + Add "{query.trim()}" as a new patient
+              </button>
+            </li>
+          )}
+          {!matches.length && !query.trim() && (
+            <li className="px-4 py-2 text-sm text-slate-400">No patients yet. Type a name to add one.</li>
+          )}
+        </ul>
+      )}
+
+      {isCreating && (
+        <div className="mt-2 p-4 rounded-lg border border-slate-200 bg-slate-50 space-y-3">
+          <p className="text-sm font-medium text-slate-700">New patient: {query.trim()}</p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <input type="date" value={dateOfBirth} onChange={(e) => setDateOfBirth(e.target.value)} className={inputClass} title="Date of birth" />
+            <input type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} className={inputClass} placeholder="Phone" />
+            <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} placeholder="Email" />
+          </div>
+          <div className="flex flex-wrap gap-4 text-sm text-slate-600">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={consent.treatment} onChange={(e) => setConsent({ ...consent, treatment: e.target.checked })} />
+              Consents to treatment
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={consent.dataProcessing} onChange={(e) => setConsent({ ...consent, dataProcessing: e.target.checked })} />
+              Data processing
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={consent.contact} onChange={(e) => setConsent({ ...consent, contact: e.target.checked })} />
+              May be contacted
+            </label>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2 justify-end">
+            <button type="button" onClick={() => setIsCreating(false)} className="px-3 py-1.5 text-sm text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg">
+              Cancel
+            </button>
+            <button type="button" onClick={handleCreate} className="px-3 py-1.5 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg">
+              Add Patient
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
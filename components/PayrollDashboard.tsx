@@ -1,70 +1,272 @@
-import React, { useMemo, useState } from 'react';
-import { Session, TreatmentType, User } from '../types';
-import { generatePayrollAnalysis } from '../services/geminiService';
+import React, { useEffect, useMemo, useState } from 'react';
+import { AnalysisScope, PayRate, SavedAnalysis, PeriodKind, ReportPeriod, SealCheck, Session, Treatment, User } from '../types';
+import { generatePayrollAnalysis, hashAnalysisInput } from '../services/analysisService';
 import { dbService } from '../services/dbService';
+import { buildPayrollReport, buildPayrollTrend, formatMoney } from '../services/payrollService';
+import { PERIOD_KINDS, isInPeriod, monthsBetween, periodContaining, periodFromQuery, periodLabel, periodMonth, periodQuery, shiftPeriod } from '../services/reportPeriods';
+import { durationRuleLabel, treatmentColor, treatmentName } from '../services/treatmentCatalogue';
+import { SEAL_STATUS_LABELS } from '../services/signatureSeal';
+import { routeHash } from '../services/router';
+import { RateCardEditor } from './RateCardEditor';
+import { TreatmentCatalogueEditor } from './TreatmentCatalogueEditor';
+import { ImportWizard } from './ImportWizard';
+import { SignatureVerifier } from './SignatureVerifier';
+import { InvoicePanel } from './InvoicePanel';
+import { SessionEditDialog } from './SessionEditDialog';
+import { AuditLogPanel } from './AuditLogPanel';
+import { PromptLogPanel } from './PromptLogPanel';
+import { SessionQueryPanel } from './SessionQueryPanel';
+import { PeriodStatusControls } from './PeriodStatusControls';
+import { SignatureImage } from './SignatureImage';
+import { TrendCharts } from './TrendCharts';
+import { AnalysisReportCard } from './AnalysisReportCard';
 
 interface PayrollDashboardProps {
   currentUser: User;
   sessions: Session[];
+  onSessionsChange: () => void;
+  query: Record<string, string>; // period (see reportPeriods), therapist and comparison, kept in the URL so views can be linked
+  onQueryChange: (query: Record<string, string>) => void;
 }
 
-export const PayrollDashboard: React.FC<PayrollDashboardProps> = ({ currentUser, sessions }) => {
-  const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
-  const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
-  const [selectedTherapistId, setSelectedTherapistId] = useState<string>('all');
-  const [aiReport, setAiReport] = useState<string | null>(null);
+// e.g. "Latest · 03/03/2025, 14:02 (stale)"; `index` counts back from the newest
+const analysisVersionLabel = (analysis: SavedAnalysis, index: number, stale: boolean): string =>
+  `${index === 0 ? 'Latest · ' : ''}${new Date(analysis.generatedAt).toLocaleString()}${stale ? ' (stale)' : ''}`;
+
+// Change between two totals, e.g. "+12%"; blank when there's nothing to compare against
+const formatChange = (current: number, previous: number): string => {
+  if (previous === 0) return current === 0 ? '' : 'new';
+  const change = Math.round(((current - previous) / previous) * 100);
+  return `${change > 0 ? '+' : ''}${change}%`;
+};
+
+export const PayrollDashboard: React.FC<PayrollDashboardProps> = ({ currentUser, sessions, onSessionsChange, query, onQueryChange }) => {
+  const period = useMemo(() => periodFromQuery(query, new Date()), [query]);
+  // Approval and invoices are monthly, so they only show when a calendar month is selected
+  const month = periodMonth(period);
+  const selectedTherapistId = (currentUser.role === 'admin' && query.therapist) || 'all';
+  const comparing = query.compare === 'previous';
+  const [showTrends, setShowTrends] = useState(false);
+  const [showAsk, setShowAsk] = useState(false);
+  const [selectedPatientId, setSelectedPatientId] = useState<string>('all');
+  const [groupByPatient, setGroupByPatient] = useState(false);
+  const [aiError, setAiError] = useState<string | null>(null);
   const [loadingAi, setLoadingAi] = useState(false);
+  // Saved analyses of the report in view; null shows the latest
+  const [shownAnalysisId, setShownAnalysisId] = useState<string | null>(null);
+  const [comparedAnalysisId, setComparedAnalysisId] = useState('');
+  const [analysesVersion, setAnalysesVersion] = useState(0);
+  const [inputHash, setInputHash] = useState<string | null>(null);
+  const [rates, setRates] = useState<PayRate[]>(() => dbService.getPayRates());
+  const [showRateCard, setShowRateCard] = useState(false);
+  const [treatments, setTreatments] = useState<Treatment[]>(() => dbService.getTreatments(true));
+  const [showCatalogue, setShowCatalogue] = useState(false);
+  const [showInvoices, setShowInvoices] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showVerifier, setShowVerifier] = useState(false);
+  const [editingSession, setEditingSession] = useState<Session | null>(null);
+  const [showAudit, setShowAudit] = useState(false);
+  const [auditFilter, setAuditFilter] = useState('');
+  const [showPromptLog, setShowPromptLog] = useState(false);
+  // Bumped when a pay period changes status so the controls and lock checks re-read dbService
+  const [, setPeriodVersion] = useState(0);
 
   const isAdmin = currentUser.role === 'admin';
-  const therapists = useMemo(() => isAdmin ? dbService.getAllTherapists() : [], [isAdmin]);
 
-  // Filter sessions
-  const filteredSessions = useMemo(() => {
-    return sessions.filter(session => {
-      const date = new Date(session.timestamp);
-      const isMonthMatch = date.getMonth() === selectedMonth && date.getFullYear() === selectedYear;
-      const isTherapistMatch = selectedTherapistId === 'all' || session.therapistId === selectedTherapistId;
-      
-      return isMonthMatch && isTherapistMatch;
+  // Filter changes go through the URL, which feeds back in as `query`
+  const setFilters = (changes: { period?: ReportPeriod; therapist?: string; compare?: boolean }) => {
+    const next = { period, therapist: selectedTherapistId, compare: comparing, ...changes };
+    onQueryChange({
+      ...periodQuery(next.period),
+      ...(next.therapist !== 'all' ? { therapist: next.therapist } : {}),
+      ...(next.compare ? { compare: 'previous' } : {}),
     });
-  }, [sessions, selectedMonth, selectedYear, selectedTherapistId]);
+    setAiError(null);
+  };
+
+  const handleKindChange = (kind: PeriodKind) => {
+    // A custom range starts out as whatever was on screen
+    setFilters({ period: kind === 'custom' ? { ...period, kind } : periodContaining(kind, new Date(`${period.start}T00:00`)) });
+  };
+  const therapists = useMemo(() => isAdmin ? dbService.getAllTherapists(true) : [], [isAdmin]);
+  // The single therapist whose month is in view, if any
+  const periodTherapistId = isAdmin ? (selectedTherapistId === 'all' ? null : selectedTherapistId) : currentUser.id;
+
+  const matchesFilters = (session: Session, range: ReportPeriod) =>
+    isInPeriod(session.timestamp, range)
+    && (selectedTherapistId === 'all' || session.therapistId === selectedTherapistId)
+    && (selectedPatientId === 'all' || session.patientId === selectedPatientId);
+
+  // The months in view, and the period before when comparing, read from storage by month rather than
+  // filtered out of every session. Read again whenever the app's sessions change.
+  const previousPeriod = useMemo(() => shiftPeriod(period, -1), [period]);
+  const [monthSessions, setMonthSessions] = useState<Session[]>([]);
+  useEffect(() => {
+    let current = true;
+    const months = monthsBetween(comparing ? previousPeriod.start : period.start, period.end);
+    Promise.all(months.map(({ month, year }) => dbService.getSessionsForMonth(currentUser.id, currentUser.role, month, year)))
+      .then(results => { if (current) setMonthSessions(results.flat().sort((a, b) => b.timestamp.localeCompare(a.timestamp))); });
+    return () => { current = false; };
+  }, [currentUser, sessions, period, previousPeriod, comparing]);
+
+  // Filter sessions
+  const periodSessions = useMemo(
+    () => monthSessions.filter(session => matchesFilters(session, period)),
+    [monthSessions, period, selectedTherapistId, selectedPatientId]
+  );
+
+  // Only offer patients that appear in the sessions this user can see
+  const patients = useMemo(() => {
+    const seen = new Set(sessions.map(s => s.patientId).filter(Boolean));
+    return dbService.getPatients().filter(p => seen.has(p.id));
+  }, [sessions]);
+
+  // Invoices cover a therapist's whole month, so they ignore the patient filter
+  const invoiceSessions = useMemo(
+    () => monthSessions.filter(s => !s.voidedAt && isInPeriod(s.timestamp, period) && (selectedTherapistId === 'all' || s.therapistId === selectedTherapistId)),
+    [monthSessions, period, selectedTherapistId]
+  );
+
+  // Voided sessions stay on record but never count towards payroll
+  const filteredSessions = useMemo(() => periodSessions.filter(s => !s.voidedAt), [periodSessions]);
+  const voidedSessions = useMemo(() => periodSessions.filter(s => s.voidedAt), [periodSessions]);
 
   // Calculate totals
+  const report = useMemo(() => buildPayrollReport(filteredSessions, rates, treatments), [filteredSessions, rates, treatments]);
+
   const stats = useMemo(() => {
-    let totalMinutes = 0;
-    let physioCount = 0;
-    let massageCount = 0;
+    const totalMinutes = filteredSessions.reduce((sum, s) => sum + s.durationMinutes, 0);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
 
-    filteredSessions.forEach(s => {
-      totalMinutes += s.durationMinutes;
-      if (s.treatmentType === TreatmentType.PHYSIOTHERAPY) physioCount++;
-      else massageCount++;
+    return { hours, minutes, totalMinutes, grossPay: report.grossPay };
+  }, [filteredSessions, report]);
+
+  // The same filters over the period before, for period-over-period comparison
+  const previousReport = useMemo(() => {
+    if (!comparing) return null;
+    const previous = monthSessions.filter(s => !s.voidedAt && matchesFilters(s, previousPeriod));
+    return buildPayrollReport(previous, rates, treatments);
+  }, [comparing, monthSessions, previousPeriod, selectedTherapistId, selectedPatientId, rates, treatments]);
+  const previousMinutes = (therapistId?: string) =>
+    (previousReport?.therapists || [])
+      .filter(t => !therapistId || t.therapistId === therapistId)
+      .reduce((sum, t) => sum + t.totalMinutes, 0);
+
+  const analysisScope = useMemo((): AnalysisScope => ({
+    therapistId: periodTherapistId,
+    ...(selectedPatientId !== 'all' ? { patientId: selectedPatientId } : {}),
+    period,
+  }), [periodTherapistId, selectedPatientId, period]);
+  const analysisRequest = useMemo(
+    () => ({ sessions: filteredSessions, periodLabel: periodLabel(period), treatments, grossPay: report.grossPay }),
+    [filteredSessions, period, treatments, report]
+  );
+  const savedAnalyses = useMemo(
+    () => dbService.getSavedAnalyses(currentUser.id, analysisScope),
+    [currentUser.id, analysisScope, analysesVersion]
+  );
+  const shownAnalysis = savedAnalyses.find(a => a.id === shownAnalysisId) || savedAnalyses[0];
+  const comparedAnalysis = savedAnalyses.find(a => a.id === comparedAnalysisId && a.id !== shownAnalysis?.id);
+  const isStale = (inputHashOfReport: string) => inputHash !== null && inputHashOfReport !== inputHash;
+
+  useEffect(() => {
+    let cancelled = false;
+    setInputHash(null);
+    hashAnalysisInput(analysisRequest).then(hash => {
+      if (!cancelled) setInputHash(hash);
     });
+    return () => { cancelled = true; };
+  }, [analysisRequest]);
 
-    const hours = Math.floor(totalMinutes / 60);
-    const minutes = totalMinutes % 60;
+  const trend = useMemo(() => showTrends ? buildPayrollTrend(filteredSessions, period) : null, [showTrends, filteredSessions, period]);
 
-    return { hours, minutes, physioCount, massageCount, totalMinutes };
+  const patientGroups = useMemo(() => {
+    const groups = new Map<string, { name: string; sessions: number; minutes: number; lastVisit: string }>();
+    filteredSessions.forEach(s => {
+      const key = s.patientId || s.patientName;
+      const group = groups.get(key) || { name: s.patientName, sessions: 0, minutes: 0, lastVisit: s.timestamp };
+      group.sessions++;
+      group.minutes += s.durationMinutes;
+      if (s.timestamp > group.lastVisit) group.lastVisit = s.timestamp;
+      groups.set(key, group);
+    });
+    return Array.from(groups.entries())
+      .map(([key, group]) => ({ key, ...group }))
+      .sort((a, b) => b.sessions - a.sessions || a.name.localeCompare(b.name));
   }, [filteredSessions]);
 
+  // No-shows and late cancellations for the same period and filters
+  const missedAppointments = useMemo(() => {
+    return dbService.getAppointments(currentUser.id, currentUser.role).filter(a => {
+      return (a.status === 'no_show' || a.status === 'late_cancel')
+        && isInPeriod(a.start, period)
+        && (selectedTherapistId === 'all' || a.therapistId === selectedTherapistId)
+        && (selectedPatientId === 'all' || a.patientId === selectedPatientId);
+    });
+  }, [currentUser, period, selectedTherapistId, selectedPatientId, sessions]);
+
+  const refreshRates = () => {
+    setRates([...dbService.getPayRates()]);
+  };
+
+  const refreshTreatments = () => {
+    setTreatments([...dbService.getTreatments(true)]);
+  };
+
   const handleGenerateReport = async () => {
     setLoadingAi(true);
-    setAiReport(null);
-    const monthName = new Date(selectedYear, selectedMonth).toLocaleString('default', { month: 'long' });
-    const report = await generatePayrollAnalysis(filteredSessions, monthName);
-    setAiReport(report);
-    setLoadingAi(false);
+    setAiError(null);
+    try {
+      const [result, hash] = await Promise.all([generatePayrollAnalysis(analysisRequest, currentUser.id), hashAnalysisInput(analysisRequest)]);
+      // A failed call isn't saved, so the last good report stays on screen under the error
+      if (result.analysis || result.parseError) {
+        dbService.saveAnalysis(currentUser.id, analysisScope, hash, result);
+        setShownAnalysisId(null);
+        setAnalysesVersion(v => v + 1);
+      } else {
+        setAiError(result.text);
+      }
+    } catch (err) {
+      setAiError(err instanceof Error ? err.message : 'The analysis could not be generated.');
+    } finally {
+      setLoadingAi(false);
+    }
+  };
+
+  const handleVoid = (session: Session) => {
+    const reason = prompt(`Void the session for ${session.patientName}? Enter a reason:`);
+    if (reason === null) return;
+
+    const result = dbService.voidSession(currentUser.id, session.id, reason);
+    if (!result.success) {
+      alert(result.message);
+      return;
+    }
+    onSessionsChange();
+  };
+
+  const handleShowHistory = (sessionId: string) => {
+    setAuditFilter(sessionId);
+    setShowAudit(true);
   };
 
   const handlePrint = () => {
     window.print();
   };
 
-  const handleExportCSV = () => {
+  const handleExportCSV = async () => {
     if (filteredSessions.length === 0) {
       alert("No data to export for this selection.");
       return;
     }
+    let checks: Record<string, SealCheck>;
+    try {
+      checks = await dbService.verifySignatures(filteredSessions);
+    } catch (err) {
+      alert(`Signatures could not be checked, so nothing was exported. ${err instanceof Error ? err.message : ''}`.trim());
+      return;
+    }
 
     const headers = [
       "Date",
@@ -73,6 +275,7 @@ export const PayrollDashboard: React.FC<PayrollDashboardProps> = ({ currentUser,
       "Treatment Type", 
       "Duration (mins)", 
       "Therapist", 
+      "Gross Pay",
       "Signature Verified", 
       "Session ID"
     ];
@@ -85,22 +288,26 @@ export const PayrollDashboard: React.FC<PayrollDashboardProps> = ({ currentUser,
         d.toLocaleDateString(),
         d.toLocaleTimeString(),
         esc(s.patientName),
-        esc(s.treatmentType),
+        esc(treatmentName(treatments, s.treatmentType)),
         s.durationMinutes,
         esc(s.therapistName),
-        s.signatureDataUrl ? "Yes" : "No",
+        report.sessionPay[s.id].grossPay.toFixed(2),
+        esc(SEAL_STATUS_LABELS[checks[s.id].status]),
         esc(s.id)
       ].join(",");
     });
 
+    const totalRow = ["", "", "", "", stats.totalMinutes, "\"Total\"", report.grossPay.toFixed(2), "", ""].join(",");
+
     const csvContent = "data:text/csv;charset=utf-8," 
-      + [headers.join(","), ...rows].join("\n");
+      + [headers.join(","), ...rows, totalRow].join("\n");
     
     const encodedUri = encodeURI(csvContent);
     const link = document.createElement("a");
     link.setAttribute("href", encodedUri);
     const therapistLabel = selectedTherapistId === 'all' ? 'All_Therapists' : selectedTherapistId;
-    link.setAttribute("download", `PhysioTrack_${therapistLabel}_${selectedMonth + 1}_${selectedYear}.csv`);
+    const periodName = month ? `${month.month + 1}_${month.year}` : `${period.start}_${period.end}`;
+    link.setAttribute("download", `PhysioTrack_${therapistLabel}_${periodName}.csv`);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -115,32 +322,52 @@ export const PayrollDashboard: React.FC<PayrollDashboardProps> = ({ currentUser,
             {isAdmin ? 'Clinic Overview' : 'My Payroll'}
           </h2>
           
-          <div className="flex items-center gap-2">
+          <div className="flex flex-wrap items-center gap-2">
             <select
-                value={selectedMonth}
-                onChange={(e) => {
-                    setSelectedMonth(Number(e.target.value));
-                    setAiReport(null);
-                }}
+                value={period.kind}
+                onChange={(e) => handleKindChange(e.target.value as PeriodKind)}
                 className="px-3 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500"
             >
-                {Array.from({ length: 12 }, (_, i) => (
-                <option key={i} value={i}>
-                    {new Date(0, i).toLocaleString('default', { month: 'long' })}
-                </option>
+                {PERIOD_KINDS.map(p => (
+                    <option key={p.kind} value={p.kind}>{p.label}</option>
                 ))}
             </select>
-            <select
-                value={selectedYear}
-                onChange={(e) => {
-                    setSelectedYear(Number(e.target.value));
-                    setAiReport(null);
-                }}
-                className="px-3 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500"
-            >
-                <option value={2024}>2024</option>
-                <option value={2025}>2025</option>
-            </select>
+            {period.kind === 'custom' ? (
+                <>
+                    <input
+                        type="date"
+                        value={period.start}
+                        max={period.end}
+                        onChange={(e) => e.target.value && setFilters({ period: { ...period, start: e.target.value } })}
+                        className="px-3 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span className="text-sm text-slate-400">to</span>
+                    <input
+                        type="date"
+                        value={period.end}
+                        min={period.start}
+                        onChange={(e) => e.target.value && setFilters({ period: { ...period, end: e.target.value } })}
+                        className="px-3 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500"
+                    />
+                </>
+            ) : (
+                <>
+                    <button onClick={() => setFilters({ period: shiftPeriod(period, -1) })} className="px-2 py-1.5 text-sm text-slate-500 hover:text-slate-700" aria-label="Previous period">‹</button>
+                    <span className="text-sm font-medium text-slate-700 min-w-[8rem] text-center">{periodLabel(period)}</span>
+                    <button onClick={() => setFilters({ period: shiftPeriod(period, 1) })} className="px-2 py-1.5 text-sm text-slate-500 hover:text-slate-700" aria-label="Next period">›</button>
+                    <input
+                        type="date"
+                        value={period.start}
+                        onChange={(e) => e.target.value && setFilters({ period: periodContaining(period.kind, new Date(`${e.target.value}T00:00`)) })}
+                        className="px-2 py-1.5 rounded-lg border border-slate-300 text-xs text-slate-500 focus:ring-2 focus:ring-blue-500"
+                        title="Jump to the period containing a date"
+                    />
+                </>
+            )}
+            <label className="flex items-center gap-1 text-xs text-slate-500">
+                <input type="checkbox" checked={comparing} onChange={(e) => setFilters({ compare: e.target.checked })} />
+                Compare with previous
+            </label>
           </div>
 
           {isAdmin && (
@@ -148,22 +375,101 @@ export const PayrollDashboard: React.FC<PayrollDashboardProps> = ({ currentUser,
                 <span className="text-xs font-semibold text-slate-500 uppercase">Filter:</span>
                 <select
                     value={selectedTherapistId}
-                    onChange={(e) => {
-                        setSelectedTherapistId(e.target.value);
-                        setAiReport(null);
-                    }}
+                    onChange={(e) => setFilters({ therapist: e.target.value })}
                     className="px-3 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 bg-slate-50 font-medium text-slate-700"
                 >
                     <option value="all">All Therapists</option>
                     {therapists.map(t => (
-                        <option key={t.id} value={t.id}>{t.name}</option>
+                        <option key={t.id} value={t.id}>{t.name}{t.deactivatedAt ? ' (inactive)' : ''}</option>
                     ))}
                 </select>
              </div>
           )}
+
+          <div className="flex items-center gap-2">
+            <select
+                value={selectedPatientId}
+                onChange={(e) => {
+                    setSelectedPatientId(e.target.value);
+                    setAiError(null);
+                }}
+                className="px-3 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500"
+            >
+                <option value="all">All Patients</option>
+                {patients.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+            </select>
+            <label className="flex items-center gap-1 text-xs text-slate-500">
+                <input type="checkbox" checked={groupByPatient} onChange={(e) => setGroupByPatient(e.target.checked)} />
+                Group by patient
+            </label>
+          </div>
         </div>
 
         <div className="flex gap-2">
+            <button
+                onClick={() => setShowTrends(v => !v)}
+                className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+            >
+                {showTrends ? 'Hide Trends' : 'Trends'}
+            </button>
+            {isAdmin && (
+                <button
+                    onClick={() => setShowAsk(v => !v)}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+                >
+                    {showAsk ? 'Hide Ask' : 'Ask'}
+                </button>
+            )}
+            {isAdmin && (
+                <button
+                    onClick={() => setShowAudit(v => !v)}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+                >
+                    {showAudit ? 'Hide Audit' : 'Audit Log'}
+                </button>
+            )}
+            {isAdmin && (
+                <button
+                    onClick={() => setShowPromptLog(v => !v)}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+                >
+                    {showPromptLog ? 'Hide Prompts' : 'Prompt Log'}
+                </button>
+            )}
+            {isAdmin && (
+                <button
+                    onClick={() => setShowVerifier(v => !v)}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+                >
+                    {showVerifier ? 'Hide Verification' : 'Verify Signatures'}
+                </button>
+            )}
+            {isAdmin && (
+                <button
+                    onClick={() => setShowImport(v => !v)}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+                >
+                    {showImport ? 'Hide Import' : 'Import'}
+                </button>
+            )}
+            {isAdmin && (
+                <button
+                    onClick={() => setShowCatalogue(v => !v)}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+                >
+                    {showCatalogue ? 'Hide Treatments' : 'Treatments'}
+                </button>
+            )}
+            {isAdmin && (
+                <button
+                    onClick={() => setShowRateCard(v => !v)}
+                    className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 border border-blue-200 rounded-lg transition-colors"
+                >
+                    {showRateCard ? 'Hide Rates' : 'Rate Card'}
+                </button>
+            )}
             <button
                 onClick={handleExportCSV}
                 className="px-4 py-2 text-sm font-medium text-green-700 bg-green-50 hover:bg-green-100 border border-green-200 rounded-lg transition-colors flex items-center gap-2"
@@ -178,31 +484,186 @@ export const PayrollDashboard: React.FC<PayrollDashboardProps> = ({ currentUser,
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" /></svg>
                 Print
             </button>
+            {month && (
+            <button
+                onClick={() => setShowInvoices(v => !v)}
+                className="px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 rounded-lg transition-colors flex items-center gap-2"
+            >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 14l6-6m-5.5.5h.01m4.99 5h.01M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16l3.5-2 3.5 2 3.5-2 3.5 2z" /></svg>
+                Invoice
+            </button>
+            )}
         </div>
       </div>
 
+      {isAdmin && showRateCard && (
+        <RateCardEditor therapists={therapists} rates={rates} onChange={refreshRates} />
+      )}
+
+      {isAdmin && showCatalogue && (
+        <TreatmentCatalogueEditor currentUser={currentUser} onChange={refreshTreatments} />
+      )}
+
+      {isAdmin && showVerifier && (
+        <SignatureVerifier sessions={filteredSessions} onShowHistory={handleShowHistory} />
+      )}
+
+      {isAdmin && showImport && (
+        <ImportWizard currentUser={currentUser} onImported={onSessionsChange} onClose={() => setShowImport(false)} />
+      )}
+
+      {isAdmin && showAudit && (
+        <AuditLogPanel sessionFilter={auditFilter} onFilterChange={setAuditFilter} />
+      )}
+
+      {isAdmin && showPromptLog && <PromptLogPanel currentUser={currentUser} />}
+
+      {editingSession && (
+        <SessionEditDialog
+          currentUser={currentUser}
+          session={editingSession}
+          onClose={() => setEditingSession(null)}
+          onSaved={() => {
+            setEditingSession(null);
+            onSessionsChange();
+          }}
+        />
+      )}
+
+      {showInvoices && month && (
+        <InvoicePanel
+          currentUser={currentUser}
+          sessions={invoiceSessions}
+          month={month.month}
+          year={month.year}
+        />
+      )}
+
+      {periodTherapistId && month && (
+        <div className="flex flex-wrap items-center justify-between gap-3 bg-white px-4 py-3 rounded-xl shadow-sm border border-slate-200">
+          <span className="text-sm font-medium text-slate-600">
+            Payroll status for {periodLabel(period)}
+          </span>
+          <PeriodStatusControls
+            currentUser={currentUser}
+            therapistId={periodTherapistId}
+            month={month.month}
+            year={month.year}
+            onChange={() => setPeriodVersion(v => v + 1)}
+          />
+        </div>
+      )}
+
+      {trend && (
+        <TrendCharts trend={trend} treatments={treatments} perTherapist={isAdmin && selectedTherapistId === 'all'} />
+      )}
+
+      {isAdmin && showAsk && <SessionQueryPanel currentUser={currentUser} sessions={sessions} treatments={treatments} />}
+
       {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
         <div className="bg-gradient-to-br from-blue-500 to-blue-600 p-5 rounded-xl text-white shadow-lg">
           <p className="text-blue-100 text-sm font-medium mb-1">Total Time</p>
           <p className="text-3xl font-bold">{stats.hours}h {stats.minutes}m</p>
+          {previousReport && (
+            <p className="text-xs text-blue-100">{formatChange(stats.totalMinutes, previousMinutes())} vs {periodLabel(previousPeriod)}</p>
+          )}
+        </div>
+        <div className="bg-gradient-to-br from-emerald-500 to-emerald-600 p-5 rounded-xl text-white shadow-lg">
+          <p className="text-emerald-100 text-sm font-medium mb-1">Gross Pay</p>
+          <p className="text-3xl font-bold">{formatMoney(stats.grossPay)}</p>
+          {report.unratedSessions > 0 && (
+            <p className="text-xs text-emerald-100">{report.unratedSessions} session(s) without a rate</p>
+          )}
+          {previousReport && (
+            <p className="text-xs text-emerald-100">{formatChange(report.grossPay, previousReport.grossPay)} vs {formatMoney(previousReport.grossPay)}</p>
+          )}
         </div>
         <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
           <p className="text-slate-500 text-sm font-medium mb-1">Total Sessions</p>
           <p className="text-3xl font-bold text-slate-800">{filteredSessions.length}</p>
+          {previousReport && (
+            <p className="text-xs text-slate-400">{formatChange(filteredSessions.length, previousReport.totalSessions)} vs {previousReport.totalSessions}</p>
+          )}
         </div>
-        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
-          <p className="text-slate-500 text-sm font-medium mb-1">Physiotherapy</p>
-          <p className="text-3xl font-bold text-teal-600">{stats.physioCount}</p>
-          <p className="text-xs text-slate-400">45 mins / session</p>
-        </div>
-        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
-          <p className="text-slate-500 text-sm font-medium mb-1">Sports Massage</p>
-          <p className="text-3xl font-bold text-indigo-600">{stats.massageCount}</p>
-          <p className="text-xs text-slate-400">Variable duration</p>
-        </div>
+        {/* One card per active treatment, plus any retired treatment still present in the period */}
+        {treatments.filter(t => t.active || report.breakdown[t.id]).map(t => (
+          <div key={t.id} className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+            <p className="text-slate-500 text-sm font-medium mb-1">{t.name}</p>
+            <p className="text-3xl font-bold" style={{ color: t.color }}>{report.breakdown[t.id] || 0}</p>
+            <p className="text-xs text-slate-400">
+              {previousReport
+                ? `${formatChange(report.breakdown[t.id] || 0, previousReport.breakdown[t.id] || 0)} vs ${previousReport.breakdown[t.id] || 0}`
+                : durationRuleLabel(t)}
+            </p>
+          </div>
+        ))}
       </div>
 
+      {/* Per-Therapist Totals */}
+      {isAdmin && selectedTherapistId === 'all' && report.therapists.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
+            <h3 className="font-semibold text-slate-700">Payroll by Therapist</h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm text-slate-600">
+              <thead className="bg-slate-50 text-slate-500 font-medium border-b border-slate-100">
+                <tr>
+                  <th className="px-6 py-3">Therapist</th>
+                  <th className="px-6 py-3">Sessions</th>
+                  <th className="px-6 py-3">Time</th>
+                  {previousReport && <th className="px-6 py-3">vs Previous</th>}
+                  {month && <th className="px-6 py-3">Status</th>}
+                  <th className="px-6 py-3 text-right">Gross Pay</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {report.therapists.map(t => (
+                  <tr key={t.therapistId}>
+                    <td className="px-6 py-3 font-medium text-slate-700">
+                      <a href={routeHash('therapist', { id: t.therapistId })} className="hover:text-blue-600">{t.therapistName}</a>
+                    </td>
+                    <td className="px-6 py-3">{t.totalSessions}</td>
+                    <td className="px-6 py-3">{Math.floor(t.totalMinutes / 60)}h {t.totalMinutes % 60}m</td>
+                    {previousReport && (
+                      <td className="px-6 py-3 text-xs text-slate-500">{formatChange(t.totalMinutes, previousMinutes(t.therapistId)) || '—'}</td>
+                    )}
+                    {month && (
+                      <td className="px-6 py-3">
+                        <PeriodStatusControls
+                          currentUser={currentUser}
+                          therapistId={t.therapistId}
+                          month={month.month}
+                          year={month.year}
+                          onChange={() => setPeriodVersion(v => v + 1)}
+                        />
+                      </td>
+                    )}
+                    <td className="px-6 py-3 text-right font-semibold text-slate-800">
+                      {formatMoney(t.grossPay)}
+                      {t.unratedSessions > 0 && (
+                        <span className="block text-xs font-normal text-amber-600">{t.unratedSessions} unrated</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-slate-50 border-t border-slate-200 font-semibold text-slate-800">
+                <tr>
+                  <td className="px-6 py-3">Clinic Total</td>
+                  <td className="px-6 py-3">{report.totalSessions}</td>
+                  <td className="px-6 py-3">{stats.hours}h {stats.minutes}m</td>
+                  {previousReport && <td className="px-6 py-3 text-xs text-slate-500">{formatChange(stats.totalMinutes, previousMinutes()) || '—'}</td>}
+                  {month && <td className="px-6 py-3"></td>}
+                  <td className="px-6 py-3 text-right">{formatMoney(report.grossPay)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Detailed List */}
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
         <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
@@ -216,6 +677,29 @@ export const PayrollDashboard: React.FC<PayrollDashboardProps> = ({ currentUser,
           <div className="p-12 text-center text-slate-400">
             No sessions recorded for these criteria.
           </div>
+        ) : groupByPatient ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm text-slate-600">
+              <thead className="bg-slate-50 text-slate-500 font-medium border-b border-slate-100">
+                <tr>
+                  <th className="px-6 py-3">Patient</th>
+                  <th className="px-6 py-3">Sessions</th>
+                  <th className="px-6 py-3">Time</th>
+                  <th className="px-6 py-3 text-right">Last Visit</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {patientGroups.map(group => (
+                  <tr key={group.key} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-3 font-medium text-slate-800">{group.name}</td>
+                    <td className="px-6 py-3">{group.sessions}</td>
+                    <td className="px-6 py-3">{Math.floor(group.minutes / 60)}h {group.minutes % 60}m</td>
+                    <td className="px-6 py-3 text-right">{new Date(group.lastVisit).toLocaleDateString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
         ) : (
           <div className="overflow-x-auto">
             <table className="w-full text-left text-sm text-slate-600">
@@ -226,6 +710,7 @@ export const PayrollDashboard: React.FC<PayrollDashboardProps> = ({ currentUser,
                   <th className="px-6 py-3">Patient</th>
                   <th className="px-6 py-3">Type</th>
                   <th className="px-6 py-3">Duration</th>
+                  <th className="px-6 py-3">Pay</th>
                   <th className="px-6 py-3 text-right">Verification</th>
                 </tr>
               </thead>
@@ -245,23 +730,46 @@ export const PayrollDashboard: React.FC<PayrollDashboardProps> = ({ currentUser,
                     )}
                     <td className="px-6 py-4 font-medium text-slate-800">{session.patientName}</td>
                     <td className="px-6 py-4">
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                        session.treatmentType === TreatmentType.PHYSIOTHERAPY 
-                          ? 'bg-teal-100 text-teal-800' 
-                          : 'bg-indigo-100 text-indigo-800'
-                      }`}>
-                        {session.treatmentType}
+                      <span
+                        className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
+                        style={{ backgroundColor: `${treatmentColor(treatments, session.treatmentType)}1a`, color: treatmentColor(treatments, session.treatmentType) }}
+                      >
+                        {treatmentName(treatments, session.treatmentType)}
                       </span>
                     </td>
                     <td className="px-6 py-4">{session.durationMinutes} mins</td>
+                    <td className="px-6 py-4">
+                      {report.sessionPay[session.id].rateId
+                        ? formatMoney(report.sessionPay[session.id].grossPay)
+                        : <span className="text-xs text-amber-600">No rate</span>}
+                    </td>
                     <td className="px-6 py-4 text-right">
-                      {session.signatureDataUrl && (
-                        <img 
-                          src={session.signatureDataUrl} 
-                          alt="Sig" 
-                          className="h-8 inline-block opacity-80 border border-slate-200 rounded bg-white" 
+                      {session.signed && (
+                        <SignatureImage
+                          sessionId={session.id}
+                          className="h-8 inline-block opacity-80 border border-slate-200 rounded bg-white"
                         />
                       )}
+                      {session.importedAt && (
+                        <span
+                          className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-500"
+                          title={`Imported ${new Date(session.importedAt).toLocaleDateString()}, no signature on file`}
+                        >
+                          Imported
+                        </span>
+                      )}
+                      <div className="flex gap-2 justify-end mt-1 text-xs">
+                        <a href={routeHash('session', { id: session.id })} className="text-slate-500 hover:text-slate-700">Details</a>
+                        {dbService.canEditSession(currentUser.id, session) && (
+                          <button onClick={() => setEditingSession(session)} className="text-blue-600 hover:text-blue-800">Edit</button>
+                        )}
+                        {isAdmin && (
+                          <>
+                            <button onClick={() => handleShowHistory(session.id)} className="text-slate-500 hover:text-slate-700">History</button>
+                            <button onClick={() => handleVoid(session)} className="text-red-500 hover:text-red-700">Void</button>
+                          </>
+                        )}
+                      </div>
                     </td>
                   </tr>
                 ))}
@@ -271,6 +779,53 @@ export const PayrollDashboard: React.FC<PayrollDashboardProps> = ({ currentUser,
         )}
       </div>
 
+      {/* Missed Appointments */}
+      {missedAppointments.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-amber-100 overflow-hidden">
+          <div className="px-6 py-3 border-b border-amber-100 bg-amber-50 text-sm font-semibold text-amber-800">
+            Missed Appointments — {missedAppointments.filter(a => a.status === 'no_show').length} no-show(s),{' '}
+            {missedAppointments.filter(a => a.status === 'late_cancel').length} late cancellation(s)
+          </div>
+          <ul className="divide-y divide-slate-100">
+            {missedAppointments.map(a => (
+              <li key={a.id} className="px-6 py-3 text-sm flex justify-between items-center">
+                <span className="text-slate-600">
+                  {new Date(a.start).toLocaleDateString()} • {a.patientName} • {treatmentName(treatments, a.treatmentType)}
+                  {isAdmin && ` • ${a.therapistName}`}
+                </span>
+                <span className="text-xs font-medium text-amber-700">
+                  {a.status === 'no_show' ? 'No-show' : 'Late cancellation'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Voided Sessions */}
+      {voidedSessions.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-red-100 overflow-hidden">
+          <div className="px-6 py-3 border-b border-red-100 bg-red-50 text-sm font-semibold text-red-700">
+            Voided ({voidedSessions.length}) — excluded from totals
+          </div>
+          <ul className="divide-y divide-slate-100">
+            {voidedSessions.map(session => (
+              <li key={session.id} className="px-6 py-3 text-sm flex justify-between items-center">
+                <div>
+                  <p className="text-slate-500 line-through">
+                    {new Date(session.timestamp).toLocaleDateString()} • {session.patientName} • {treatmentName(treatments, session.treatmentType)} • {session.durationMinutes} mins
+                  </p>
+                  <p className="text-xs text-red-600">Reason: {session.voidReason}</p>
+                </div>
+                {isAdmin && (
+                  <button onClick={() => handleShowHistory(session.id)} className="text-xs text-slate-500 hover:text-slate-700">History</button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* AI Analysis Section */}
       <div className="bg-slate-900 rounded-xl p-6 text-slate-200 shadow-xl overflow-hidden relative">
          <div className="absolute top-0 right-0 p-3 opacity-10">
@@ -286,14 +841,59 @@ export const PayrollDashboard: React.FC<PayrollDashboardProps> = ({ currentUser,
                     disabled={loadingAi || filteredSessions.length === 0}
                     className="px-4 py-2 bg-indigo-500 hover:bg-indigo-400 disabled:bg-slate-700 disabled:cursor-not-allowed text-white text-sm font-semibold rounded-lg transition-all flex items-center gap-2"
                 >
-                    {loadingAi ? 'Analyzing...' : 'Generate Analysis'}
+                    {loadingAi ? 'Analyzing...' : savedAnalyses.length ? 'Regenerate' : 'Generate Analysis'}
                 </button>
             </div>
-            
-            {aiReport ? (
-                <div className="bg-slate-800/50 p-4 rounded-lg text-sm leading-relaxed whitespace-pre-wrap font-mono border border-slate-700">
-                    {aiReport}
-                </div>
+
+            {aiError && <p className="mb-4 text-sm text-red-300">{aiError}</p>}
+            {shownAnalysis ? (
+                <>
+                    <div className="flex flex-wrap items-center gap-2 mb-4 text-xs text-slate-400">
+                        <span>Generated {new Date(shownAnalysis.generatedAt).toLocaleString()} by {shownAnalysis.generatedBy}</span>
+                        {isStale(shownAnalysis.inputHash) && (
+                            <span className="px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-300 font-semibold">
+                                Stale: sessions have changed since
+                            </span>
+                        )}
+                        {savedAnalyses.length > 1 && (
+                            <div className="ml-auto flex items-center gap-2">
+                                <select
+                                    value={shownAnalysis.id}
+                                    onChange={(e) => setShownAnalysisId(e.target.value)}
+                                    className="px-2 py-1 rounded bg-slate-800 border border-slate-700 text-slate-200"
+                                >
+                                    {savedAnalyses.map((a, i) => (
+                                        <option key={a.id} value={a.id}>{analysisVersionLabel(a, i, isStale(a.inputHash))}</option>
+                                    ))}
+                                </select>
+                                <select
+                                    value={comparedAnalysis?.id || ''}
+                                    onChange={(e) => setComparedAnalysisId(e.target.value)}
+                                    className="px-2 py-1 rounded bg-slate-800 border border-slate-700 text-slate-200"
+                                >
+                                    <option value="">Compare with…</option>
+                                    {savedAnalyses.map((a, i) => a.id !== shownAnalysis.id && (
+                                        <option key={a.id} value={a.id}>{analysisVersionLabel(a, i, isStale(a.inputHash))}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                    </div>
+                    {comparedAnalysis ? (
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            {[shownAnalysis, comparedAnalysis].map(a => (
+                                <div key={a.id}>
+                                    <p className="mb-2 text-xs font-semibold text-slate-400 uppercase tracking-wider">
+                                        {new Date(a.generatedAt).toLocaleString()}
+                                    </p>
+                                    <AnalysisReportCard result={a.result} />
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <AnalysisReportCard result={shownAnalysis.result} />
+                    )}
+                </>
             ) : (
                 <p className="text-slate-400 text-sm">
                     {filteredSessions.length > 0 
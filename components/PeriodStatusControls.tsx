@@ -0,0 +1,78 @@
+import React from 'react';
+import { PeriodStatus, User } from '../types';
+import { dbService } from '../services/dbService';
+
+interface PeriodStatusControlsProps {
+  currentUser: User;
+  therapistId: string;
+  month: number;
+  year: number;
+  onChange: () => void;
+}
+
+const STATUS_STYLES: Record<PeriodStatus, string> = {
+  draft: 'bg-slate-100 text-slate-600',
+  submitted: 'bg-amber-100 text-amber-800',
+  approved: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+};
+
+const ACTION_LABELS: Record<PeriodStatus, string> = {
+  draft: 'Reopen',
+  submitted: 'Submit for Approval',
+  approved: 'Approve',
+  paid: 'Mark Paid',
+};
+
+export const PeriodStatusBadge: React.FC<{ status: PeriodStatus }> = ({ status }) => (
+  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[status]}`}>
+    {status}
+  </span>
+);
+
+export const PeriodStatusControls: React.FC<PeriodStatusControlsProps> = ({ currentUser, therapistId, month, year, onChange }) => {
+  const period = dbService.getPayPeriod(therapistId, month, year);
+  const status = period?.status || 'draft';
+  const allowed = dbService.getAllowedTransitions(currentUser.id, therapistId, month, year);
+  const lastChange = period?.history[period.history.length - 1];
+
+  const handleTransition = (to: PeriodStatus) => {
+    const result = dbService.transitionPeriod(currentUser.id, therapistId, month, year, to);
+    if (!result.success) {
+      alert(result.message);
+      return;
+    }
+    onChange();
+  };
+
+  // Going back to draft reads differently for the therapist and the admin
+  const labelFor = (to: PeriodStatus) => {
+    if (to !== 'draft') return ACTION_LABELS[to];
+    if (status === 'submitted') return currentUser.id === therapistId ? 'Withdraw' : 'Return';
+    return ACTION_LABELS.draft;
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <PeriodStatusBadge status={status} />
+      {lastChange && (
+        <span className="text-xs text-slate-400" title={new Date(lastChange.at).toLocaleString()}>
+          by {lastChange.byName}, {new Date(lastChange.at).toLocaleDateString()}
+        </span>
+      )}
+      {allowed.map(to => (
+        <button
+          key={to}
+          onClick={() => handleTransition(to)}
+          className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+            to === 'draft'
+              ? 'text-slate-600 bg-slate-100 hover:bg-slate-200'
+              : 'text-white bg-blue-600 hover:bg-blue-700'
+          }`}
+        >
+          {labelFor(to)}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { User } from '../types';
+import { dbService } from '../services/dbService';
+import { providerLabel } from '../services/analysisProvider';
+import { PRIVACY_MODES } from '../services/analysisPrivacy';
+
+interface PromptLogPanelProps {
+  currentUser: User;
+}
+
+// Every analysis prompt that was sent off this device or, with sync, any other, word for word, for data-protection audits
+export const PromptLogPanel: React.FC<PromptLogPanelProps> = ({ currentUser }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // Read on every render so prompts sent since show up when the parent re-renders
+  const entries = dbService.getPromptLog(currentUser.id);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
+        <h3 className="font-semibold text-slate-700">Prompt Log</h3>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="p-6 text-center text-sm text-slate-400">No prompts have been sent yet.</div>
+      ) : (
+        <ul className="divide-y divide-slate-100 max-h-96 overflow-y-auto">
+          {entries.map(entry => (
+            <li key={entry.id} className="px-6 py-3 text-sm">
+              <div className="flex justify-between items-center">
+                <div className="flex items-center gap-2">
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-700">
+                    {PRIVACY_MODES.find(m => m.id === entry.privacy)?.label || entry.privacy}
+                  </span>
+                  <span className="font-medium text-slate-700">{entry.sentBy}</span>
+                  <span className="text-slate-500">• {providerLabel(entry.provider)} ({entry.destination})</span>
+                </div>
+                <span className="text-xs text-slate-400">{new Date(entry.sentAt).toLocaleString()}</span>
+              </div>
+              <button
+                onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                {expandedId === entry.id ? 'Hide prompt' : 'Show prompt'}
+              </button>
+              {expandedId === entry.id && (
+                <pre className="mt-2 p-3 bg-slate-50 rounded-lg text-xs text-slate-600 whitespace-pre-wrap border border-slate-200">{entry.prompt}</pre>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
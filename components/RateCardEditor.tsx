@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { PayRate, RateUnit, TreatmentType, User } from '../types';
+import { dbService } from '../services/dbService';
+import { formatMoney } from '../services/payrollService';
+import { findTreatment, treatmentName } from '../services/treatmentCatalogue';
+
+interface RateCardEditorProps {
+  therapists: User[];
+  rates: PayRate[];
+  onChange: () => void;
+}
+
+export const RateCardEditor: React.FC<RateCardEditorProps> = ({ therapists, rates, onChange }) => {
+  const treatments = useMemo(() => dbService.getTreatments(true), []);
+  const [therapistId, setTherapistId] = useState<string>('');
+  const [treatmentType, setTreatmentType] = useState<TreatmentType>(() => treatments[0]?.id || '');
+  const [duration, setDuration] = useState<string>('');
+  const [amount, setAmount] = useState<string>('');
+  const [unit, setUnit] = useState<RateUnit>('session');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [effectiveTo, setEffectiveTo] = useState('');
+
+  const therapistName = (id: string | null) =>
+    id ? (therapists.find(t => t.id === id)?.name || id) : 'Clinic default';
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(amount);
+    if (!amount || isNaN(value) || value < 0) {
+      alert("Enter a valid rate amount.");
+      return;
+    }
+    if (effectiveFrom && effectiveTo && effectiveTo < effectiveFrom) {
+      alert("The end date must be on or after the start date.");
+      return;
+    }
+
+    const rate: PayRate = {
+      id: Math.random().toString(36).substring(2, 10),
+      therapistId: therapistId || null,
+      treatmentType,
+      durationMinutes: duration ? Number(duration) : null,
+      amount: value,
+      unit,
+      effectiveFrom: effectiveFrom || undefined,
+      effectiveTo: effectiveTo || undefined,
+    };
+
+    dbService.savePayRate(rate);
+    setAmount('');
+    setEffectiveFrom('');
+    setEffectiveTo('');
+    onChange();
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm("Remove this rate? Totals for past sessions will be recalculated.")) return;
+    dbService.deletePayRate(id);
+    onChange();
+  };
+
+  const inputClass = "px-3 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
+        <h3 className="font-semibold text-slate-700">Rate Card</h3>
+        <p className="text-xs text-slate-500">
+          A therapist's own rate overrides the clinic default; an exact duration overrides "any duration".
+        </p>
+      </div>
+
+      <form onSubmit={handleAdd} className="p-4 flex flex-wrap items-end gap-3 border-b border-slate-100">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Therapist</label>
+          <select value={therapistId} onChange={(e) => setTherapistId(e.target.value)} className={inputClass}>
+            <option value="">Clinic default</option>
+            {therapists.map(t => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Treatment</label>
+          <select
+            value={treatmentType}
+            onChange={(e) => {
+              setTreatmentType(e.target.value);
+              setDuration('');
+            }}
+            className={inputClass}
+          >
+            {treatments.map(t => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Duration</label>
+          <select value={duration} onChange={(e) => setDuration(e.target.value)} className={inputClass}>
+            <option value="">Any</option>
+            {(findTreatment(treatments, treatmentType)?.allowedDurations || []).map(d => (
+              <option key={d} value={d}>{d} mins</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Amount</label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className={`${inputClass} w-24`}
+            placeholder="0.00"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Per</label>
+          <select value={unit} onChange={(e) => setUnit(e.target.value as RateUnit)} className={inputClass}>
+            <option value="session">Session</option>
+            <option value="hour">Hour</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">From</label>
+          <input type="date" value={effectiveFrom} onChange={(e) => setEffectiveFrom(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Until</label>
+          <input type="date" value={effectiveTo} onChange={(e) => setEffectiveTo(e.target.value)} className={inputClass} />
+        </div>
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+        >
+          Add Rate
+        </button>
+      </form>
+
+      {rates.length === 0 ? (
+        <div className="p-6 text-center text-sm text-slate-400">
+          No rates configured. Gross pay will show as {formatMoney(0)} until rates are added.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-slate-600">
+            <thead className="bg-slate-50 text-slate-500 font-medium border-b border-slate-100">
+              <tr>
+                <th className="px-6 py-3">Therapist</th>
+                <th className="px-6 py-3">Treatment</th>
+                <th className="px-6 py-3">Duration</th>
+                <th className="px-6 py-3">Rate</th>
+                <th className="px-6 py-3">Effective</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rates.map(rate => (
+                <tr key={rate.id} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-6 py-3 font-medium text-slate-700">{therapistName(rate.therapistId)}</td>
+                  <td className="px-6 py-3">{treatmentName(treatments, rate.treatmentType)}</td>
+                  <td className="px-6 py-3">{rate.durationMinutes ? `${rate.durationMinutes} mins` : 'Any'}</td>
+                  <td className="px-6 py-3">{formatMoney(rate.amount)} / {rate.unit}</td>
+                  <td className="px-6 py-3 text-xs text-slate-500">
+                    {rate.effectiveFrom || 'Always'} → {rate.effectiveTo || 'ongoing'}
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    <button onClick={() => handleDelete(rate.id)} className="text-xs text-red-500 hover:text-red-700">
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
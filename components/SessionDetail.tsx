@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { ClinicalNoteDraft, User } from '../types';
+import { dbService } from '../services/dbService';
+import { treatmentName } from '../services/treatmentCatalogue';
+import { EMPTY_NOTE, SOAP_SECTIONS, bodyMarkLabel, isEmptyNote, painColor } from '../services/bodyChart';
+import { SignatureImage } from './SignatureImage';
+import { ClinicalNoteEditor } from './ClinicalNoteEditor';
+import { BodyChart } from './BodyChart';
+
+interface SessionDetailProps {
+  currentUser: User;
+  sessionId: string;
+  onBack: () => void;
+}
+
+export const SessionDetail: React.FC<SessionDetailProps> = ({ currentUser, sessionId, onBack }) => {
+  const [draft, setDraft] = useState<ClinicalNoteDraft | null>(null);
+  const [error, setError] = useState('');
+
+  const session = dbService.getSession(currentUser.id, sessionId);
+  const canEditNote = session?.therapistId === currentUser.id;
+
+  if (!session) {
+    return (
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 text-center space-y-3">
+        <p className="text-slate-500">This session doesn't exist, or you don't have access to it.</p>
+        <button onClick={onBack} className="text-sm text-blue-600 hover:text-blue-800">Back</button>
+      </div>
+    );
+  }
+
+  const note = session.clinicalNote;
+  const author = note && dbService.getAllUsers().find(u => u.id === note.updatedBy);
+
+  const startEditing = () => {
+    if (note) {
+      const { updatedAt, updatedBy, ...current } = note;
+      setDraft(current);
+    } else {
+      setDraft(EMPTY_NOTE);
+    }
+    setError('');
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const result = dbService.saveClinicalNote(currentUser.id, session.id, draft);
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+    setDraft(null); // the re-render reads the saved note back
+  };
+
+  return (
+    <div className="space-y-6">
+      <button onClick={onBack} className="text-sm text-slate-500 hover:text-slate-700">← Back</button>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-start">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">{session.patientName}</h3>
+            <p className="text-sm text-slate-500">
+              {new Date(session.timestamp).toLocaleString([], { dateStyle: 'full', timeStyle: 'short' })} • {session.therapistName}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {session.voidedAt && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">Voided</span>}
+            {session.importedAt && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-500">Imported</span>}
+          </div>
+        </div>
+        <div className="p-6 grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-xs text-slate-400 uppercase">Treatment</p>
+            <p className="font-medium text-slate-700">{treatmentName(dbService.getTreatments(true), session.treatmentType)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400 uppercase">Duration</p>
+            <p className="font-medium text-slate-700">{session.durationMinutes} mins</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400 uppercase">Logged</p>
+            <p className="font-medium text-slate-700">{session.importedAt ? 'Imported from timesheet' : session.appointmentId ? 'From appointment' : 'At the session'}</p>
+          </div>
+          <div className="sm:col-span-3">
+            <p className="text-xs text-slate-400 uppercase mb-1">Signature</p>
+            {session.signed
+              ? <SignatureImage sessionId={session.id} className="w-full max-w-md h-auto border border-slate-200 rounded-lg bg-white" />
+              : <p className="text-slate-400">Not signed</p>}
+          </div>
+          {session.voidReason && (
+            <p className="sm:col-span-3 text-xs text-red-600">Void reason: {session.voidReason}</p>
+          )}
+          {session.notes && (
+            <div className="sm:col-span-3">
+              <p className="text-xs text-slate-400 uppercase">Timesheet Notes</p>
+              <p className="text-slate-700 whitespace-pre-wrap">{session.notes}</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+          <div>
+            <h3 className="font-semibold text-slate-700">Clinical Notes</h3>
+            <p className="text-xs text-slate-500">
+              {note
+                ? `Last updated ${new Date(note.updatedAt).toLocaleString()} by ${author?.name || 'Unknown'}`
+                : 'Visible only to the treating therapist and administrators.'}
+            </p>
+          </div>
+          {canEditNote && !draft && (
+            <button onClick={startEditing} className="text-xs font-medium text-blue-600 hover:text-blue-800">
+              {note ? 'Edit Notes' : '+ Add Notes'}
+            </button>
+          )}
+        </div>
+
+        {draft ? (
+          <div className="p-6 space-y-4">
+            <ClinicalNoteEditor note={draft} onChange={setDraft} />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setDraft(null)} className="px-3 py-2 text-sm text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg">
+                Cancel
+              </button>
+              <button onClick={handleSave} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg">
+                Save Notes
+              </button>
+            </div>
+          </div>
+        ) : !note || isEmptyNote(note) ? (
+          <div className="p-6 text-center text-sm text-slate-400">No clinical notes for this session.</div>
+        ) : (
+          <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <dl className="space-y-3 text-sm">
+              {SOAP_SECTIONS.map(({ key, label }) => (
+                <div key={key}>
+                  <dt className="text-xs font-semibold text-slate-500 uppercase tracking-wider">{label}</dt>
+                  <dd className="text-slate-700 whitespace-pre-wrap">{note[key] || <span className="text-slate-300">—</span>}</dd>
+                </div>
+              ))}
+            </dl>
+            <div>
+              <BodyChart marks={note.bodyMarks} />
+              <ul className="mt-3 space-y-1 text-sm">
+                {note.bodyMarks.map(mark => (
+                  <li key={`${mark.view}:${mark.regionId}`} className="flex justify-between">
+                    <span className="text-slate-700">{bodyMarkLabel(mark)}</span>
+                    <span className="font-semibold" style={{ color: painColor(mark.pain) }}>Pain {mark.pain}/10</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
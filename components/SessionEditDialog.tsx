@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Patient, Session, TreatmentType, User } from '../types';
+import { dbService } from '../services/dbService';
+import { PatientPicker } from './PatientPicker';
+import { TreatmentFields } from './TreatmentFields';
+
+interface SessionEditDialogProps {
+  currentUser: User;
+  session: Session;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export const SessionEditDialog: React.FC<SessionEditDialogProps> = ({ currentUser, session, onClose, onSaved }) => {
+  const [patient, setPatient] = useState<Patient | null>(
+    () => (session.patientId && dbService.getPatient(session.patientId)) || null
+  );
+  const [treatmentType, setTreatmentType] = useState<TreatmentType>(session.treatmentType);
+  const [duration, setDuration] = useState<number>(session.durationMinutes);
+  const [error, setError] = useState('');
+
+  const handleTreatmentChange = (type: TreatmentType, minutes: number) => {
+    setTreatmentType(type);
+    setDuration(minutes);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!patient) {
+      setError("Select or add the patient.");
+      return;
+    }
+
+    const result = dbService.updateSession(currentUser.id, session.id, {
+      patientId: patient.id,
+      patientName: patient.name,
+      treatmentType,
+      durationMinutes: duration,
+    });
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+    onSaved();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-[60]" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white p-6 rounded-2xl shadow-xl w-full max-w-md border border-slate-200 space-y-4"
+      >
+        <div>
+          <h2 className="text-xl font-bold text-slate-800">Edit Session</h2>
+          <p className="text-xs text-slate-500">
+            {new Date(session.timestamp).toLocaleString()} • changes are recorded in the audit log
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Patient</label>
+          <PatientPicker currentUser={currentUser} selected={patient} onSelect={setPatient} />
+        </div>
+
+        <TreatmentFields treatmentType={treatmentType} duration={duration} onChange={handleTreatmentChange} />
+
+        {error && (
+          <div className="p-3 rounded-lg bg-red-50 text-red-600 text-sm font-medium border border-red-100">{error}</div>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg">
+            Cancel
+          </button>
+          <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg">
+            Save Changes
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -1,28 +1,42 @@
-import React, { useState } from 'react';
-import { TreatmentType, Session, User } from '../types';
+import React, { useEffect, useState } from 'react';
+import { TreatmentType, Session, User, Patient, Appointment, ClinicalNoteDraft } from '../types';
 import { SignaturePad } from './SignaturePad';
+import { PatientPicker } from './PatientPicker';
+import { TreatmentFields } from './TreatmentFields';
+import { ClinicalNoteEditor } from './ClinicalNoteEditor';
 import { dbService } from '../services/dbService';
+import { EMPTY_NOTE, isEmptyNote } from '../services/bodyChart';
 
 interface SessionFormProps {
   currentUser: User;
   onSuccess: () => void;
+  appointment?: Appointment | null; // prefills the form when completing a booking
+  onClearAppointment?: () => void;
 }
 
-export const SessionForm: React.FC<SessionFormProps> = ({ currentUser, onSuccess }) => {
-  const [patientName, setPatientName] = useState('');
-  const [treatmentType, setTreatmentType] = useState<TreatmentType>(TreatmentType.SPORTS_MASSAGE);
-  const [duration, setDuration] = useState<number>(60);
+// The first active treatment in the catalogue is the form's starting point
+const defaultTreatment = () => dbService.getTreatments()[0];
+
+export const SessionForm: React.FC<SessionFormProps> = ({ currentUser, onSuccess, appointment, onClearAppointment }) => {
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [treatmentType, setTreatmentType] = useState<TreatmentType>(() => defaultTreatment()?.id || '');
+  const [duration, setDuration] = useState<number>(() => defaultTreatment()?.defaultDuration || 60);
   const [signature, setSignature] = useState<string | null>(null);
+  const [showNotes, setShowNotes] = useState(false);
+  const [note, setNote] = useState<ClinicalNoteDraft>(EMPTY_NOTE);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  // Logic: Physio is strictly 45 mins. Massage is 40/45/60.
-  const handleTypeChange = (type: TreatmentType) => {
+  useEffect(() => {
+    if (!appointment) return;
+    setPatient(dbService.getPatient(appointment.patientId) || null);
+    setTreatmentType(appointment.treatmentType);
+    setDuration(appointment.durationMinutes);
+  }, [appointment]);
+
+  // Allowed durations per treatment come from the catalogue
+  const handleTreatmentChange = (type: TreatmentType, minutes: number) => {
     setTreatmentType(type);
-    if (type === TreatmentType.PHYSIOTHERAPY) {
-      setDuration(45);
-    } else {
-      setDuration(60); // Default for massage
-    }
+    setDuration(minutes);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -31,8 +45,8 @@ export const SessionForm: React.FC<SessionFormProps> = ({ currentUser, onSuccess
       alert("Patient signature is required to verify the session.");
       return;
     }
-    if (!patientName.trim()) {
-        alert("Patient name is required.");
+    if (!patient) {
+        alert("Select or add the patient.");
         return;
     }
 
@@ -42,22 +56,37 @@ export const SessionForm: React.FC<SessionFormProps> = ({ currentUser, onSuccess
       id: Math.random().toString(36).substring(2, 15),
       therapistId: currentUser.id,
       therapistName: currentUser.name,
-      patientName,
+      patientId: patient.id,
+      patientName: patient.name,
       treatmentType,
       durationMinutes: duration,
-      timestamp: new Date().toISOString(),
+      // A booked session is logged at its appointment time
+      timestamp: appointment ? appointment.start : new Date().toISOString(),
       signatureDataUrl: signature,
+      appointmentId: appointment?.id,
+      clinicalNote: isEmptyNote(note) ? undefined : { ...note, updatedAt: new Date().toISOString(), updatedBy: currentUser.id },
     };
 
     // Save to centralized DB
-    setTimeout(() => {
-        dbService.addSession(newSession);
+    setTimeout(async () => {
+        const result = await dbService.addSession(newSession);
+        if (!result.success) {
+            alert(result.message);
+            setIsSubmitting(false);
+            return;
+        }
+        if (appointment) {
+            dbService.setAppointmentStatus(currentUser.id, appointment.id, 'completed', newSession.id);
+            onClearAppointment?.();
+        }
         
         // Reset form
-        setPatientName('');
+        setPatient(null);
         setSignature(null);
-        setTreatmentType(TreatmentType.SPORTS_MASSAGE);
-        setDuration(60);
+        setNote(EMPTY_NOTE);
+        setShowNotes(false);
+        setTreatmentType(defaultTreatment()?.id || '');
+        setDuration(defaultTreatment()?.defaultDuration || 60);
         setIsSubmitting(false);
         onSuccess();
     }, 600);
@@ -73,72 +102,44 @@ export const SessionForm: React.FC<SessionFormProps> = ({ currentUser, onSuccess
         </div>
       </div>
       
+      {appointment && (
+        <div className="mb-4 p-3 rounded-lg bg-blue-50 border border-blue-200 text-sm text-blue-800 flex justify-between items-center">
+          <span>
+            Completing appointment on {new Date(appointment.start).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+          </span>
+          {onClearAppointment && (
+            <button type="button" onClick={onClearAppointment} className="text-xs text-blue-600 hover:text-blue-800">
+              Log without appointment
+            </button>
+          )}
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6">
         
-        {/* Patient Name */}
+        {/* Patient */}
         <div>
-          <label className="block text-sm font-medium text-slate-700 mb-1">Patient Name</label>
-          <input
-            type="text"
-            required
-            value={patientName}
-            onChange={(e) => setPatientName(e.target.value)}
-            className="w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
-            placeholder="e.g. John Doe"
-          />
+          <label className="block text-sm font-medium text-slate-700 mb-1">Patient</label>
+          <PatientPicker currentUser={currentUser} selected={patient} onSelect={setPatient} />
         </div>
 
         {/* Treatment Type & Duration */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-slate-700 mb-1">Treatment Type</label>
-            <div className="flex rounded-lg border border-slate-200 p-1 bg-slate-50">
-              <button
-                type="button"
-                onClick={() => handleTypeChange(TreatmentType.SPORTS_MASSAGE)}
-                className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${
-                  treatmentType === TreatmentType.SPORTS_MASSAGE
-                    ? 'bg-white text-blue-600 shadow-sm'
-                    : 'text-slate-500 hover:text-slate-700'
-                }`}
-              >
-                Sports Massage
-              </button>
-              <button
-                type="button"
-                onClick={() => handleTypeChange(TreatmentType.PHYSIOTHERAPY)}
-                className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${
-                  treatmentType === TreatmentType.PHYSIOTHERAPY
-                    ? 'bg-white text-teal-600 shadow-sm'
-                    : 'text-slate-500 hover:text-slate-700'
-                }`}
-              >
-                Physiotherapy
-              </button>
-            </div>
-          </div>
+        <TreatmentFields treatmentType={treatmentType} duration={duration} onChange={handleTreatmentChange} />
 
-          <div>
-            <label className="block text-sm font-medium text-slate-700 mb-1">Duration</label>
-            <select
-              value={duration}
-              onChange={(e) => setDuration(Number(e.target.value))}
-              disabled={treatmentType === TreatmentType.PHYSIOTHERAPY}
-              className={`w-full px-4 py-2 rounded-lg border border-slate-300 outline-none transition-all ${
-                  treatmentType === TreatmentType.PHYSIOTHERAPY ? 'bg-slate-100 text-slate-500 cursor-not-allowed' : 'focus:ring-2 focus:ring-blue-500'
-              }`}
-            >
-              {treatmentType === TreatmentType.PHYSIOTHERAPY ? (
-                <option value={45}>45 Minutes (Strict)</option>
-              ) : (
-                <>
-                  <option value={40}>40 Minutes</option>
-                  <option value={45}>45 Minutes</option>
-                  <option value={60}>60 Minutes</option>
-                </>
-              )}
-            </select>
-          </div>
+        {/* Clinical Notes */}
+        <div>
+          <button
+            type="button"
+            onClick={() => setShowNotes(v => !v)}
+            className="text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            {showNotes ? '− Hide clinical notes' : '+ Add clinical notes (SOAP & body chart)'}
+          </button>
+          {showNotes && (
+            <div className="mt-3 p-4 rounded-lg border border-slate-200 bg-slate-50">
+              <ClinicalNoteEditor note={note} onChange={setNote} />
+            </div>
+          )}
         </div>
 
         {/* Signature */}
@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { Session, SessionQueryAnswer, Treatment, User } from '../types';
+import { askSessionQuestion } from '../services/analysisService';
+import { providerLabel } from '../services/analysisProvider';
+import { GROUP_BY_LABELS, METRIC_LABELS, describeQuerySpec, runSessionQuery } from '../services/sessionQuery';
+
+interface SessionQueryPanelProps {
+  currentUser: User;
+  sessions: Session[]; // everything the user can see, not just the period on screen
+  treatments: Treatment[];
+}
+
+// Questions are answered by running the query the model chose on the sessions here, so the query is
+// always shown next to the result
+export const SessionQueryPanel: React.FC<SessionQueryPanelProps> = ({ currentUser, sessions, treatments }) => {
+  const [question, setQuestion] = useState('');
+  const [answer, setAnswer] = useState<SessionQueryAnswer | null>(null);
+  const [asking, setAsking] = useState(false);
+  const [showJson, setShowJson] = useState(false);
+
+  // Re-run whenever the sessions change, so the table never goes out of date
+  const rows = useMemo(
+    () => answer?.spec ? runSessionQuery(answer.spec, sessions, treatments) : [],
+    [answer, sessions, treatments]
+  );
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim()) return;
+    setAsking(true);
+    setAnswer(await askSessionQuestion(question.trim(), sessions, treatments, currentUser.id));
+    setAsking(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
+        <h3 className="font-semibold text-slate-700">Ask</h3>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <form onSubmit={handleAsk} className="flex gap-2">
+          <input
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            className="flex-1 px-4 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            placeholder='e.g. "Which therapist did the most 40-minute massages in Q1?"'
+          />
+          <button
+            type="submit"
+            disabled={asking || !question.trim()}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white text-sm font-semibold rounded-lg transition-colors"
+          >
+            {asking ? 'Asking...' : 'Ask'}
+          </button>
+        </form>
+
+        {answer?.error && <p className="text-sm text-red-600">{answer.error}</p>}
+
+        {answer?.spec && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="md:col-span-2">
+              {rows.length === 0 ? (
+                <p className="text-sm text-slate-400">No sessions match this query.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-slate-500 uppercase tracking-wider border-b border-slate-100">
+                      <th className="py-2">{GROUP_BY_LABELS[answer.spec.groupBy]}</th>
+                      <th className="py-2 text-right">{METRIC_LABELS[answer.spec.metric]}</th>
+                      {answer.spec.metric !== 'sessions' && <th className="py-2 text-right">Sessions</th>}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {rows.map(row => (
+                      <tr key={row.label}>
+                        <td className="py-2 text-slate-700">{row.label}</td>
+                        <td className="py-2 text-right font-mono font-semibold text-slate-800">{row.value}</td>
+                        {answer.spec!.metric !== 'sessions' && <td className="py-2 text-right font-mono text-slate-500">{row.sessions}</td>}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="text-xs text-slate-500 space-y-1">
+              <p className="font-semibold text-slate-500 uppercase tracking-wider">Query Used</p>
+              {describeQuerySpec(answer.spec).map(line => <p key={line}>{line}</p>)}
+              <p className="pt-1">Chosen by {providerLabel(answer.provider)}; counted from the sessions on this device.</p>
+              <button onClick={() => setShowJson(v => !v)} className="text-blue-600 hover:underline">
+                {showJson ? 'Hide JSON' : 'Show JSON'}
+              </button>
+              {showJson && (
+                <pre className="p-2 bg-slate-50 rounded border border-slate-200 whitespace-pre-wrap font-mono">
+                  {JSON.stringify(answer.spec, null, 2)}
+                </pre>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SignatureStrokes } from '../types';
+import { replayTimeline, strokeSegments } from '../services/signatureStrokes';
+
+interface SignatureDrawingProps {
+  signature: SignatureStrokes;
+  className?: string;
+  replay?: boolean; // animate the strokes in the order and at the pace they were drawn
+}
+
+export const SignatureDrawing: React.FC<SignatureDrawingProps> = ({ signature, className, replay }) => {
+  const segments = useMemo(() => strokeSegments(signature), [signature]);
+  const timeline = useMemo(() => replayTimeline(segments), [segments]);
+  const [elapsed, setElapsed] = useState(replay ? 0 : Infinity);
+
+  useEffect(() => {
+    if (!replay) return;
+    const end = timeline[timeline.length - 1] || 0;
+    let frame = 0;
+    const startedAt = performance.now();
+    const tick = (now: number) => {
+      setElapsed(now - startedAt);
+      if (now - startedAt < end) frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [replay, timeline]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${signature.width} ${signature.height}`}
+      className={className}
+      role="img"
+      aria-label="Signature"
+    >
+      {segments.map((segment, i) => timeline[i] <= elapsed && (
+        <path key={i} d={segment.d} stroke="#0f172a" strokeWidth={segment.width} strokeLinecap="round" fill="none" />
+      ))}
+    </svg>
+  );
+};
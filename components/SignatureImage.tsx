@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { SignatureStrokes } from '../types';
+import { dbService } from '../services/dbService';
+import { decodeSignature } from '../services/signatureStrokes';
+import { SignatureDrawing } from './SignatureDrawing';
+
+interface SignatureImageProps {
+  sessionId: string;
+  className?: string;
+}
+
+// Signatures are kept out of the session records, so each one is loaded on demand.
+// Vector signatures open a replay when clicked; older ones are plain PNGs.
+export const SignatureImage: React.FC<SignatureImageProps> = ({ sessionId, className }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [strokes, setStrokes] = useState<SignatureStrokes | null>(null);
+  const [replayRun, setReplayRun] = useState(0); // bumped to restart the animation; 0 while closed
+
+  useEffect(() => {
+    let cancelled = false;
+    dbService.getSignature(sessionId).then(url => {
+      if (cancelled) return;
+      setSrc(url || null);
+      setStrokes(url ? decodeSignature(url) : null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  if (!src) return null;
+  if (!strokes) return <img src={src} alt="Sig" className={className} />;
+
+  return (
+    <>
+      <button type="button" onClick={() => setReplayRun(1)} title="Replay signature" className="inline-block">
+        <SignatureDrawing signature={strokes} className={className} />
+      </button>
+      {replayRun > 0 && (
+        <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-[60]" onClick={() => setReplayRun(0)}>
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-lg overflow-hidden" onClick={(e) => e.stopPropagation()}>
+            <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+              <h3 className="font-semibold text-slate-700">Signature Replay</h3>
+              <div className="flex gap-3 text-sm">
+                <button onClick={() => setReplayRun(n => n + 1)} className="text-blue-600 hover:text-blue-800">Replay</button>
+                <button onClick={() => setReplayRun(0)} className="text-slate-400 hover:text-slate-600">Close</button>
+              </div>
+            </div>
+            <div className="p-6">
+              <SignatureDrawing key={replayRun} signature={strokes} replay className="w-full h-auto border border-slate-200 rounded-lg" />
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
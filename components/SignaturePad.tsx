@@ -1,94 +1,128 @@
 import React, { useRef, useEffect, useState } from 'react';
+import { StrokePoint } from '../types';
+import { encodeSignature, strokeSegments, validateSignature } from '../services/signatureStrokes';
 
 interface SignaturePadProps {
   onEnd: (dataUrl: string | null) => void;
   onClear: () => void;
 }
 
+const INK_COLOR = '#0f172a'; // slate-900
+
 export const SignaturePad: React.FC<SignaturePadProps> = ({ onEnd, onClear }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
+  const strokesRef = useRef<StrokePoint[][]>([]);
+  const sizeRef = useRef({ width: 0, height: 0 });
+  const pointerRef = useRef<number | null>(null); // only one finger or pen draws; others are ignored
+  const startTimeRef = useRef(0);
   const [hasSignature, setHasSignature] = useState(false);
+  const [problem, setProblem] = useState('');
 
-  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  const getContext = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return null;
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = INK_COLOR;
+    return ctx;
+  };
 
-    setIsDrawing(true);
-    const ctx = canvas.getContext('2d');
+  // Full redraw with smoothed, pressure-weighted strokes
+  const redraw = () => {
+    const ctx = getContext();
     if (!ctx) return;
-
-    const { offsetX, offsetY } = getCoordinates(e, canvas);
-    ctx.beginPath();
-    ctx.moveTo(offsetX, offsetY);
+    ctx.clearRect(0, 0, sizeRef.current.width, sizeRef.current.height);
+    strokeSegments({ version: 1, ...sizeRef.current, strokes: strokesRef.current }).forEach(segment => {
+      ctx.lineWidth = segment.width;
+      ctx.stroke(new Path2D(segment.d));
+    });
   };
 
-  const draw = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawing) return;
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  const toPoint = (e: PointerEvent, rect: DOMRect): StrokePoint => [
+    e.clientX - rect.left,
+    e.clientY - rect.top,
+    e.timeStamp - startTimeRef.current,
+    e.pointerType === 'mouse' ? 0.5 : e.pressure,
+  ];
 
-    const { offsetX, offsetY } = getCoordinates(e, canvas);
-    ctx.lineTo(offsetX, offsetY);
-    ctx.stroke();
-    if (!hasSignature) setHasSignature(true);
+  const startDrawing = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (pointerRef.current !== null) return;
+    pointerRef.current = e.pointerId;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (!strokesRef.current.length) startTimeRef.current = e.timeStamp;
+    strokesRef.current.push([toPoint(e.nativeEvent, e.currentTarget.getBoundingClientRect())]);
+    setHasSignature(true);
   };
 
-  const endDrawing = () => {
-    if (!isDrawing) return;
-    setIsDrawing(false);
-    const canvas = canvasRef.current;
-    if (canvas && hasSignature) {
-      onEnd(canvas.toDataURL());
-    }
+  const draw = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId !== pointerRef.current) return;
+    const stroke = strokesRef.current[strokesRef.current.length - 1];
+    const ctx = getContext();
+    // Coalesced events keep fast strokes smooth on devices that sample faster than they render
+    const coalesced = e.nativeEvent.getCoalescedEvents?.() || [];
+    const rect = e.currentTarget.getBoundingClientRect();
+    const points = (coalesced.length ? coalesced : [e.nativeEvent]).map(ev => toPoint(ev, rect));
+
+    points.forEach(point => {
+      const last = stroke[stroke.length - 1];
+      stroke.push(point);
+      if (!ctx) return;
+      // Plain lines while drawing; the smoothed version replaces them when the stroke ends
+      ctx.lineWidth = 2.5;
+      ctx.beginPath();
+      ctx.moveTo(last[0], last[1]);
+      ctx.lineTo(point[0], point[1]);
+      ctx.stroke();
+    });
   };
 
-  const getCoordinates = (e: React.MouseEvent | React.TouchEvent, canvas: HTMLCanvasElement) => {
-    let clientX, clientY;
-    if ('touches' in e) {
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
-    } else {
-      clientX = (e as React.MouseEvent).clientX;
-      clientY = (e as React.MouseEvent).clientY;
-    }
-
-    const rect = canvas.getBoundingClientRect();
-    return {
-      offsetX: clientX - rect.left,
-      offsetY: clientY - rect.top,
-    };
+  const endDrawing = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId !== pointerRef.current) return;
+    pointerRef.current = null;
+    redraw();
+
+    const signature = { version: 1 as const, ...sizeRef.current, strokes: strokesRef.current };
+    const reason = validateSignature(signature);
+    setProblem(reason || '');
+    onEnd(reason ? null : encodeSignature(signature));
   };
 
   const clearCanvas = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    strokesRef.current = [];
+    pointerRef.current = null;
+    redraw();
     setHasSignature(false);
+    setProblem('');
     onEnd(null);
     onClear();
   };
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (canvas) {
-      // Set canvas size to match display size for sharpness
+    if (!canvas) return;
+
+    // Back the canvas with device pixels, and keep what's drawn in place if the pad changes size
+    const resize = () => {
       const rect = canvas.getBoundingClientRect();
-      canvas.width = rect.width;
-      canvas.height = rect.height;
-      
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.lineWidth = 2;
-        ctx.lineCap = 'round';
-        ctx.strokeStyle = '#0f172a'; // slate-900
+      const dpr = window.devicePixelRatio || 1;
+      const { width, height } = sizeRef.current;
+      if (width && height && (rect.width !== width || rect.height !== height)) {
+        strokesRef.current = strokesRef.current.map(stroke =>
+          stroke.map(([x, y, t, p]): StrokePoint => [x * rect.width / width, y * rect.height / height, t, p])
+        );
       }
-    }
+      sizeRef.current = { width: rect.width, height: rect.height };
+      canvas.width = Math.round(rect.width * dpr);
+      canvas.height = Math.round(rect.height * dpr);
+      redraw();
+    };
+
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    return () => observer.disconnect();
   }, []);
 
   return (
@@ -96,14 +130,11 @@ export const SignaturePad: React.FC<SignaturePadProps> = ({ onEnd, onClear }) =>
       <div className="border-2 border-slate-300 border-dashed rounded-lg overflow-hidden bg-white relative touch-none">
         <canvas
           ref={canvasRef}
-          className="w-full h-48 block cursor-crosshair"
-          onMouseDown={startDrawing}
-          onMouseMove={draw}
-          onMouseUp={endDrawing}
-          onMouseLeave={endDrawing}
-          onTouchStart={startDrawing}
-          onTouchMove={draw}
-          onTouchEnd={endDrawing}
+          className="w-full h-48 block cursor-crosshair touch-none"
+          onPointerDown={startDrawing}
+          onPointerMove={draw}
+          onPointerUp={endDrawing}
+          onPointerCancel={endDrawing}
         />
         {!hasSignature && (
           <div className="absolute inset-0 flex items-center justify-center pointer-events-none text-slate-400">
@@ -111,13 +142,16 @@ export const SignaturePad: React.FC<SignaturePadProps> = ({ onEnd, onClear }) =>
           </div>
         )}
       </div>
-      <button
-        type="button"
-        onClick={clearCanvas}
-        className="text-sm text-red-500 hover:text-red-700 font-medium self-end"
-      >
-        Clear Signature
-      </button>
+      <div className="flex justify-between items-center gap-2">
+        <span className="text-xs text-amber-600">{problem}</span>
+        <button
+          type="button"
+          onClick={clearCanvas}
+          className="text-sm text-red-500 hover:text-red-700 font-medium shrink-0"
+        >
+          Clear Signature
+        </button>
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { SealCheck, SealStatus, Session } from '../types';
+import { dbService } from '../services/dbService';
+import { FAILED_SEAL_STATUSES, SEAL_STATUS_LABELS } from '../services/signatureSeal';
+
+interface SignatureVerifierProps {
+  sessions: Session[];
+  onShowHistory: (sessionId: string) => void;
+}
+
+const STATUS_STYLES: Record<SealStatus, string> = {
+  verified: 'bg-green-100 text-green-800',
+  unsigned: 'bg-slate-100 text-slate-500',
+  unsealed: 'bg-slate-100 text-slate-600',
+  edited: 'bg-amber-100 text-amber-800',
+  tampered: 'bg-red-100 text-red-800',
+  signature_mismatch: 'bg-red-100 text-red-800',
+  chain_broken: 'bg-red-100 text-red-800',
+};
+
+export const SignatureVerifier: React.FC<SignatureVerifierProps> = ({ sessions, onShowHistory }) => {
+  const [checks, setChecks] = useState<Record<string, SealCheck> | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setChecks(null);
+    dbService.verifySignatures(sessions).then(result => {
+      if (!cancelled) setChecks(result);
+    });
+    return () => { cancelled = true; };
+  }, [sessions]);
+
+  const all: SealCheck[] = checks ? Object.values(checks) : [];
+  const counts = all.reduce((acc, c) => ({ ...acc, [c.status]: (acc[c.status] || 0) + 1 }), {} as Partial<Record<SealStatus, number>>);
+  // Verified and unsigned sessions need no attention, so only the rest are listed
+  const flagged = all.filter(c => c.status !== 'verified' && c.status !== 'unsigned')
+    .sort((a, b) => Number(FAILED_SEAL_STATUSES.includes(b.status)) - Number(FAILED_SEAL_STATUSES.includes(a.status)));
+  const failedCount = flagged.filter(c => FAILED_SEAL_STATUSES.includes(c.status)).length;
+
+  return (
+    <div className={`bg-white rounded-xl shadow-sm border overflow-hidden ${failedCount ? 'border-red-200' : 'border-slate-200'}`}>
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
+        <h3 className="font-semibold text-slate-700">Signature Verification</h3>
+        <p className="text-xs text-slate-500">
+          Each signature is sealed with a hash of the session it was given for. Sessions whose details or signature changed are flagged.
+        </p>
+      </div>
+
+      {!checks ? (
+        <div className="p-6 text-center text-sm text-slate-400">Checking {sessions.length} session(s)…</div>
+      ) : (
+        <>
+          <div className="px-6 py-3 flex flex-wrap gap-2 border-b border-slate-100">
+            {(Object.keys(SEAL_STATUS_LABELS) as SealStatus[]).filter(status => counts[status]).map(status => (
+              <span key={status} className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+                {SEAL_STATUS_LABELS[status]}: {counts[status]}
+              </span>
+            ))}
+          </div>
+          {flagged.length === 0 ? (
+            <div className="p-6 text-center text-sm text-green-700">All signatures in this selection match their sessions.</div>
+          ) : (
+            <ul className="divide-y divide-slate-100 max-h-96 overflow-y-auto">
+              {flagged.map(check => {
+                const session = sessions.find(s => s.id === check.sessionId)!;
+                return (
+                  <li key={check.sessionId} className="px-6 py-3 text-sm flex justify-between items-center gap-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[check.status]}`}>
+                          {SEAL_STATUS_LABELS[check.status]}
+                        </span>
+                        <span className="font-medium text-slate-700">{session.patientName}</span>
+                        <span className="text-slate-500">• {session.therapistName} • {new Date(session.timestamp).toLocaleDateString()}</span>
+                      </div>
+                      <p className="text-xs text-slate-500 mt-1">{check.detail}</p>
+                    </div>
+                    <button onClick={() => onShowHistory(check.sessionId)} className="text-xs text-blue-600 hover:text-blue-800 shrink-0">
+                      History
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
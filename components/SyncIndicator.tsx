@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { SyncStatus } from '../types';
+import { syncService } from '../services/syncService';
+
+const timeAgo = (iso: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ago` : new Date(iso).toLocaleDateString();
+};
+
+// Header badge showing when this device last synced; click to sync now
+export const SyncIndicator: React.FC = () => {
+  const [status, setStatus] = useState<SyncStatus>(() => syncService.getStatus());
+  // Re-render every minute so "5m ago" stays current
+  const [, setTick] = useState(0);
+
+  useEffect(() => syncService.subscribe(setStatus), []);
+  useEffect(() => {
+    const timer = setInterval(() => setTick(t => t + 1), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!status.configured) {
+    return <span className="text-xs text-slate-400" title="Set up sync under Account">Local only</span>;
+  }
+
+  let dot = 'bg-green-500';
+  let label = status.lastSyncedAt ? `Synced ${timeAgo(status.lastSyncedAt)}` : 'Not synced';
+  if (status.syncing) {
+    dot = 'bg-blue-500 animate-pulse';
+    label = 'Syncing…';
+  } else if (status.lastError) {
+    dot = 'bg-red-500';
+    label = 'Sync failed';
+  } else if (status.pending > 0) {
+    dot = 'bg-amber-500';
+    label = `${status.pending} to sync`;
+  }
+
+  return (
+    <button
+      onClick={() => syncService.syncNow()}
+      title={status.lastError || 'Sync now'}
+      className="flex items-center gap-1.5 text-xs text-slate-500 hover:text-slate-700"
+    >
+      <span className={`w-2 h-2 rounded-full ${dot}`} />
+      {label}
+    </button>
+  );
+};
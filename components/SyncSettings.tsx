@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { SyncStatus } from '../types';
+import { dbService } from '../services/dbService';
+import { syncService } from '../services/syncService';
+
+// Connection details for the clinic's sync server; each device is set up separately
+export const SyncSettings: React.FC = () => {
+  const [serverUrl, setServerUrl] = useState(() => dbService.getSyncSettings().serverUrl);
+  const [key, setKey] = useState(() => dbService.getSyncSettings().key);
+  const [status, setStatus] = useState<SyncStatus>(() => syncService.getStatus());
+  const [message, setMessage] = useState('');
+
+  useEffect(() => syncService.subscribe(setStatus), []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    dbService.updateSyncSettings({ serverUrl, key });
+    setStatus(syncService.getStatus());
+    if (!serverUrl.trim()) {
+      setMessage('Sync turned off. Data stays on this device only.');
+      return;
+    }
+    setMessage('Connecting…');
+    const result = await syncService.syncNow();
+    setMessage(result.message);
+  };
+
+  const inputClass = "w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <form onSubmit={handleSave} className="space-y-3">
+      <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Sync Between Devices</h3>
+      <input
+        type="url"
+        value={serverUrl}
+        onChange={(e) => setServerUrl(e.target.value)}
+        className={inputClass}
+        placeholder="Server URL, e.g. https://sync.myclinic.com"
+      />
+      <input
+        type="password"
+        value={key}
+        onChange={(e) => setKey(e.target.value)}
+        className={inputClass}
+        placeholder="Sync key from your clinic manager"
+      />
+      <button
+        type="submit"
+        disabled={status.syncing}
+        className="w-full py-2 rounded-lg bg-slate-800 text-white font-semibold hover:bg-slate-700 transition-all disabled:bg-slate-400"
+      >
+        Save & Sync Now
+      </button>
+      <p className="text-xs text-slate-500">
+        {status.lastSyncedAt ? `Last synced ${new Date(status.lastSyncedAt).toLocaleString()}` : 'Not synced yet'}
+        {status.pending > 0 && ` • ${status.pending} change(s) waiting`}
+      </p>
+      {(message || status.lastError) && (
+        <p className={`text-xs ${status.lastError ? 'text-red-600' : 'text-slate-500'}`}>{status.lastError || message}</p>
+      )}
+    </form>
+  );
+};
@@ -0,0 +1,106 @@
+import React from 'react';
+import { User } from '../types';
+import { dbService } from '../services/dbService';
+import { treatmentName } from '../services/treatmentCatalogue';
+import { routeHash } from '../services/router';
+import { EMPLOYMENT_TYPE_LABELS } from './UserManager';
+
+interface TherapistOverviewProps {
+  currentUser: User;
+  therapistId: string;
+}
+
+const RECENT_LIMIT = 10;
+
+export const TherapistOverview: React.FC<TherapistOverviewProps> = ({ currentUser, therapistId }) => {
+  const therapist = dbService.getAllTherapists(true).find(t => t.id === therapistId);
+
+  if (!therapist) {
+    return (
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 text-center text-slate-500">
+        Therapist not found.
+      </div>
+    );
+  }
+
+  const now = new Date();
+  const sessions = dbService.getSessions(therapist.id, 'therapist').filter(s => !s.voidedAt);
+  const thisMonth = sessions.filter(s => {
+    const d = new Date(s.timestamp);
+    return d.getMonth() === now.getMonth() && d.getFullYear() === now.getFullYear();
+  });
+  const minutes = thisMonth.reduce((sum, s) => sum + s.durationMinutes, 0);
+  const treatments = dbService.getTreatments(true);
+  const contract = therapist.contract;
+  const dashboardLink = routeHash('dashboard', {}, currentUser.role === 'admin' ? { therapist: therapist.id } : {});
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">
+              {therapist.name}
+              {therapist.deactivatedAt && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-500">Deactivated</span>}
+            </h3>
+            <p className="text-sm text-slate-500">@{therapist.username}</p>
+          </div>
+          <a href={dashboardLink} className="text-sm font-medium text-blue-600 hover:text-blue-800">Open Payroll</a>
+        </div>
+        <div className="p-6 grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-xs text-slate-400 uppercase">Sessions this month</p>
+            <p className="text-2xl font-bold text-slate-800">{thisMonth.length}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400 uppercase">Hours this month</p>
+            <p className="text-2xl font-bold text-slate-800">{(minutes / 60).toFixed(1)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400 uppercase">All sessions</p>
+            <p className="text-2xl font-bold text-slate-800">{sessions.length}</p>
+          </div>
+        </div>
+        {contract && (
+          <div className="px-6 pb-6 grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-xs text-slate-400 uppercase">Employment</p>
+              <p className="font-medium text-slate-700">{EMPLOYMENT_TYPE_LABELS[contract.employmentType]}</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400 uppercase">Start date</p>
+              <p className="font-medium text-slate-700">{contract.startDate ? new Date(contract.startDate).toLocaleDateString() : '—'}</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400 uppercase">Payout reference</p>
+              <p className="font-medium text-slate-700 break-all">{contract.payoutReference || '—'}</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
+          <h3 className="font-semibold text-slate-700">Recent Sessions</h3>
+        </div>
+        {sessions.length === 0 ? (
+          <div className="p-6 text-center text-sm text-slate-400">No sessions yet.</div>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {sessions.slice(0, RECENT_LIMIT).map(s => (
+              <li key={s.id}>
+                <a href={routeHash('session', { id: s.id })} className="px-6 py-3 flex justify-between items-center text-sm hover:bg-slate-50">
+                  <div>
+                    <p className="font-medium text-slate-700">{s.patientName}</p>
+                    <p className="text-xs text-slate-500">{new Date(s.timestamp).toLocaleDateString()} • {treatmentName(treatments, s.treatmentType)}</p>
+                  </div>
+                  <span className="text-xs font-bold bg-slate-100 px-2 py-1 rounded text-slate-600">{s.durationMinutes} min</span>
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
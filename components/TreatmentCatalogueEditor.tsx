@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { RateUnit, Treatment, User } from '../types';
+import { dbService } from '../services/dbService';
+import { formatMoney } from '../services/payrollService';
+
+interface TreatmentCatalogueEditorProps {
+  currentUser: User;
+  onChange: () => void;
+}
+
+interface TreatmentDraft {
+  id: string | null; // null while adding
+  name: string;
+  durations: string; // comma separated minutes
+  defaultDuration: string;
+  color: string;
+  rateAmount: string;
+  rateUnit: RateUnit;
+  active: boolean;
+}
+
+const EMPTY_DRAFT: TreatmentDraft = {
+  id: null,
+  name: '',
+  durations: '',
+  defaultDuration: '',
+  color: '#0ea5e9',
+  rateAmount: '',
+  rateUnit: 'session',
+  active: true,
+};
+
+const toDraft = (t: Treatment): TreatmentDraft => ({
+  id: t.id,
+  name: t.name,
+  durations: t.allowedDurations.join(', '),
+  defaultDuration: String(t.defaultDuration),
+  color: t.color,
+  rateAmount: t.payRate ? String(t.payRate.amount) : '',
+  rateUnit: t.payRate?.unit || 'session',
+  active: t.active,
+});
+
+export const TreatmentCatalogueEditor: React.FC<TreatmentCatalogueEditorProps> = ({ currentUser, onChange }) => {
+  const [treatments, setTreatments] = useState<Treatment[]>(() => dbService.getTreatments(true));
+  const [draft, setDraft] = useState<TreatmentDraft | null>(null);
+  const [error, setError] = useState('');
+
+  const persist = (treatment: Treatment): boolean => {
+    const result = dbService.saveTreatment(currentUser.id, treatment);
+    if (!result.success) {
+      setError(result.message);
+      return false;
+    }
+    setError('');
+    setTreatments([...dbService.getTreatments(true)]);
+    onChange();
+    return true;
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const allowedDurations = draft.durations.split(',').map(d => Number(d.trim())).filter(d => d > 0);
+    const treatment: Treatment = {
+      id: draft.id || Math.random().toString(36).substring(2, 10),
+      name: draft.name,
+      allowedDurations,
+      defaultDuration: draft.defaultDuration ? Number(draft.defaultDuration) : allowedDurations[0],
+      color: draft.color,
+      payRate: draft.rateAmount ? { amount: Number(draft.rateAmount), unit: draft.rateUnit } : undefined,
+      active: draft.active,
+    };
+    if (persist(treatment)) setDraft(null);
+  };
+
+  const toggleActive = (t: Treatment) => {
+    persist({ ...t, active: !t.active });
+  };
+
+  const inputClass = "px-3 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+        <div>
+          <h3 className="font-semibold text-slate-700">Treatment Catalogue</h3>
+          <p className="text-xs text-slate-500">Drives the session form, durations, stat cards and baseline pay.</p>
+        </div>
+        {!draft && (
+          <button onClick={() => setDraft(EMPTY_DRAFT)} className="text-xs font-medium text-blue-600 hover:text-blue-800">
+            + Add Treatment
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSave} className="p-4 flex flex-wrap items-end gap-3 border-b border-slate-100">
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Name</label>
+            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} required />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Durations (mins)</label>
+            <input
+              value={draft.durations}
+              onChange={(e) => setDraft({ ...draft, durations: e.target.value })}
+              className={`${inputClass} w-32`}
+              placeholder="30, 45, 60"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Default</label>
+            <input
+              type="number"
+              value={draft.defaultDuration}
+              onChange={(e) => setDraft({ ...draft, defaultDuration: e.target.value })}
+              className={`${inputClass} w-20`}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Colour</label>
+            <input
+              type="color"
+              value={draft.color}
+              onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+              className="h-9 w-12 rounded border border-slate-300"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Base Rate</label>
+            <div className="flex gap-1">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={draft.rateAmount}
+                onChange={(e) => setDraft({ ...draft, rateAmount: e.target.value })}
+                className={`${inputClass} w-24`}
+                placeholder="optional"
+              />
+              <select value={draft.rateUnit} onChange={(e) => setDraft({ ...draft, rateUnit: e.target.value as RateUnit })} className={inputClass}>
+                <option value="session">/ session</option>
+                <option value="hour">/ hour</option>
+              </select>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setDraft(null)} className="px-3 py-2 text-sm text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg">
+              Cancel
+            </button>
+            <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg">
+              Save
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="px-6 py-2 text-sm text-red-600">{error}</p>}
+
+      <ul className="divide-y divide-slate-100">
+        {treatments.map(t => (
+          <li key={t.id} className={`px-6 py-3 flex justify-between items-center text-sm ${t.active ? '' : 'opacity-50'}`}>
+            <div className="flex items-center gap-3">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: t.color }} />
+              <div>
+                <p className="font-medium text-slate-700">{t.name}</p>
+                <p className="text-xs text-slate-500">
+                  {t.allowedDurations.join(' / ')} mins • default {t.defaultDuration}
+                  {t.payRate && ` • ${formatMoney(t.payRate.amount)} / ${t.payRate.unit}`}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-3 text-xs">
+              <button onClick={() => setDraft(toDraft(t))} className="text-blue-600 hover:text-blue-800">Edit</button>
+              <button onClick={() => toggleActive(t)} className="text-slate-500 hover:text-slate-700">
+                {t.active ? 'Retire' : 'Restore'}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { TreatmentType } from '../types';
+import { dbService } from '../services/dbService';
+import { findTreatment } from '../services/treatmentCatalogue';
+
+interface TreatmentFieldsProps {
+  treatmentType: TreatmentType;
+  duration: number;
+  onChange: (treatmentType: TreatmentType, duration: number) => void;
+}
+
+// Treatment picker and duration select, with the allowed durations taken from the catalogue
+export const TreatmentFields: React.FC<TreatmentFieldsProps> = ({ treatmentType, duration, onChange }) => {
+  const treatments = useMemo(() => dbService.getTreatments(), []);
+  const selected = findTreatment(treatments, treatmentType);
+  const isFixed = !!selected && selected.allowedDurations.length === 1;
+
+  const handleTypeChange = (id: TreatmentType) => {
+    const treatment = findTreatment(treatments, id);
+    if (treatment) onChange(treatment.id, treatment.defaultDuration);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">Treatment Type</label>
+        <div className="flex flex-wrap rounded-lg border border-slate-200 p-1 bg-slate-50 gap-1">
+          {treatments.map(t => (
+            <button
+              key={t.id}
+              type="button"
+              onClick={() => handleTypeChange(t.id)}
+              style={treatmentType === t.id ? { color: t.color } : undefined}
+              className={`flex-1 min-w-[7rem] py-2 text-sm font-medium rounded-md transition-all ${
+                treatmentType === t.id ? 'bg-white shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {t.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">Duration</label>
+        <select
+          value={duration}
+          onChange={(e) => onChange(treatmentType, Number(e.target.value))}
+          disabled={!selected || isFixed}
+          className={`w-full px-4 py-2 rounded-lg border border-slate-300 outline-none transition-all ${
+            !selected || isFixed ? 'bg-slate-100 text-slate-500 cursor-not-allowed' : 'focus:ring-2 focus:ring-blue-500'
+          }`}
+        >
+          {selected ? selected.allowedDurations.map(d => (
+            <option key={d} value={d}>{d} Minutes{isFixed ? ' (Strict)' : ''}</option>
+          )) : (
+            <option value={duration}>{duration} Minutes</option>
+          )}
+        </select>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React from 'react';
+import { PayrollTrend, Treatment } from '../types';
+import { treatmentColor, treatmentName } from '../services/treatmentCatalogue';
+
+interface TrendChartsProps {
+  trend: PayrollTrend;
+  treatments: Treatment[];
+  perTherapist: boolean; // one line per therapist instead of a single total
+}
+
+// Therapists have no colour of their own; assigned in name order
+const THERAPIST_COLORS = ['#2563eb', '#059669', '#d97706', '#db2777', '#7c3aed', '#0891b2', '#dc2626', '#65a30d'];
+
+const WIDTH = 640;
+const HEIGHT = 200;
+const PAD = { top: 10, right: 10, bottom: 24, left: 36 };
+const PLOT_WIDTH = WIDTH - PAD.left - PAD.right;
+const PLOT_HEIGHT = HEIGHT - PAD.top - PAD.bottom;
+const MAX_X_LABELS = 8;
+
+// Rounds the axis maximum up to 1, 2 or 5 times a power of ten
+const niceMax = (value: number): number => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find(s => s * magnitude >= value)!;
+  return step * magnitude;
+};
+
+const formatHours = (minutes: number): string => `${Math.round((minutes / 60) * 10) / 10}h`;
+
+interface AxesProps {
+  labels: string[];
+  max: number;
+  format: (value: number) => string;
+}
+
+const xFor = (index: number, count: number) => PAD.left + ((index + 0.5) * PLOT_WIDTH) / count;
+const yFor = (value: number, max: number) => PAD.top + PLOT_HEIGHT - (value / max) * PLOT_HEIGHT;
+
+const Axes: React.FC<AxesProps> = ({ labels, max, format }) => {
+  const every = Math.ceil(labels.length / MAX_X_LABELS);
+  return (
+    <g className="text-slate-400" fontSize={10} fill="currentColor">
+      {[0, 0.5, 1].map(f => (
+        <g key={f}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={yFor(max * f, max)} y2={yFor(max * f, max)} stroke="#e2e8f0" />
+          <text x={PAD.left - 4} y={yFor(max * f, max) + 3} textAnchor="end">{format(max * f)}</text>
+        </g>
+      ))}
+      {labels.map((label, i) => i % every === 0 && (
+        <text key={i} x={xFor(i, labels.length)} y={HEIGHT - 6} textAnchor="middle">{label}</text>
+      ))}
+    </g>
+  );
+};
+
+const Legend: React.FC<{ items: { label: string; color: string }[] }> = ({ items }) => (
+  <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-slate-600">
+    {items.map(item => (
+      <span key={item.label} className="flex items-center gap-1">
+        <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: item.color }} />
+        {item.label}
+      </span>
+    ))}
+  </div>
+);
+
+export const TrendCharts: React.FC<TrendChartsProps> = ({ trend, treatments, perTherapist }) => {
+  const labels = trend.buckets.map(b => b.label);
+  const count = labels.length;
+
+  const lines = perTherapist
+    ? trend.therapists.map((t, i) => ({ label: t.therapistName, color: THERAPIST_COLORS[i % THERAPIST_COLORS.length], minutes: t.points.map(p => p.minutes) }))
+    : [{ label: 'Hours', color: THERAPIST_COLORS[0], minutes: trend.points.map(p => p.minutes) }];
+  const maxMinutes = niceMax(Math.max(0, ...lines.flatMap(l => l.minutes)) / 60) * 60;
+
+  // Treatments in catalogue order, then any id no longer in the catalogue
+  const treatmentIds = Array.from(new Set([
+    ...treatments.map(t => t.id),
+    ...trend.points.flatMap(p => Object.keys(p.byTreatment)),
+  ])).filter(id => trend.points.some(p => p.byTreatment[id]));
+  const maxSessions = niceMax(Math.max(0, ...trend.points.map(p => p.sessions)));
+  const columnWidth = Math.max(2, (PLOT_WIDTH / count) * 0.7);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
+        <h3 className="font-semibold text-slate-700">Trends</h3>
+      </div>
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <figure>
+          <figcaption className="text-sm font-medium text-slate-600 mb-2">Hours {perTherapist ? 'by therapist' : ''}</figcaption>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+            <Axes labels={labels} max={maxMinutes} format={formatHours} />
+            {lines.map(line => (
+              <g key={line.label}>
+                <polyline
+                  fill="none"
+                  stroke={line.color}
+                  strokeWidth={2}
+                  strokeLinejoin="round"
+                  points={line.minutes.map((m, i) => `${xFor(i, count)},${yFor(m, maxMinutes)}`).join(' ')}
+                />
+                {count <= 31 && line.minutes.map((m, i) => (
+                  <circle key={i} cx={xFor(i, count)} cy={yFor(m, maxMinutes)} r={2.5} fill={line.color}>
+                    <title>{`${line.label} • ${labels[i]}: ${formatHours(m)}`}</title>
+                  </circle>
+                ))}
+              </g>
+            ))}
+          </svg>
+          {perTherapist && <Legend items={lines} />}
+        </figure>
+
+        <figure>
+          <figcaption className="text-sm font-medium text-slate-600 mb-2">Session mix</figcaption>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+            <Axes labels={labels} max={maxSessions} format={v => String(Math.round(v))} />
+            {trend.points.map((point, i) => {
+              let stacked = 0;
+              return (
+                <g key={i}>
+                  {treatmentIds.filter(id => point.byTreatment[id]).map(id => {
+                    const value = point.byTreatment[id];
+                    const y = yFor(stacked + value, maxSessions);
+                    const height = yFor(stacked, maxSessions) - y;
+                    stacked += value;
+                    return (
+                      <rect key={id} x={xFor(i, count) - columnWidth / 2} y={y} width={columnWidth} height={height} fill={treatmentColor(treatments, id)}>
+                        <title>{`${labels[i]} • ${treatmentName(treatments, id)}: ${value}`}</title>
+                      </rect>
+                    );
+                  })}
+                </g>
+              );
+            })}
+          </svg>
+          <Legend items={treatmentIds.map(id => ({ label: treatmentName(treatments, id), color: treatmentColor(treatments, id) }))} />
+        </figure>
+
+        {perTherapist && trend.therapists.length > 1 && (
+          <figure className="lg:col-span-2">
+            <figcaption className="text-sm font-medium text-slate-600 mb-2">Session mix by therapist</figcaption>
+            <ul className="space-y-2">
+              {trend.therapists.map(t => (
+                <li key={t.therapistId} className="flex items-center gap-3 text-sm">
+                  <span className="w-40 truncate text-slate-700">{t.therapistName}</span>
+                  <div className="flex-1 flex h-4 rounded overflow-hidden bg-slate-100">
+                    {treatmentIds.filter(id => t.total.byTreatment[id]).map(id => (
+                      <div
+                        key={id}
+                        style={{ width: `${(t.total.byTreatment[id] / t.total.sessions) * 100}%`, backgroundColor: treatmentColor(treatments, id) }}
+                        title={`${treatmentName(treatments, id)}: ${t.total.byTreatment[id]}`}
+                      />
+                    ))}
+                  </div>
+                  <span className="w-24 text-right text-xs text-slate-500">{t.total.sessions} • {formatHours(t.total.minutes)}</span>
+                </li>
+              ))}
+            </ul>
+          </figure>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { EmploymentType, User, UserRole } from '../types';
+import { dbService } from '../services/dbService';
+import { routeHash } from '../services/router';
+
+interface UserManagerProps {
+  currentUser: User;
+  onCurrentUserChange: (user: User) => void;
+}
+
+export const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  freelance: 'Freelance',
+  employed: 'Employed',
+  locum: 'Locum',
+};
+
+interface UserDraft {
+  id: string | null; // null while adding
+  name: string;
+  username: string;
+  role: UserRole;
+  password: string; // only used when adding
+  employmentType: EmploymentType;
+  startDate: string;
+  payoutReference: string;
+}
+
+const EMPTY_DRAFT: UserDraft = {
+  id: null,
+  name: '',
+  username: '',
+  role: 'therapist',
+  password: '',
+  employmentType: 'freelance',
+  startDate: '',
+  payoutReference: '',
+};
+
+const toDraft = (u: User): UserDraft => ({
+  id: u.id,
+  name: u.name,
+  username: u.username,
+  role: u.role,
+  password: '',
+  employmentType: u.contract?.employmentType || 'freelance',
+  startDate: u.contract?.startDate || '',
+  payoutReference: u.contract?.payoutReference || '',
+});
+
+const MIN_PASSWORD_LENGTH = 4;
+
+export const UserManager: React.FC<UserManagerProps> = ({ currentUser, onCurrentUserChange }) => {
+  const [users, setUsers] = useState<User[]>(() => dbService.getAllUsers());
+  const [draft, setDraft] = useState<UserDraft | null>(null);
+  const [showInactive, setShowInactive] = useState(false);
+  const [error, setError] = useState('');
+
+  const refresh = () => {
+    const all = dbService.getAllUsers();
+    setUsers(all);
+    const self = all.find(u => u.id === currentUser.id);
+    if (self) onCurrentUserChange(self);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const fields = {
+      name: draft.name,
+      username: draft.username,
+      role: draft.role,
+      contract: {
+        employmentType: draft.employmentType,
+        startDate: draft.startDate,
+        payoutReference: draft.payoutReference,
+      },
+    };
+
+    let result: { success: boolean; message: string };
+    if (draft.id) {
+      result = dbService.updateUser(currentUser.id, draft.id, fields);
+    } else {
+      if (draft.password.length < MIN_PASSWORD_LENGTH) {
+        setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+        return;
+      }
+      result = await dbService.createUser(currentUser.id, fields, draft.password);
+    }
+
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+    setError('');
+    setDraft(null);
+    refresh();
+  };
+
+  const toggleActive = (u: User) => {
+    if (!u.deactivatedAt && !confirm(`Deactivate ${u.name}? They won't be able to sign in, but their sessions stay in reports.`)) return;
+
+    const result = dbService.setUserActive(currentUser.id, u.id, !!u.deactivatedAt);
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+    setError('');
+    refresh();
+  };
+
+  const visible = users.filter(u => showInactive || !u.deactivatedAt);
+  const inactiveCount = users.filter(u => u.deactivatedAt).length;
+  const inputClass = "px-3 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+        <div>
+          <h3 className="font-semibold text-slate-700">Users</h3>
+          <p className="text-xs text-slate-500">Deactivated users can't sign in but remain in past reports.</p>
+        </div>
+        <div className="flex items-center gap-4">
+          {inactiveCount > 0 && (
+            <label className="flex items-center gap-1 text-xs text-slate-500">
+              <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />
+              Show deactivated ({inactiveCount})
+            </label>
+          )}
+          {!draft && (
+            <button onClick={() => setDraft(EMPTY_DRAFT)} className="text-xs font-medium text-blue-600 hover:text-blue-800">
+              + Add User
+            </button>
+          )}
+        </div>
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSave} className="p-4 space-y-3 border-b border-slate-100">
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Name</label>
+              <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} required />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Username</label>
+              <input value={draft.username} onChange={(e) => setDraft({ ...draft, username: e.target.value })} className={`${inputClass} w-36`} required />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Role</label>
+              <select
+                value={draft.role}
+                onChange={(e) => setDraft({ ...draft, role: e.target.value as UserRole })}
+                className={inputClass}
+                disabled={draft.id === currentUser.id}
+              >
+                <option value="therapist">Therapist</option>
+                <option value="admin">Admin</option>
+              </select>
+            </div>
+            {!draft.id && (
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Temporary Password</label>
+                <input
+                  type="password"
+                  value={draft.password}
+                  onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+                  className={`${inputClass} w-40`}
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+            )}
+          </div>
+
+          {draft.role === 'therapist' && (
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Employment</label>
+                <select
+                  value={draft.employmentType}
+                  onChange={(e) => setDraft({ ...draft, employmentType: e.target.value as EmploymentType })}
+                  className={inputClass}
+                >
+                  {Object.entries(EMPLOYMENT_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Start Date</label>
+                <input
+                  type="date"
+                  value={draft.startDate}
+                  onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex-1 min-w-[12rem]">
+                <label className="block text-xs font-medium text-slate-500 mb-1">Bank / Payout Reference</label>
+                <input
+                  value={draft.payoutReference}
+                  onChange={(e) => setDraft({ ...draft, payoutReference: e.target.value })}
+                  className={`${inputClass} w-full`}
+                  placeholder="e.g. sort code and account number"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => { setDraft(null); setError(''); }} className="px-3 py-2 text-sm text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg">
+              Cancel
+            </button>
+            <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg">
+              {draft.id ? 'Save' : 'Create User'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="px-6 py-2 text-sm text-red-600">{error}</p>}
+
+      <ul className="divide-y divide-slate-100">
+        {visible.map(u => (
+          <li key={u.id} className={`px-6 py-3 flex justify-between items-center text-sm ${u.deactivatedAt ? 'opacity-50' : ''}`}>
+            <div>
+              <p className="font-medium text-slate-700">
+                {u.role === 'therapist'
+                  ? <a href={routeHash('therapist', { id: u.id })} className="hover:text-blue-600">{u.name}</a>
+                  : u.name}
+                <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${u.role === 'admin' ? 'bg-indigo-100 text-indigo-700' : 'bg-slate-100 text-slate-600'}`}>
+                  {u.role === 'admin' ? 'Admin' : 'Therapist'}
+                </span>
+              </p>
+              <p className="text-xs text-slate-500">
+                @{u.username}
+                {u.contract && ` • ${EMPLOYMENT_TYPE_LABELS[u.contract.employmentType]}`}
+                {u.contract?.startDate && ` since ${new Date(u.contract.startDate).toLocaleDateString()}`}
+                {u.deactivatedAt && ` • Deactivated ${new Date(u.deactivatedAt).toLocaleDateString()}`}
+              </p>
+            </div>
+            <div className="flex gap-3 text-xs">
+              <button onClick={() => { setDraft(toDraft(u)); setError(''); }} className="text-blue-600 hover:text-blue-800">Edit</button>
+              {u.id !== currentUser.id && (
+                <button onClick={() => toggleActive(u)} className="text-slate-500 hover:text-slate-700">
+                  {u.deactivatedAt ? 'Reactivate' : 'Deactivate'}
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
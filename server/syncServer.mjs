@@ -0,0 +1,345 @@
+// Self-hostable sync server for PhysioTrack, with no dependencies beyond Node.
+//
+//   SYNC_KEY=<shared secret> node server/syncServer.mjs [--port 4000] [--data server/sync-data.json]
+//
+// Every record (session, user, invite, pay period, treatment, patient, invoice, the analysis privacy
+// policy or a logged prompt) carries a server revision. A pushed change is accepted only when it was made on the record's current revision; otherwise
+// the server copy is returned as a conflict and the client resolves it (see dbService.applySyncResponse).
+// A session change that would alter pay in a month whose payroll is approved or paid is refused, and
+// the server copy is returned with the reason. Months are read in the server's time zone, so set TZ to
+// the clinic's (e.g. TZ=Europe/London).
+//
+// Each request names the user signed in on the device, proven by their password once and then by a
+// token this server issues in exchange. Changes are checked against them the way the app checks its own
+// users: only an administrator may add accounts (other than through an invite), change roles, deactivate
+// users, manage invites, edit the treatment catalogue or the analysis privacy policy, void sessions, or
+// approve, reopen or pay a month. Sessions and invoices belong to their therapist and administrators,
+// anyone signed in may edit patients and log prompts, and users may change their own account. Until an administrator's account reaches the server there is
+// no one to check against, so everything is accepted; the first device to sync sends every account it holds.
+// A session's clinical note is only sent to its therapist and administrators, and only they can change it.
+// User records include password hashes, so run this behind HTTPS on a host you trust.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash, pbkdf2, randomBytes, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+const PAGE_SIZE = 500;
+
+// Mirror dbService: who may move a pay period between statuses, the statuses that close a month, and the
+// session fields pay is worked out from
+const PERIOD_TRANSITIONS = [
+  { from: 'draft', to: 'submitted', role: 'owner' },
+  { from: 'submitted', to: 'draft', role: 'owner' },
+  { from: 'submitted', to: 'draft', role: 'admin' },
+  { from: 'submitted', to: 'approved', role: 'admin' },
+  { from: 'approved', to: 'draft', role: 'admin' },
+  { from: 'approved', to: 'paid', role: 'admin' },
+];
+const LOCKED_STATUSES = ['approved', 'paid'];
+const PAYROLL_FIELDS = ['therapistId', 'patientId', 'patientName', 'treatmentType', 'durationMinutes', 'timestamp', 'voidedAt'];
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+const arg = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : fallback;
+};
+
+const PORT = Number(arg('port', process.env.PORT || 4000));
+const DATA_FILE = path.resolve(arg('data', process.env.SYNC_DATA || 'server/sync-data.json'));
+const SYNC_KEY = process.env.SYNC_KEY;
+
+if (!SYNC_KEY) {
+  console.error('Set SYNC_KEY to the shared secret devices will use to connect.');
+  process.exit(1);
+}
+
+// { rev: number, records: { "<kind>:<id>": { kind, id, rev, data, signatureDataUrl? } },
+//   viewerTokens: { "<sha256 of token>": userId } }
+let state = { rev: 0, records: {}, viewerTokens: {} };
+if (fs.existsSync(DATA_FILE)) {
+  state = JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+  state.viewerTokens ||= {};
+}
+
+const persist = () => {
+  const tmp = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(state));
+  fs.renameSync(tmp, DATA_FILE);
+};
+
+const digest = value => createHash('sha256').update(value).digest();
+
+const pbkdf2Async = promisify(pbkdf2);
+
+// Same format as cryptoService: pbkdf2$<iterations>$<base64 salt>$<base64 hash>
+const verifyPassword = async (password, stored) => {
+  const [prefix, iterations, salt, expected] = String(stored).split('$');
+  if (prefix !== 'pbkdf2' || !iterations || !salt || !expected) return false;
+  const actual = await pbkdf2Async(password, Buffer.from(salt, 'base64'), Number(iterations), 32, 'sha256');
+  const wanted = Buffer.from(expected, 'base64');
+  return actual.length === wanted.length && timingSafeEqual(actual, wanted);
+};
+
+const isAuthorized = req => {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  return timingSafeEqual(digest(token), digest(SYNC_KEY));
+};
+
+const userRecord = id => state.records[`user:${id}`]?.data;
+const isActiveAdmin = user => !!user && user.role === 'admin' && !user.deactivatedAt;
+
+// The user signed in on the pushing device, or null when they can't be told apart from anyone with the key
+const identifyViewer = async viewer => {
+  const user = viewer?.userId && userRecord(viewer.userId);
+  if (!user || user.deactivatedAt) return null;
+  if (viewer.token && state.viewerTokens[digest(viewer.token).toString('hex')] === user.id) return user;
+  if (viewer.password && await verifyPassword(viewer.password, user.passwordHash)) return user;
+  return null;
+};
+
+const revokeViewerTokens = userId => {
+  Object.keys(state.viewerTokens).forEach(hash => {
+    if (state.viewerTokens[hash] === userId) delete state.viewerTokens[hash];
+  });
+};
+
+// Why `viewer` may not make a user change, or undefined when they may. `updatedBy` has to check out
+// too, since devices trust it when they take the change.
+const refuseUserChange = ({ id, data }, current, viewer) => {
+  if (!data || data.id !== id) return 'User accounts can be changed but not removed.';
+  const madeByAdmin = isActiveAdmin(viewer) && isActiveAdmin(userRecord(data.updatedBy));
+
+  if (!current) {
+    if (madeByAdmin) return undefined;
+    const invited = Object.values(state.records).some(({ kind, data: invite }) =>
+      kind === 'invite' && invite && invite.role === data.role && (!invite.name || invite.name === data.name)
+      && (invite.usedBy === id || (!invite.usedAt && new Date(invite.expiresAt).getTime() > Date.now())));
+    return invited && data.updatedBy === id ? undefined : `${data.name}'s account was not synced: only an administrator or an invite can add an account.`;
+  }
+
+  const before = current.data || {};
+  if (data.role !== before.role || data.deactivatedAt !== before.deactivatedAt) {
+    return madeByAdmin ? undefined : `Changes to ${before.name}'s role or access were not synced: sign in again as an administrator on this device.`;
+  }
+  if (data.passwordHash !== before.passwordHash && !madeByAdmin && !(viewer?.id === id && data.updatedBy === id)) {
+    return `${before.name}'s new password was not synced: sign in again as ${before.name} or an administrator on this device.`;
+  }
+  return isActiveAdmin(viewer) || viewer?.id === id ? undefined : `Changes to ${before.name}'s account were not synced: sign in again as ${before.name} or an administrator on this device.`;
+};
+
+// Anyone may mark an invite used, once, by the account it created; everything else is for administrators
+const refuseInviteChange = ({ data }, current, viewer) => {
+  if (isActiveAdmin(viewer)) return undefined;
+  const before = current?.data;
+  const withoutUse = invite => JSON.stringify({ ...invite, usedAt: undefined, usedBy: undefined });
+  const markedUsed = !!before && !!data && !before.usedAt && !!data.usedAt
+    && userRecord(data.usedBy)?.role === before.role && withoutUse(data) === withoutUse(before);
+  return markedUsed ? undefined : 'Invite changes were not synced: sign in again as an administrator on this device.';
+};
+
+const isOwnerOrAdmin = (viewer, therapistId) => isActiveAdmin(viewer) || (!!viewer && viewer.id === therapistId);
+const canSeeNote = (viewer, session) => isOwnerOrAdmin(viewer, session.therapistId);
+
+// Every step added to the history has to be one the viewer may take from where the month stood
+const refusePayPeriodChange = ({ id, data }, current, viewer) => {
+  const before = current?.data || { status: 'draft', history: [] };
+  const history = Array.isArray(data?.history) ? data.history : [];
+  const steps = history.slice(before.history.length);
+  const allowed = !!data && `${data.therapistId}:${data.year}-${data.month}` === id
+    && JSON.stringify(history.slice(0, before.history.length)) === JSON.stringify(before.history)
+    && data.status === (steps.length ? steps[steps.length - 1].to : before.status)
+    && steps.every((step, i) => step.from === (i ? steps[i - 1].to : before.status)
+      && PERIOD_TRANSITIONS.some(t => t.from === step.from && t.to === step.to
+        && (t.role === 'owner' ? viewer?.id === data.therapistId : isActiveAdmin(viewer))));
+  return allowed ? undefined : 'A payroll status change was not synced: only the therapist can submit or withdraw a month, and only an administrator can approve, reopen or pay it.';
+};
+
+const refuseTreatmentChange = (change, current, viewer) =>
+  isActiveAdmin(viewer) ? undefined : 'Treatment catalogue changes were not synced: sign in again as an administrator on this device.';
+
+const refusePatientChange = ({ id, data }, current, viewer) =>
+  viewer && data?.id === id ? undefined : 'Patient changes were not synced: sign in again on this device.';
+
+const refuseSessionChange = ({ id, data }, current, viewer) => {
+  const before = current?.data;
+  const allowed = !!data && data.id === id
+    && isOwnerOrAdmin(viewer, data.therapistId) && (!before || isOwnerOrAdmin(viewer, before.therapistId))
+    && (data.voidedAt === before?.voidedAt || isActiveAdmin(viewer));
+  return allowed ? undefined : `${data?.patientName || 'A'}'s session was not synced: only its therapist or an administrator can change it, and only an administrator can void it.`;
+};
+
+// Invoices are issued once, for a month that has been approved
+const refuseInvoiceChange = ({ id, data }, current, viewer) => {
+  const period = data && state.records[`payPeriod:${id}`]?.data;
+  const allowed = !!data && `${data.therapistId}:${data.year}-${data.month}` === id && !current
+    && isOwnerOrAdmin(viewer, data.therapistId) && !!period && LOCKED_STATUSES.includes(period.status);
+  return allowed ? undefined : `Invoice ${data?.number ?? id} was not synced: an invoice is issued once, by the therapist or an administrator, for an approved month.`;
+};
+
+const refuseAnalysisPolicyChange = ({ id, data }, current, viewer) =>
+  id === 'clinic' && isActiveAdmin(viewer) && isActiveAdmin(userRecord(data?.updatedBy)) ? undefined
+    : 'The analysis privacy policy was not synced: sign in again as an administrator on this device.';
+
+// The prompt log is an audit trail, so entries are added and never changed
+const refusePromptLogChange = ({ id, data }, current, viewer) =>
+  viewer && data?.id === id && (!current || JSON.stringify(current.data) === JSON.stringify(data)) ? undefined
+    : 'A logged analysis prompt was not synced: sign in again on this device.';
+
+// Why the viewer may not make a change, by record kind
+const REFUSALS = {
+  user: refuseUserChange,
+  invite: refuseInviteChange,
+  payPeriod: refusePayPeriodChange,
+  treatment: refuseTreatmentChange,
+  patient: refusePatientChange,
+  session: refuseSessionChange,
+  invoice: refuseInvoiceChange,
+  analysisPolicy: refuseAnalysisPolicyChange,
+  promptLog: refusePromptLogChange,
+};
+
+const isClosedMonth = session => {
+  const date = new Date(session.timestamp);
+  const period = state.records[`payPeriod:${session.therapistId}:${date.getFullYear()}-${date.getMonth()}`];
+  return !!period && LOCKED_STATUSES.includes(period.data.status);
+};
+
+// New sessions count as a change; so does moving one into or out of a closed month
+const changesClosedMonth = (current, session) => {
+  if (current && PAYROLL_FIELDS.every(field => current[field] === session[field])) return false;
+  return [current, session].some(s => s && isClosedMonth(s));
+};
+
+const handleSync = async ({ since = 0, changes = [], viewer: claimed }) => {
+  const accepted = [];
+  const conflicts = [];
+  const rejected = [];
+  const viewer = await identifyViewer(claimed);
+  const settingUp = !Object.values(state.records).some(record => record.kind === 'user' && isActiveAdmin(record.data));
+  const forViewer = record => record?.kind !== 'session' || settingUp || !record.data?.clinicalNote || canSeeNote(viewer, record.data)
+    ? record
+    : { ...record, data: { ...record.data, clinicalNote: undefined } };
+
+  changes.forEach(change => {
+    const key = `${change.kind}:${change.id}`;
+    const current = state.records[key];
+    // A record we no longer hold (e.g. after a reset) is simply taken as new
+    if (current && current.rev !== change.baseRev) {
+      conflicts.push(forViewer(current));
+      return;
+    }
+    if (change.kind === 'session' && changesClosedMonth(current?.data, change.data)) {
+      rejected.push({
+        kind: change.kind,
+        id: change.id,
+        reason: `${change.data.patientName}'s session on ${String(change.data.timestamp).slice(0, 10)} was not synced because payroll for that month is closed.`,
+        current: forViewer(current) || null,
+      });
+      return;
+    }
+    const refuse = REFUSALS[change.kind] || (() => `Records of kind "${change.kind}" are not synced.`);
+    const refusal = settingUp ? undefined : refuse(change, current, viewer);
+    if (refusal) {
+      // Left queued on the device, to go through once someone allowed to make it signs in there
+      rejected.push({ kind: change.kind, id: change.id, reason: refusal, current: null });
+      return;
+    }
+    let data = change.data;
+    if (change.kind === 'session' && current && !settingUp && !canSeeNote(viewer, current.data)) {
+      // This device was never sent the note, so keep ours; a note it wrote waits for someone who may write it
+      if (data.clinicalNote && JSON.stringify(data.clinicalNote) !== JSON.stringify(current.data.clinicalNote)) {
+        rejected.push({
+          kind: change.kind,
+          id: change.id,
+          reason: `The clinical note on ${data.patientName}'s session was not synced: sign in again as its therapist or an administrator on this device.`,
+          current: null,
+        });
+        return;
+      }
+      data = { ...data, clinicalNote: current.data.clinicalNote };
+    }
+    if (change.kind === 'user' && current && (change.data.passwordHash !== current.data?.passwordHash || change.data.deactivatedAt)) {
+      revokeViewerTokens(change.id);
+    }
+    const rev = ++state.rev;
+    state.records[key] = {
+      kind: change.kind,
+      id: change.id,
+      rev,
+      data,
+      // Signatures are only sent with a session's first push
+      signatureDataUrl: change.signatureDataUrl || current?.signatureDataUrl,
+    };
+    accepted.push({ kind: change.kind, id: change.id, rev });
+  });
+  // Swap a password for a token, checked against the account as it stands after this push
+  let viewerToken;
+  if (claimed?.password && await identifyViewer({ userId: claimed.userId, password: claimed.password })) {
+    viewerToken = randomBytes(32).toString('hex');
+    state.viewerTokens[digest(viewerToken).toString('hex')] = claimed.userId;
+  }
+  if (accepted.length || viewerToken) persist();
+
+  const pending = Object.values(state.records)
+    .filter(record => record.rev > since)
+    .sort((a, b) => a.rev - b.rev);
+  const page = pending.slice(0, PAGE_SIZE);
+  const more = pending.length > PAGE_SIZE;
+
+  return {
+    rev: more ? page[page.length - 1].rev : state.rev,
+    more,
+    accepted,
+    conflicts,
+    rejected,
+    changes: page.map(forViewer),
+    viewerToken,
+  };
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Request too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  // The app is served from another origin (the Vite dev server or static hosting)
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.method === 'GET' && req.url === '/health') return send(res, 200, { ok: true, rev: state.rev });
+  if (req.method !== 'POST' || req.url !== '/sync') return send(res, 404, { error: 'Not found' });
+  if (!isAuthorized(req)) return send(res, 401, { error: 'Invalid sync key' });
+
+  try {
+    const body = JSON.parse(await readBody(req));
+    send(res, 200, await handleSync(body));
+  } catch (error) {
+    send(res, 400, { error: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`PhysioTrack sync server on http://localhost:${server.address().port} (data: ${DATA_FILE})`);
+});
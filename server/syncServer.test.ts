@@ -0,0 +1,179 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { pbkdf2Sync, randomBytes } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PayPeriod, PeriodStatus, Session, SyncChange, SyncKind, SyncResponse, SyncViewer } from '../types';
+
+const SYNC_KEY = 'test-key';
+
+// Same format as cryptoService, with few iterations to keep the tests quick
+const hashPassword = (password: string) => {
+  const salt = randomBytes(16);
+  return `pbkdf2$1000$${salt.toString('base64')}$${pbkdf2Sync(password, salt, 1000, 32, 'sha256').toString('base64')}`;
+};
+
+const USERS = [
+  { id: 'admin-1', username: 'admin', name: 'Admin', role: 'admin', passwordHash: hashPassword('physio123'), updatedBy: 'admin-1' },
+  { id: 'user-1', username: 'jane', name: 'Jane Doe', role: 'therapist', passwordHash: hashPassword('password'), updatedBy: 'admin-1' },
+  { id: 'user-2', username: 'mark', name: 'Mark Smith', role: 'therapist', passwordHash: hashPassword('password'), updatedBy: 'admin-1' },
+];
+
+const ADMIN: SyncViewer = { userId: 'admin-1', password: 'physio123' };
+const JANE: SyncViewer = { userId: 'user-1', password: 'password' };
+const MARK: SyncViewer = { userId: 'user-2', password: 'password' };
+
+let child: ChildProcess;
+let dataDir: string;
+let url: string;
+
+// Server revisions of the records pushed so far, so each change is made on the current one
+let revs: Record<string, number>;
+
+const sync = async (viewer: SyncViewer | undefined, changes: Omit<SyncChange, 'baseRev'>[]): Promise<SyncResponse> => {
+  const response = await fetch(`${url}/sync`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${SYNC_KEY}` },
+    body: JSON.stringify({ since: 0, viewer, changes: changes.map(c => ({ ...c, baseRev: revs[`${c.kind}:${c.id}`] ?? 0 })) }),
+  });
+  const body: SyncResponse = await response.json();
+  body.accepted.forEach(({ kind, id, rev }) => { revs[`${kind}:${id}`] = rev; });
+  return body;
+};
+
+const push = (viewer: SyncViewer | undefined, kind: SyncKind, id: string, data: unknown) => sync(viewer, [{ kind, id, data }]);
+
+const session = (id: string, extra: Partial<Session> = {}): Session => ({
+  id,
+  therapistId: 'user-1',
+  therapistName: 'Jane Doe',
+  patientId: 'p-ann',
+  patientName: 'Ann Lee',
+  treatmentType: 'Sports Massage',
+  durationMinutes: 60,
+  timestamp: '2025-01-06T12:00:00.000Z',
+  ...extra,
+});
+
+// Jane's January, taken through each [status, user id] step in turn
+const period = (steps: [PeriodStatus, string][]): PayPeriod => ({
+  therapistId: 'user-1',
+  month: 0,
+  year: 2025,
+  status: steps.length ? steps[steps.length - 1][0] : 'draft',
+  history: steps.map(([to, by], i) => ({ from: i ? steps[i - 1][0] : 'draft', to, at: '2025-02-01T00:00:00.000Z', by, byName: by })),
+});
+
+const PERIOD_ID = 'user-1:2025-0';
+
+beforeEach(async () => {
+  revs = {};
+  dataDir = mkdtempSync(join(tmpdir(), 'physiotrack-sync-'));
+  child = spawn(process.execPath, ['server/syncServer.mjs', '--port', '0', '--data', join(dataDir, 'sync-data.json')], {
+    env: { ...process.env, SYNC_KEY, TZ: 'UTC' },
+  });
+  url = await new Promise<string>((resolve, reject) => {
+    child.stdout!.on('data', chunk => {
+      const match = String(chunk).match(/http:\/\/localhost:(\d+)/);
+      if (match) resolve(`http://localhost:${match[1]}`);
+    });
+    child.on('exit', code => reject(new Error(`Sync server exited with ${code}`)));
+  });
+  // The first device to sync sends every account it holds
+  await sync(undefined, USERS.map(user => ({ kind: 'user', id: user.id, data: user })));
+});
+
+afterEach(() => {
+  child.kill();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('pay periods', () => {
+  it('can only be submitted by the therapist and approved by an administrator', async () => {
+    expect((await push(MARK, 'payPeriod', PERIOD_ID, period([['submitted', 'user-2']]))).rejected).toHaveLength(1);
+    expect((await push(JANE, 'payPeriod', PERIOD_ID, period([['submitted', 'user-1']]))).accepted).toHaveLength(1);
+
+    const selfApproved = await push(JANE, 'payPeriod', PERIOD_ID, period([['submitted', 'user-1'], ['approved', 'user-1']]));
+    expect(selfApproved.accepted).toHaveLength(0);
+    expect(selfApproved.rejected).toEqual([expect.objectContaining({ kind: 'payPeriod', id: PERIOD_ID, current: null })]);
+
+    expect((await push(ADMIN, 'payPeriod', PERIOD_ID, period([['submitted', 'user-1'], ['approved', 'admin-1']]))).accepted).toHaveLength(1);
+  });
+
+  it('can only be reopened or paid by an administrator', async () => {
+    await push(JANE, 'payPeriod', PERIOD_ID, period([['submitted', 'user-1']]));
+    await push(ADMIN, 'payPeriod', PERIOD_ID, period([['submitted', 'user-1'], ['approved', 'admin-1']]));
+
+    const reopened = period([['submitted', 'user-1'], ['approved', 'admin-1'], ['draft', 'user-1']]);
+    expect((await push(JANE, 'payPeriod', PERIOD_ID, reopened)).rejected).toHaveLength(1);
+    const paid = period([['submitted', 'user-1'], ['approved', 'admin-1'], ['paid', 'user-1']]);
+    expect((await push(JANE, 'payPeriod', PERIOD_ID, paid)).rejected).toHaveLength(1);
+    // Nor can the history be rewritten to skip approval
+    expect((await push(JANE, 'payPeriod', PERIOD_ID, { ...period([['submitted', 'user-1']]), status: 'paid' })).rejected).toHaveLength(1);
+
+    expect((await push(ADMIN, 'payPeriod', PERIOD_ID, paid)).accepted).toHaveLength(1);
+  });
+});
+
+describe('treatments', () => {
+  it('can only be changed by an administrator', async () => {
+    const treatment = { id: 'Sports Massage', name: 'Sports Massage', allowedDurations: [30], defaultDuration: 30, color: '#0d9488', active: true };
+
+    expect((await push(JANE, 'treatment', treatment.id, treatment)).rejected).toEqual([expect.objectContaining({ current: null })]);
+    expect((await push(ADMIN, 'treatment', treatment.id, treatment)).accepted).toHaveLength(1);
+  });
+});
+
+describe('sessions', () => {
+  it('can only be changed by their therapist or an administrator', async () => {
+    expect((await push(MARK, 'session', 's1', session('s1'))).rejected).toHaveLength(1);
+    expect((await push(JANE, 'session', 's1', session('s1'))).accepted).toHaveLength(1);
+
+    expect((await push(MARK, 'session', 's1', session('s1', { durationMinutes: 45 }))).rejected).toHaveLength(1);
+    // Handing a session to another therapist needs the current one too
+    expect((await push(MARK, 'session', 's1', session('s1', { therapistId: 'user-2', therapistName: 'Mark Smith' }))).rejected).toHaveLength(1);
+    expect((await push(ADMIN, 'session', 's1', session('s1', { durationMinutes: 45 }))).accepted).toHaveLength(1);
+  });
+
+  it('can only be voided by an administrator', async () => {
+    await push(JANE, 'session', 's1', session('s1'));
+
+    const voided = session('s1', { voidedAt: '2025-01-07T09:00:00.000Z' });
+    expect((await push(JANE, 'session', 's1', voided)).rejected).toHaveLength(1);
+    expect((await push(ADMIN, 'session', 's1', voided)).accepted).toHaveLength(1);
+  });
+
+  it('are refused in a closed month, with the server copy to take instead', async () => {
+    await push(JANE, 'session', 's1', session('s1'));
+    await push(JANE, 'payPeriod', PERIOD_ID, period([['submitted', 'user-1']]));
+    await push(ADMIN, 'payPeriod', PERIOD_ID, period([['submitted', 'user-1'], ['approved', 'admin-1']]));
+
+    const edited = await push(ADMIN, 'session', 's1', session('s1', { durationMinutes: 45 }));
+    expect(edited.accepted).toHaveLength(0);
+    expect(edited.rejected).toEqual([{
+      kind: 'session',
+      id: 's1',
+      reason: "Ann Lee's session on 2025-01-06 was not synced because payroll for that month is closed.",
+      current: expect.objectContaining({ data: expect.objectContaining({ durationMinutes: 60 }) }),
+    }]);
+    expect((await push(JANE, 'session', 's2', session('s2', { timestamp: '2025-01-20T12:00:00.000Z' }))).rejected)
+      .toEqual([expect.objectContaining({ id: 's2', current: null })]);
+    // Fields pay isn't worked out from can still change
+    expect((await push(JANE, 'session', 's1', session('s1', { notes: 'Follow up in two weeks' }))).accepted).toHaveLength(1);
+  });
+});
+
+describe('invoices', () => {
+  const invoice = { id: 'inv-1', number: 'INV-2025-3FA2-0001', therapistId: 'user-1', therapistName: 'Jane Doe', month: 0, year: 2025 };
+
+  it('can only be issued once the month is approved, by the therapist or an administrator, and only once', async () => {
+    expect((await push(JANE, 'invoice', PERIOD_ID, invoice)).rejected).toHaveLength(1);
+    await push(JANE, 'payPeriod', PERIOD_ID, period([['submitted', 'user-1']]));
+    await push(ADMIN, 'payPeriod', PERIOD_ID, period([['submitted', 'user-1'], ['approved', 'admin-1']]));
+
+    expect((await push(MARK, 'invoice', PERIOD_ID, invoice)).rejected).toHaveLength(1);
+    expect((await push(JANE, 'invoice', PERIOD_ID, invoice)).accepted).toHaveLength(1);
+    expect((await push(ADMIN, 'invoice', PERIOD_ID, { ...invoice, number: 'INV-2025-3FA2-0002' })).rejected).toHaveLength(1);
+  });
+});
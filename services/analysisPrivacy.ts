@@ -0,0 +1,115 @@
+// Keeps patient identities out of analysis prompts. Before a request goes to a language model, patient
+// and therapist names are swapped for pseudonyms ("Patient 3", "Therapist B") and the answer gets the
+// real names back, so the provider never learns who was treated. Aggregate mode also drops the session
+// list and sends totals only.
+
+import { AnalysisPrivacy, AnalysisRequest, PayrollAnalysis, Session } from '../types';
+
+export const PRIVACY_MODES: { id: AnalysisPrivacy; label: string; description: string }[] = [
+  { id: 'names', label: 'Real names', description: 'Patient and therapist names are sent with each session.' },
+  { id: 'pseudonyms', label: 'Pseudonyms', description: 'Names are sent as "Patient 1", "Therapist A" and so on, and put back in the answer.' },
+  { id: 'aggregate', label: 'Totals only', description: 'No session list is sent, only totals per treatment and per (pseudonymous) therapist.' },
+];
+
+export interface Pseudonyms {
+  sessions: Session[]; // with pseudonyms in place of names, also in notes, and no clinical notes or signatures
+  conceal: (text: string) => string; // swaps names typed in free text, e.g. a question, for pseudonyms
+  reveal: (text: string) => string; // puts the real names back into text written from the above
+}
+
+export interface Redaction {
+  request: AnalysisRequest; // safe to send under the chosen mode
+  reveal: (text: string) => string; // puts the real names back into text written from `request`
+}
+
+const PSEUDONYM_PATTERN = /\b(?:Patient \d+|Therapist [A-Z]+)\b/g;
+
+// A, B, … Z, AA, AB, …
+const letters = (index: number): string =>
+  (index >= 26 ? letters(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+// Numbered in order of id rather than of appearance, so the same people get the same pseudonyms
+// however the sessions are sorted
+const assignPseudonyms = (sessions: Session[], key: (s: Session) => string, name: (index: number) => string): Map<string, string> => {
+  const keys = Array.from(new Set(sessions.map(key))).sort();
+  return new Map(keys.map((k, i) => [k, name(i)]));
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const pseudonymise = (sessions: Session[]): Pseudonyms => {
+  const patientKey = (s: Session) => s.patientId || s.patientName;
+  const patients = assignPseudonyms(sessions, patientKey, i => `Patient ${i + 1}`);
+  const therapists = assignPseudonyms(sessions, s => s.therapistId, i => `Therapist ${letters(i)}`);
+  const realNames = new Map<string, string>();
+  const typedNames = new Map<string, string>(); // lower-case name → pseudonym
+
+  sessions.forEach(s => {
+    const patient = patients.get(patientKey(s))!;
+    const therapist = therapists.get(s.therapistId)!;
+    realNames.set(patient, s.patientName);
+    realNames.set(therapist, s.therapistName);
+    typedNames.set(s.patientName.trim().toLowerCase(), patient);
+    typedNames.set(s.therapistName.trim().toLowerCase(), therapist);
+  });
+
+  // People are often asked about by first name ("sessions Mark logged", "when Ann last came in"), so those
+  // count too when only one patient or therapist has it. Only as capitalised, though: "May" and "Will" are
+  // also words, and "sessions in may" isn't about anyone
+  const firstNames = new Map<string, string[]>();
+  realNames.forEach((name, pseudonym) => {
+    const first = name.trim().split(/\s+/)[0];
+    if (/^\p{Lu}/u.test(first)) firstNames.set(first, [...(firstNames.get(first) || []), pseudonym]);
+  });
+  const typedFirstNames = new Map<string, string>(); // first name as written → pseudonym
+  firstNames.forEach((pseudonyms, first) => {
+    if (pseudonyms.length === 1 && !typedNames.has(first.toLowerCase())) typedFirstNames.set(first, pseudonyms[0]);
+  });
+
+  // Longest first, so "Mark Smith" is replaced whole before "Mark" is tried
+  const namePattern = (names: Map<string, string>, flags: string) => names.size
+    ? new RegExp(`\\b(?:${Array.from(names.keys()).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})\\b`, flags)
+    : null;
+  const fullPattern = namePattern(typedNames, 'gi');
+  const firstPattern = namePattern(typedFirstNames, 'g');
+
+  const conceal = (text: string) => {
+    const full = fullPattern ? text.replace(fullPattern, name => typedNames.get(name.toLowerCase()) ?? name) : text;
+    return firstPattern ? full.replace(firstPattern, name => typedFirstNames.get(name) ?? name) : full;
+  };
+
+  const redacted = sessions.map(({ signatureDataUrl, clinicalNote, notes, ...s }): Session => {
+    const patient = patients.get(patientKey(s))!;
+    return {
+      ...s,
+      patientId: patient,
+      patientName: patient,
+      therapistName: therapists.get(s.therapistId)!,
+      ...(notes ? { notes: conceal(notes) } : {}),
+    };
+  });
+
+  return {
+    sessions: redacted,
+    conceal,
+    reveal: text => text.replace(PSEUDONYM_PATTERN, pseudonym => realNames.get(pseudonym) ?? pseudonym),
+  };
+};
+
+export const redactRequest = (request: AnalysisRequest, privacy: AnalysisPrivacy): Redaction => {
+  if (privacy === 'names') return { request, reveal: text => text };
+
+  const { sessions, reveal } = pseudonymise(request.sessions);
+  return {
+    request: { ...request, sessions, ...(privacy === 'aggregate' ? { aggregateOnly: true } : {}) },
+    reveal,
+  };
+};
+
+export const revealAnalysis = (analysis: PayrollAnalysis, reveal: (text: string) => string): PayrollAnalysis => ({
+  greeting: reveal(analysis.greeting),
+  workloadSummary: reveal(analysis.workloadSummary),
+  observations: analysis.observations.map(reveal),
+  invoiceText: reveal(analysis.invoiceText),
+  figures: analysis.figures.map(f => ({ ...f, label: reveal(f.label), ...(f.subject ? { subject: reveal(f.subject) } : {}) })),
+});
@@ -0,0 +1,92 @@
+// Payroll analysis can be written by a hosted model, any OpenAI-compatible server (including a local
+// Ollama) or an offline template. Every provider answers the same request with the same sections.
+
+import { AnalysisProviderId, AnalysisRequest, AnalysisSettings, Session } from '../types';
+import { treatmentName } from './treatmentCatalogue';
+import { formatMoney } from './payrollService';
+import { dateKey } from './reportPeriods';
+import { ANALYSIS_JSON_SCHEMA, FIGURE_METRICS } from './analysisReport';
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  // Resolves to the raw answer, JSON in the shape of ANALYSIS_JSON_SCHEMA; rejects with a message
+  // fit to show the user when the provider can't answer
+  analyze(request: AnalysisRequest): Promise<string>;
+  // Answers any prompt with JSON matching `schema`, e.g. a question turned into a query (see sessionQuery).
+  // Only language models have it; the offline template can't read a question.
+  complete?(prompt: string, schema: object): Promise<string>;
+}
+
+export const ANALYSIS_PROVIDERS: { id: AnalysisSettings['provider']; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Hosted by Google. Needs an API key.' },
+  { id: 'openai', label: 'OpenAI-compatible endpoint', description: 'OpenAI, Ollama, LM Studio or any server with a /chat/completions API.' },
+  { id: 'template', label: 'Offline summary', description: 'Written on this device from the figures alone. No data leaves the device.' },
+];
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  provider: 'gemini',
+  geminiApiKey: '',
+  geminiModel: 'gemini-2.5-flash',
+  endpointUrl: 'http://localhost:11434/v1',
+  endpointModel: 'llama3.1',
+  endpointApiKey: '',
+  fallbackToTemplate: true,
+  privacy: 'pseudonyms',
+};
+
+export const providerLabel = (id: AnalysisProviderId): string =>
+  id === 'replay' ? 'Recorded responses' : ANALYSIS_PROVIDERS.find(p => p.id === id)?.label || id;
+
+// Totals in place of the session list, for requests that may not describe individual sessions
+const summarizeTotals = (sessions: Session[], treatment: (s: Session) => string): string => {
+  const totals = (key: (s: Session) => string) => {
+    const groups = new Map<string, { count: number; minutes: number }>();
+    sessions.forEach(s => {
+      const group = groups.get(key(s)) || { count: 0, minutes: 0 };
+      group.count++;
+      group.minutes += s.durationMinutes;
+      groups.set(key(s), group);
+    });
+    return Array.from(groups.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+  };
+  const minutes = sessions.reduce((sum, s) => sum + s.durationMinutes, 0);
+  return [
+    `- Sessions: ${sessions.length}, Duration: ${minutes} mins, Different patients: ${new Set(sessions.map(s => s.patientId || s.patientName)).size}`,
+    ...totals(treatment).map(([name, t]) => `- Type: ${name}, Sessions: ${t.count}, Duration: ${t.minutes} mins`),
+    ...totals(s => s.therapistName).map(([name, t]) => `- Therapist: ${name}, Sessions: ${t.count}, Duration: ${t.minutes} mins`),
+  ].join('\n');
+};
+
+// The prompt sent to language model providers. Replayed recordings are matched on it, so changing
+// the wording means recording new responses (see analysisRecorder). Dates are written as YYYY-MM-DD
+// rather than in the browser's locale, so the same request gives the same prompt on every device.
+export const buildAnalysisPrompt = ({ sessions, periodLabel, treatments, grossPay, aggregateOnly }: AnalysisRequest): string => {
+  const sessionSummary = aggregateOnly
+    ? summarizeTotals(sessions, s => treatmentName(treatments, s.treatmentType))
+    : sessions.map(s =>
+        `- Date: ${dateKey(new Date(s.timestamp))}, Therapist: ${s.therapistName}, Patient: ${s.patientName}, Type: ${treatmentName(treatments, s.treatmentType)}, Duration: ${s.durationMinutes} mins`
+      ).join('\n');
+  const metrics = FIGURE_METRICS.map(m => `    - ${m.metric}: ${m.description}`).join('\n');
+
+  return `
+    You are a payroll assistant for a freelance physiotherapy clinic.
+    Analyze the following ${aggregateOnly ? 'totals for the' : 'list of'} completed treatment sessions for ${periodLabel}.
+    Gross pay for these sessions is ${formatMoney(grossPay)}.
+
+    Data:
+    ${sessionSummary}
+
+    Write a professional, friendly and concise executive summary that the employer can use for payroll processing.
+    Answer with a single JSON object and nothing else, matching this JSON Schema:
+    ${JSON.stringify(ANALYSIS_JSON_SCHEMA)}
+
+    - greeting: a brief greeting.
+    - workloadSummary: the total workload, highlighting the mix between treatment types.
+    - observations: notable observations (e.g. "High volume of sports massage this period").
+    - invoiceText: an "Invoice Description" snippet the freelancer could paste into their invoice.
+    - figures: every number you quote in the fields above, with the metric it refers to:
+${metrics}
+
+    Use plain text in every field, without Markdown. Do not repeat the raw data list.
+  `;
+};
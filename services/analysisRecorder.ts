@@ -0,0 +1,48 @@
+// Recorded-response harness for analysis providers. Wrap a real provider with recordingProvider to
+// capture what it answered for each prompt, save the recordings as JSON, then run the same requests
+// through replayProvider to check prompt and handling changes against real answers without a network
+// or an API key.
+
+import { AnalysisProviderId, AnalysisRequest } from '../types';
+import { AnalysisProvider, buildAnalysisPrompt } from './analysisProvider';
+
+export interface AnalysisRecording {
+  provider: AnalysisProviderId;
+  prompt: string;
+  response: string;
+  recordedAt: string; // ISO string
+}
+
+// Passes requests through to `provider`, appending each answer to `recordings`
+export const recordingProvider = (provider: AnalysisProvider, recordings: AnalysisRecording[]): AnalysisProvider => {
+  const record = (prompt: string, response: string) => {
+    recordings.push({ provider: provider.id, prompt, response, recordedAt: new Date().toISOString() });
+    return response;
+  };
+  const { complete } = provider;
+
+  return {
+    id: provider.id,
+    analyze: async (request) => record(buildAnalysisPrompt(request), await provider.analyze(request)),
+    ...(complete ? { complete: async (prompt: string, schema: object) => record(prompt, await complete(prompt, schema)) } : {}),
+  };
+};
+
+// Answers from recordings only. A request whose prompt was never recorded fails, rather than
+// silently passing with a stale answer. It has its own provider id rather than the recorded one, so
+// replayed requests are redacted and logged exactly as they would be for a live model.
+export const replayProvider = (recordings: AnalysisRecording[]): AnalysisProvider => {
+  const replay = async (prompt: string) => {
+    const recording = recordings.find(r => r.prompt === prompt);
+    if (!recording) {
+      throw new Error('No recorded response matches this request. Record it again against a live provider.');
+    }
+    return recording.response;
+  };
+
+  return {
+    id: 'replay',
+    analyze: (request: AnalysisRequest) => replay(buildAnalysisPrompt(request)),
+    complete: replay,
+  };
+};
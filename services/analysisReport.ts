@@ -0,0 +1,155 @@
+// The analysis is requested as JSON in the shape below, then parsed and its quoted figures checked
+// against the numbers computed from the same sessions, so a model can't slip a wrong total into a report.
+
+import { AnalysisRequest, FigureCheck, FigureMetric, PayrollAnalysis, QuotedFigure } from '../types';
+import { treatmentName } from './treatmentCatalogue';
+
+export const FIGURE_METRICS: { metric: FigureMetric; description: string }[] = [
+  { metric: 'total_sessions', description: 'number of sessions in the period' },
+  { metric: 'total_hours', description: 'hours treated in the period' },
+  { metric: 'gross_pay', description: 'gross pay for the period' },
+  { metric: 'patients', description: 'number of different patients' },
+  { metric: 'treatment_sessions', description: 'sessions of one treatment type, named in subject' },
+  { metric: 'therapist_sessions', description: 'sessions by one therapist, named in subject' },
+  { metric: 'therapist_hours', description: 'hours by one therapist, named in subject' },
+  { metric: 'other', description: 'any other number' },
+];
+
+// Plain JSON Schema, accepted by Gemini's responseJsonSchema and quoted in the prompt for other providers
+export const ANALYSIS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    greeting: { type: 'string' },
+    workloadSummary: { type: 'string', description: 'Total workload and the mix between treatment types' },
+    observations: { type: 'array', items: { type: 'string' } },
+    invoiceText: { type: 'string', description: 'Invoice description the freelancer can paste into their invoice' },
+    figures: {
+      type: 'array',
+      description: 'Every number quoted in the text above',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string' },
+          metric: { type: 'string', enum: FIGURE_METRICS.map(m => m.metric) },
+          subject: { type: 'string' },
+          value: { type: 'number' },
+        },
+        required: ['label', 'metric', 'value'],
+      },
+    },
+  },
+  required: ['greeting', 'workloadSummary', 'observations', 'invoiceText', 'figures'],
+};
+
+// Quoted hours may be rounded to one decimal place, so 2.25 h quoted as 2.3 still matches
+const HOURS_TOLERANCE = 0.05;
+const MONEY_TOLERANCE = 0.005;
+
+export interface AnalysisFacts {
+  totalSessions: number;
+  totalHours: number;
+  grossPay: number;
+  patients: number;
+  treatmentSessions: Record<string, number>; // keyed by lower-case treatment name
+  therapistSessions: Record<string, number>; // keyed by lower-case therapist name
+  therapistHours: Record<string, number>;
+}
+
+export const analysisFacts = ({ sessions, treatments, grossPay }: AnalysisRequest): AnalysisFacts => {
+  const facts: AnalysisFacts = {
+    totalSessions: sessions.length,
+    totalHours: sessions.reduce((sum, s) => sum + s.durationMinutes, 0) / 60,
+    grossPay,
+    patients: new Set(sessions.map(s => s.patientId || s.patientName)).size,
+    treatmentSessions: {},
+    therapistSessions: {},
+    therapistHours: {},
+  };
+  sessions.forEach(s => {
+    const treatment = treatmentName(treatments, s.treatmentType).toLowerCase();
+    const therapist = s.therapistName.toLowerCase();
+    facts.treatmentSessions[treatment] = (facts.treatmentSessions[treatment] || 0) + 1;
+    facts.therapistSessions[therapist] = (facts.therapistSessions[therapist] || 0) + 1;
+    facts.therapistHours[therapist] = (facts.therapistHours[therapist] || 0) + s.durationMinutes / 60;
+  });
+  return facts;
+};
+
+const expectedValue = (figure: QuotedFigure, facts: AnalysisFacts): number | undefined => {
+  const subject = figure.subject?.trim().toLowerCase() || '';
+  switch (figure.metric) {
+    case 'total_sessions': return facts.totalSessions;
+    case 'total_hours': return facts.totalHours;
+    case 'gross_pay': return facts.grossPay;
+    case 'patients': return facts.patients;
+    // A subject that names nothing in the period was made up, so it counts as zero
+    case 'treatment_sessions': return subject ? facts.treatmentSessions[subject] || 0 : undefined;
+    case 'therapist_sessions': return subject ? facts.therapistSessions[subject] || 0 : undefined;
+    case 'therapist_hours': return subject ? facts.therapistHours[subject] || 0 : undefined;
+    case 'other': return undefined;
+  }
+};
+
+const tolerance = (metric: FigureMetric): number => {
+  if (metric === 'total_hours' || metric === 'therapist_hours') return HOURS_TOLERANCE;
+  if (metric === 'gross_pay') return MONEY_TOLERANCE;
+  return 0;
+};
+
+export const checkFigures = (figures: QuotedFigure[], facts: AnalysisFacts): FigureCheck[] =>
+  figures.map(figure => {
+    const expected = expectedValue(figure, facts);
+    if (expected === undefined) return { figure, status: 'unchecked' };
+    const matches = Math.abs(figure.value - expected) <= tolerance(figure.metric) + 1e-9;
+    return { figure, status: matches ? 'match' : 'mismatch', expected: Math.round(expected * 100) / 100 };
+  });
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string') throw new Error(`"${field}" is missing or not text.`);
+  return value.trim();
+};
+
+// Models sometimes quote numbers as text, e.g. "£1,240.50" or "12.5 hours"
+const toNumber = (value: unknown, field: string): number => {
+  const text = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.replace(/[^0-9.\-]/g, '') : '';
+  const n = Number(text);
+  if (!text || !Number.isFinite(n)) throw new Error(`"${field}" is not a number.`);
+  return n;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFigureMetric = (value: unknown): value is FigureMetric => FIGURE_METRICS.some(m => m.metric === value);
+
+// Throws with the reason when the answer isn't the JSON asked for
+export const parseAnalysis = (raw: string): PayrollAnalysis => {
+  // Tolerate a Markdown code fence around the JSON
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The answer was not valid JSON.');
+  }
+  if (!isObject(data)) throw new Error('The answer was not a JSON object.');
+  if (!Array.isArray(data.observations)) throw new Error('"observations" is missing or not a list.');
+  if (!Array.isArray(data.figures)) throw new Error('"figures" is missing or not a list.');
+
+  return {
+    greeting: requireString(data.greeting, 'greeting'),
+    workloadSummary: requireString(data.workloadSummary, 'workloadSummary'),
+    observations: data.observations.map((o: unknown, i: number) => requireString(o, `observations[${i}]`)),
+    invoiceText: requireString(data.invoiceText, 'invoiceText'),
+    figures: data.figures.map((f: unknown, i: number): QuotedFigure => {
+      if (!isObject(f)) throw new Error(`"figures[${i}]" is not an object.`);
+      return {
+        label: requireString(f.label, `figures[${i}].label`),
+        // An unknown metric is kept as an unchecked figure rather than failing the whole report
+        metric: isFigureMetric(f.metric) ? f.metric : 'other',
+        subject: typeof f.subject === 'string' && f.subject.trim() ? f.subject.trim() : undefined,
+        value: toNumber(f.value, `figures[${i}].value`),
+      };
+    }),
+  };
+};
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisRequest, AnalysisSettings, Session } from '../types';
+import { dbService } from './dbService';
+import { askSessionQuestion, generatePayrollAnalysis } from './analysisService';
+import { AnalysisRecording, replayProvider } from './analysisRecorder';
+import { DEFAULT_ANALYSIS_SETTINGS } from './analysisProvider';
+import { DEFAULT_TREATMENTS } from './treatmentCatalogue';
+import recordings from './__fixtures__/analysis-recordings.json';
+
+// Only the prompt log is used; the real service needs IndexedDB
+vi.mock('./dbService', () => ({ dbService: { logAnalysisPrompt: vi.fn() } }));
+
+// The fixtures are in the format recordingProvider writes. Their prompts are built from REQUEST below, so
+// changing either the prompt wording or REQUEST means recording them again.
+const RECORDINGS = recordings as AnalysisRecording[];
+
+const session = (id: string, therapist: 1 | 2, patient: 1 | 2, treatmentType: string, durationMinutes: number, day: string): Session => ({
+  id,
+  therapistId: `user-${therapist}`,
+  therapistName: therapist === 1 ? 'Jane Doe' : 'Mark Smith',
+  patientId: `p-${patient}`,
+  patientName: patient === 1 ? 'John Doe' : 'Ann Lee',
+  treatmentType,
+  durationMinutes,
+  timestamp: `2025-01-${day}T12:00:00.000Z`,
+  signed: true,
+});
+
+const REQUEST: AnalysisRequest = {
+  sessions: [
+    session('s1', 1, 1, 'Sports Massage', 60, '06'),
+    session('s2', 1, 2, 'Physiotherapy', 45, '08'),
+    session('s3', 2, 1, 'Sports Massage', 40, '13'),
+    session('s4', 1, 1, 'Sports Massage', 60, '20'),
+  ],
+  periodLabel: 'January 2025',
+  treatments: DEFAULT_TREATMENTS,
+  grossPay: 262.5,
+};
+
+const REAL_NAMES = /Jane Doe|Mark Smith|John Doe|Ann Lee|\bJane\b/;
+
+const settings = (changes: Partial<AnalysisSettings> = {}): AnalysisSettings =>
+  ({ ...DEFAULT_ANALYSIS_SETTINGS, fallbackToTemplate: false, ...changes });
+
+const loggedPrompts = () => vi.mocked(dbService.logAnalysisPrompt).mock.calls.map(([, entry]) => entry);
+
+describe('generatePayrollAnalysis with recorded responses', () => {
+  beforeEach(() => {
+    vi.mocked(dbService.logAnalysisPrompt).mockClear();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it('parses the answer, puts the real names back and checks every figure', async () => {
+    const result = await generatePayrollAnalysis(REQUEST, 'admin-1', settings(), replayProvider(RECORDINGS));
+
+    expect(result.provider).toBe('replay');
+    expect(result.parseError).toBeUndefined();
+    expect(result.analysis!.observations).toEqual([
+      'Jane Doe delivered 3 of the 4 sessions.',
+      'John Doe came back three times this month.',
+    ]);
+    expect(result.analysis!.figures.find(f => f.metric === 'gross_pay')!.value).toBe(262.5);
+    expect(result.analysis!.figures.find(f => f.metric === 'therapist_sessions')!.subject).toBe('Jane Doe');
+    expect(result.checks.map(c => c.status)).toEqual(['match', 'match', 'match', 'match', 'match']);
+  });
+
+  it('sends and logs pseudonyms only', async () => {
+    await generatePayrollAnalysis(REQUEST, 'admin-1', settings(), replayProvider(RECORDINGS));
+
+    const [entry] = loggedPrompts();
+    expect(loggedPrompts()).toHaveLength(1);
+    expect(entry).toMatchObject({ provider: 'replay', destination: 'recorded responses', privacy: 'pseudonyms' });
+    expect(entry.prompt).toBe(RECORDINGS[0].prompt); // exactly what the provider answered
+    expect(entry.prompt).toContain('Therapist A');
+    expect(entry.prompt).not.toMatch(REAL_NAMES);
+  });
+
+  it('sends totals only under the aggregate policy and flags figures that are wrong', async () => {
+    const result = await generatePayrollAnalysis(REQUEST, 'admin-1', settings({ privacy: 'aggregate' }), replayProvider(RECORDINGS));
+
+    expect(loggedPrompts()[0].prompt).not.toContain('Date:');
+    expect(loggedPrompts()[0].prompt).not.toMatch(REAL_NAMES);
+    // The answer came in a Markdown code fence, which is tolerated
+    expect(result.checks.map(c => [c.figure.subject ?? c.figure.label, c.status, c.expected])).toEqual([
+      ['Gross pay', 'mismatch', 262.5],
+      ['Mark Smith', 'match', 0.67],
+    ]);
+  });
+
+  it('keeps an answer that is not JSON as text, with the reason', async () => {
+    const result = await generatePayrollAnalysis(REQUEST, 'admin-1', settings({ privacy: 'names' }), replayProvider(RECORDINGS));
+
+    expect(loggedPrompts()[0].prompt).toContain('Jane Doe');
+    expect(result.analysis).toBeUndefined();
+    expect(result.parseError).toBe('The answer was not valid JSON.');
+    expect(result.text).toContain('Jane Doe had a busy month');
+  });
+
+  it('still redacts and logs when nothing was recorded, then reports the missing recording', async () => {
+    const result = await generatePayrollAnalysis(REQUEST, 'admin-1', settings(), replayProvider([]));
+
+    expect(loggedPrompts()).toHaveLength(1);
+    expect(loggedPrompts()[0].prompt).not.toMatch(REAL_NAMES);
+    expect(result.provider).toBe('replay');
+    expect(result.text).toContain('No recorded response matches this request.');
+  });
+
+  it('falls back to the offline summary when allowed', async () => {
+    const result = await generatePayrollAnalysis(REQUEST, 'admin-1', settings({ fallbackToTemplate: true }), replayProvider([]));
+
+    expect(result.provider).toBe('template');
+    expect(result.fallbackReason).toContain('No recorded response matches this request.');
+    expect(result.checks.every(c => c.status !== 'mismatch')).toBe(true);
+  });
+});
+
+describe('askSessionQuestion with recorded responses', () => {
+  beforeEach(() => {
+    vi.mocked(dbService.logAnalysisPrompt).mockClear();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-02-03T12:00:00.000Z')); // the prompt includes today's date
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('asks with pseudonyms and answers with the stored names', async () => {
+    const answer = await askSessionQuestion(
+      'How many sessions did Jane do in January, by treatment?',
+      REQUEST.sessions,
+      REQUEST.treatments,
+      'admin-1',
+      settings(),
+      replayProvider(RECORDINGS)
+    );
+
+    expect(loggedPrompts()[0].prompt).not.toMatch(REAL_NAMES);
+    expect(answer.error).toBeUndefined();
+    expect(answer.spec).toEqual({
+      groupBy: 'treatment',
+      metric: 'sessions',
+      sort: 'desc',
+      from: '2025-01-01',
+      to: '2025-01-31',
+      therapists: ['Jane Doe'],
+    });
+  });
+
+  it('conceals patients asked about by first name too', async () => {
+    await askSessionQuestion('When did Ann last come in?', REQUEST.sessions, REQUEST.treatments, 'admin-1', settings(), replayProvider([]));
+
+    expect(loggedPrompts()[0].prompt).toContain('When did Patient 2 last come in?');
+  });
+});
@@ -0,0 +1,144 @@
+import { AnalysisRequest, AnalysisResult, AnalysisSettings, Session, SessionQueryAnswer, Treatment } from '../types';
+import { dbService } from './dbService';
+import { AnalysisProvider, buildAnalysisPrompt, providerLabel } from './analysisProvider';
+import { createGeminiProvider } from './geminiService';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleService';
+import { templateProvider } from './analysisTemplate';
+import { analysisFacts, checkFigures, parseAnalysis } from './analysisReport';
+import { sha256Hex } from './cryptoService';
+import { pseudonymise, redactRequest, revealAnalysis } from './analysisPrivacy';
+import { QUERY_JSON_SCHEMA, buildQueryPrompt, parseQuerySpec, queryVocabulary } from './sessionQuery';
+import { dateKey } from './reportPeriods';
+
+// Hosted and local models can both stall; give up and fall back rather than leave the button spinning
+const PROVIDER_TIMEOUT_MS = 60_000;
+
+export const createAnalysisProvider = (settings: AnalysisSettings): AnalysisProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider(settings);
+    case 'openai':
+      return createOpenAiCompatibleProvider(settings);
+    case 'template':
+      return templateProvider;
+  }
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, message: string): Promise<T> =>
+  Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error(message)), ms)),
+  ]);
+
+// Parses the answer, puts real names back and checks its figures; an answer that isn't the JSON asked
+// for is kept as raw text
+const readAnswer = (
+  text: string,
+  request: AnalysisRequest,
+  reveal: (text: string) => string = t => t
+): Pick<AnalysisResult, 'text' | 'analysis' | 'checks' | 'parseError'> => {
+  try {
+    const analysis = revealAnalysis(parseAnalysis(text), reveal);
+    return { text: reveal(text), analysis, checks: checkFigures(analysis.figures, analysisFacts(request)) };
+  } catch (error) {
+    return { text: reveal(text), checks: [], parseError: error instanceof Error ? error.message : 'The answer could not be read.' };
+  }
+};
+
+const promptDestination = (settings: AnalysisSettings, provider: AnalysisProvider): string => {
+  switch (provider.id) {
+    case 'openai': return `${settings.endpointModel} at ${settings.endpointUrl}`;
+    case 'replay': return 'recorded responses';
+    default: return settings.geminiModel;
+  }
+};
+
+// Fingerprint of what an analysis was written from. Saved with each report, so a report whose sessions
+// have since been added, edited or voided (or whose pay has changed with the rates) shows as stale.
+export const hashAnalysisInput = ({ sessions, grossPay }: AnalysisRequest): Promise<string> => {
+  const fingerprint = sessions
+    .map(s => [s.id, s.updatedAt || s.timestamp, s.therapistId, s.patientName, s.treatmentType, s.durationMinutes].join('|'))
+    .sort();
+  return sha256Hex(JSON.stringify({ sessions: fingerprint, grossPay }));
+};
+
+// `provider` overrides the configured one, e.g. with a replayProvider from analysisRecorder
+export const generatePayrollAnalysis = async (
+  request: AnalysisRequest,
+  userId: string,
+  settings: AnalysisSettings = dbService.getAnalysisSettings(),
+  provider: AnalysisProvider = createAnalysisProvider(settings)
+): Promise<AnalysisResult> => {
+  if (!request.sessions.length) {
+    return { text: "No sessions found for this period.", checks: [], provider: provider.id };
+  }
+
+  // The offline template never leaves the device, so only prompts for real providers are redacted and logged
+  const { request: outbound, reveal } = redactRequest(request, provider.id === 'template' ? 'names' : settings.privacy);
+  if (provider.id !== 'template') {
+    dbService.logAnalysisPrompt(userId, {
+      provider: provider.id,
+      destination: promptDestination(settings, provider),
+      privacy: settings.privacy,
+      prompt: buildAnalysisPrompt(outbound),
+    });
+  }
+
+  let text: string;
+  try {
+    text = await withTimeout(
+      provider.analyze(outbound),
+      PROVIDER_TIMEOUT_MS,
+      `${providerLabel(provider.id)} did not answer within ${PROVIDER_TIMEOUT_MS / 1000} seconds.`
+    );
+  } catch (error) {
+    console.error("Analysis provider error:", error);
+    const reason = error instanceof Error ? error.message : 'The analysis provider failed.';
+    if (settings.fallbackToTemplate && provider.id !== 'template') {
+      return { ...readAnswer(await templateProvider.analyze(request), request), provider: 'template', fallbackReason: reason };
+    }
+    return { text: `Error generating analysis: ${reason}`, checks: [], provider: provider.id };
+  }
+  return { ...readAnswer(text, request, reveal), provider: provider.id };
+};
+
+// Turns a question into a query over `sessions`, which the caller runs with runSessionQuery. Nothing but
+// the question, therapist and treatment names is sent; names are pseudonymised unless the policy allows them.
+export const askSessionQuestion = async (
+  question: string,
+  sessions: Session[],
+  treatments: Treatment[],
+  userId: string,
+  settings: AnalysisSettings = dbService.getAnalysisSettings(),
+  provider: AnalysisProvider = createAnalysisProvider(settings)
+): Promise<SessionQueryAnswer> => {
+  if (!provider.complete) {
+    return { question, error: `${providerLabel(provider.id)} can't answer questions. Choose a language model under Account → Payroll Analysis.`, provider: provider.id };
+  }
+
+  const vocabulary = queryVocabulary(sessions, treatments);
+  const names = settings.privacy === 'names' ? null : pseudonymise(sessions);
+  const prompt = buildQueryPrompt(
+    names ? names.conceal(question) : question,
+    { therapists: names ? Array.from(new Set(names.sessions.map(s => s.therapistName))).sort() : vocabulary.therapists, treatments: vocabulary.treatments },
+    dateKey(new Date())
+  );
+  dbService.logAnalysisPrompt(userId, {
+    provider: provider.id,
+    destination: promptDestination(settings, provider),
+    privacy: settings.privacy,
+    prompt,
+  });
+
+  try {
+    const text = await withTimeout(
+      provider.complete(prompt, QUERY_JSON_SCHEMA),
+      PROVIDER_TIMEOUT_MS,
+      `${providerLabel(provider.id)} did not answer within ${PROVIDER_TIMEOUT_MS / 1000} seconds.`
+    );
+    return { question, spec: parseQuerySpec(text, vocabulary, names?.reveal), provider: provider.id };
+  } catch (error) {
+    console.error("Session question error:", error);
+    return { question, error: error instanceof Error ? error.message : 'The question could not be answered.', provider: provider.id };
+  }
+};
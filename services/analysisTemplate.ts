@@ -0,0 +1,73 @@
+// The offline provider: writes the same sections the language models are asked for, from the figures
+// alone. Output depends only on the request, so the same sessions always give the same summary.
+
+import { AnalysisRequest, PayrollAnalysis, QuotedFigure, Session } from '../types';
+import { AnalysisProvider } from './analysisProvider';
+import { treatmentName } from './treatmentCatalogue';
+import { formatMoney } from './payrollService';
+
+const formatDuration = (minutes: number): string => `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+const percent = (part: number, whole: number): string => `${Math.round((part / whole) * 100)}%`;
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Largest count first, then alphabetical so ties always come out in the same order
+const countBy = (sessions: Session[], key: (s: Session) => string): [string, number][] => {
+  const counts = new Map<string, number>();
+  sessions.forEach(s => counts.set(key(s), (counts.get(key(s)) || 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+};
+
+export const writeTemplateAnalysis = ({ sessions, periodLabel, treatments, grossPay }: AnalysisRequest): PayrollAnalysis => {
+  const totalMinutes = sessions.reduce((sum, s) => sum + s.durationMinutes, 0);
+  const mix = countBy(sessions, s => treatmentName(treatments, s.treatmentType));
+  const therapists = countBy(sessions, s => s.therapistName);
+  const patients = countBy(sessions, s => s.patientId || s.patientName);
+  const weekdays = countBy(sessions, s => new Date(s.timestamp).toLocaleDateString(undefined, { weekday: 'long' }));
+  const returning = patients.filter(([, count]) => count > 1).length;
+  const unsigned = sessions.filter(s => !s.signed).length;
+  const hours = Math.round((totalMinutes / 60) * 10) / 10;
+
+  const figures: QuotedFigure[] = [
+    { label: 'Sessions', metric: 'total_sessions', value: sessions.length },
+    { label: 'Hours', metric: 'total_hours', value: hours },
+    { label: 'Patients', metric: 'patients', value: patients.length },
+    { label: 'Gross pay', metric: 'gross_pay', value: grossPay },
+    ...mix.map(([name, count]): QuotedFigure => ({ label: `${name} sessions`, metric: 'treatment_sessions', subject: name, value: count })),
+  ];
+  if (therapists.length > 1) {
+    figures.push(...therapists.map(([name, count]): QuotedFigure => ({ label: `Sessions by ${name}`, metric: 'therapist_sessions', subject: name, value: count })));
+  }
+
+  const observations = [
+    `${mix[0][0]} made up ${percent(mix[0][1], sessions.length)} of the sessions.`,
+    `${weekdays[0][0]} was the busiest day of the week with ${plural(weekdays[0][1], 'session')}.`,
+  ];
+  if (returning > 0) {
+    observations.push(`${plural(returning, 'patient')} came back for more than one session.`);
+  }
+  if (unsigned > 0) {
+    observations.push(`${plural(unsigned, 'session')} ${unsigned === 1 ? 'has' : 'have'} no patient signature on file.`);
+  }
+
+  return {
+    greeting: `Hello, here is the payroll summary for ${periodLabel}.`,
+    workloadSummary:
+      `${plural(sessions.length, 'session')} totalling ${formatDuration(totalMinutes)} (${hours} hours) with ${plural(patients.length, 'patient')}` +
+      `${therapists.length > 1 ? ` across ${plural(therapists.length, 'therapist')} (${therapists.map(([name, count]) => `${name} ${count}`).join(', ')})` : ''}, ` +
+      `for a gross pay of ${formatMoney(grossPay)}. ` +
+      `Treatment mix: ${mix.map(([name, count]) => `${name} ${count} (${percent(count, sessions.length)})`).join(', ')}. ` +
+      `Sessions averaged ${Math.round(totalMinutes / sessions.length)} minutes.`,
+    observations,
+    invoiceText:
+      `Physiotherapy services for ${periodLabel}: ${plural(sessions.length, 'treatment session')} ` +
+      `(${formatDuration(totalMinutes)}), comprising ${mix.map(([name, count]) => `${count} × ${name}`).join(', ')}.`,
+    figures,
+  };
+};
+
+export const templateProvider: AnalysisProvider = {
+  id: 'template',
+  analyze: async (request) => JSON.stringify(writeTemplateAnalysis(request)),
+};
@@ -0,0 +1,133 @@
+// Encrypted backup files and the restore preview.
+// A backup is a JSON envelope around an AES-GCM encrypted copy of the whole database,
+// including signature images, so it can be restored on a fresh device.
+
+import { EncryptedData, decryptWithPassphrase, encryptWithPassphrase } from './cryptoService';
+import { SCHEMA_VERSION, StoredData, recordsOf } from './migrations';
+
+const BACKUP_FORMAT = 'physiotrack-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupContents {
+  schemaVersion: number;
+  exportedAt: string; // ISO string
+  exportedBy: string; // user name
+  data: StoredData; // database collections, without per-device state
+  signatures: Record<string, string>; // session id -> data URL
+}
+
+interface BackupFile extends EncryptedData {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  createdAt: string;
+}
+
+// How records are identified in each collection that a restore compares
+export const RESTORE_COLLECTIONS: { key: string; label: string; id: (record: StoredData) => string }[] = [
+  { key: 'users', label: 'Users', id: r => String(r.id) },
+  { key: 'sessions', label: 'Sessions', id: r => String(r.id) },
+  { key: 'patients', label: 'Patients', id: r => String(r.id) },
+  { key: 'appointments', label: 'Appointments', id: r => String(r.id) },
+  { key: 'payRates', label: 'Pay rates', id: r => String(r.id) },
+  { key: 'invoices', label: 'Invoices', id: r => String(r.id) },
+  { key: 'payPeriods', label: 'Pay periods', id: r => `${r.therapistId}:${r.year}-${r.month}` },
+  { key: 'treatments', label: 'Treatments', id: r => String(r.id) },
+  { key: 'invites', label: 'Invites', id: r => String(r.token) },
+  { key: 'auditLog', label: 'Audit entries', id: r => String(r.id) },
+  { key: 'analysisHistory', label: 'Saved analyses', id: r => String(r.id) },
+  { key: 'analysisPromptLog', label: 'Prompt log entries', id: r => String(r.id) },
+];
+
+export interface RestorePreviewRow {
+  key: string;
+  label: string;
+  added: number; // only in the backup
+  changed: number; // in both, with different contents
+  localOnly: number; // only on this device
+}
+
+export const createBackupFile = async (contents: BackupContents, passphrase: string): Promise<Blob> => {
+  const encrypted = await encryptWithPassphrase(JSON.stringify(contents), passphrase);
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    createdAt: contents.exportedAt,
+    ...encrypted,
+  };
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+};
+
+export const backupFilename = (date = new Date()) =>
+  `PhysioTrack_Backup_${date.toISOString().slice(0, 10)}.ptbackup`;
+
+// Validates the envelope, decrypts it and checks the contents look like a PhysioTrack database
+export const readBackupFile = async (text: string, passphrase: string): Promise<BackupContents> => {
+  let file: BackupFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('This is not a PhysioTrack backup file.');
+  }
+  if (file.format !== BACKUP_FORMAT || !file.data || !file.salt || !file.iv) {
+    throw new Error('This is not a PhysioTrack backup file.');
+  }
+  if (file.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error('This backup was made by a newer version of PhysioTrack.');
+  }
+
+  let contents: BackupContents;
+  try {
+    contents = JSON.parse(await decryptWithPassphrase(file, passphrase));
+  } catch {
+    throw new Error('Wrong passphrase, or the file has been damaged.');
+  }
+
+  if (!Number.isInteger(contents.schemaVersion) || contents.schemaVersion < 1) {
+    throw new Error('The backup does not say which version of PhysioTrack made it.');
+  }
+  if (contents.schemaVersion > SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of PhysioTrack.');
+  }
+  if (!contents.data || !Array.isArray(contents.data.users) || !Array.isArray(contents.data.sessions)) {
+    throw new Error('The backup is missing users or sessions.');
+  }
+  if (!recordsOf(contents.data, 'users').some(u => u.role === 'admin')) {
+    throw new Error('The backup has no administrator account.');
+  }
+  return contents;
+};
+
+export const buildRestorePreview = (local: StoredData, incoming: StoredData): RestorePreviewRow[] =>
+  RESTORE_COLLECTIONS.map(({ key, label, id }) => {
+    const localById = new Map(recordsOf(local, key).map(r => [id(r), JSON.stringify(r)]));
+    const incomingIds = new Set<string>();
+    let added = 0;
+    let changed = 0;
+
+    recordsOf(incoming, key).forEach(record => {
+      const recordId = id(record);
+      incomingIds.add(recordId);
+      const existing = localById.get(recordId);
+      if (existing === undefined) added++;
+      else if (existing !== JSON.stringify(record)) changed++;
+    });
+    const localOnly = Array.from(localById.keys()).filter(k => !incomingIds.has(k)).length;
+
+    return { key, label, added, changed, localOnly };
+  });
+
+// Merge keeps everything on this device and adds what only the backup has; replace takes the backup as is
+export const mergeCollections = (local: StoredData, incoming: StoredData, mode: RestoreMode): StoredData => {
+  if (mode === 'replace') return { ...incoming };
+
+  const merged: StoredData = { ...local };
+  RESTORE_COLLECTIONS.forEach(({ key, id }) => {
+    const localRecords = recordsOf(local, key);
+    const existing = new Set(localRecords.map(id));
+    merged[key] = [...localRecords, ...recordsOf(incoming, key).filter(r => !existing.has(id(r)))];
+  });
+  merged.invoiceSequence = Math.max(Number(local.invoiceSequence) || 0, Number(incoming.invoiceSequence) || 0);
+  return merged;
+};
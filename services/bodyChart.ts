@@ -0,0 +1,86 @@
+// Tappable regions of the body chart and helpers for clinical notes.
+// Geometry is in a 120 x 240 box per view. In the front view the patient's right side is on the viewer's left.
+
+import { BodyMark, BodyView, ClinicalNoteDraft, SoapNote } from '../types';
+
+export interface BodyRegion {
+  id: string;
+  view: BodyView;
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radius: number;
+}
+
+export const BODY_VIEWBOX = { width: 120, height: 240 };
+
+type Box = [x: number, y: number, width: number, height: number, radius: number];
+
+const central = (view: BodyView, id: string, label: string, [x, y, width, height, radius]: Box): BodyRegion =>
+  ({ id, view, label, x, y, width, height, radius });
+
+// Box is given for the region on the viewer's left; the other side is mirrored
+const paired = (view: BodyView, part: string, label: string, box: Box): BodyRegion[] => {
+  const [x, y, width, height, radius] = box;
+  const [near, far] = view === 'front' ? ['right', 'left'] : ['left', 'right'];
+  const title = (side: string) => `${side[0].toUpperCase()}${side.slice(1)} ${label}`;
+  return [
+    { id: `${near}-${part}`, view, label: title(near), x, y, width, height, radius },
+    { id: `${far}-${part}`, view, label: title(far), x: BODY_VIEWBOX.width - x - width, y, width, height, radius },
+  ];
+};
+
+const limbs = (view: BodyView): BodyRegion[] => [
+  ...paired(view, 'shoulder', 'shoulder', [26, 46, 18, 16, 8]),
+  ...paired(view, 'upper-arm', 'upper arm', [24, 62, 14, 32, 6]),
+  ...paired(view, 'forearm', 'elbow / forearm', [20, 94, 14, 34, 6]),
+  ...paired(view, 'hand', 'wrist / hand', [18, 128, 14, 16, 6]),
+  ...paired(view, 'knee', 'knee', [44, 166, 14, 14, 6]),
+  ...paired(view, 'ankle', 'ankle / foot', [42, 218, 16, 16, 5]),
+];
+
+export const BODY_REGIONS: BodyRegion[] = [
+  central('front', 'head', 'Head', [46, 4, 28, 32, 14]),
+  central('front', 'neck', 'Neck', [53, 36, 14, 10, 3]),
+  central('front', 'chest', 'Chest', [44, 46, 32, 32, 4]),
+  central('front', 'abdomen', 'Abdomen', [44, 78, 32, 30, 4]),
+  ...limbs('front'),
+  ...paired('front', 'hip', 'hip', [44, 108, 16, 18, 4]),
+  ...paired('front', 'thigh', 'thigh', [43, 126, 16, 40, 6]),
+  ...paired('front', 'shin', 'shin', [44, 180, 14, 38, 6]),
+
+  central('back', 'head', 'Head', [46, 4, 28, 32, 14]),
+  central('back', 'neck', 'Neck', [53, 36, 14, 10, 3]),
+  central('back', 'upper-back', 'Upper back', [44, 46, 32, 32, 4]),
+  central('back', 'lower-back', 'Lower back', [44, 78, 32, 30, 4]),
+  ...limbs('back'),
+  ...paired('back', 'glute', 'glute', [44, 108, 16, 18, 4]),
+  ...paired('back', 'hamstring', 'hamstring', [43, 126, 16, 40, 6]),
+  ...paired('back', 'calf', 'calf', [44, 180, 14, 38, 6]),
+];
+
+export const findBodyRegion = (view: BodyView, regionId: string): BodyRegion | undefined =>
+  BODY_REGIONS.find(r => r.view === view && r.id === regionId);
+
+export const bodyMarkLabel = (mark: BodyMark): string => {
+  const region = findBodyRegion(mark.view, mark.regionId);
+  return `${region?.label || mark.regionId} (${mark.view})`;
+};
+
+// Green through amber to red
+export const painColor = (pain: number): string =>
+  pain >= 7 ? '#dc2626' : pain >= 4 ? '#f59e0b' : '#16a34a';
+
+export const EMPTY_NOTE: ClinicalNoteDraft = { subjective: '', objective: '', assessment: '', plan: '', bodyMarks: [] };
+
+export const SOAP_SECTIONS: { key: keyof SoapNote; label: string; placeholder: string }[] = [
+  { key: 'subjective', label: 'Subjective', placeholder: 'Symptoms, history and goals as the patient describes them' },
+  { key: 'objective', label: 'Objective', placeholder: 'Observations, range of motion, strength, special tests' },
+  { key: 'assessment', label: 'Assessment', placeholder: 'Clinical impression and progress' },
+  { key: 'plan', label: 'Plan', placeholder: 'Treatment given, home exercises, next steps' },
+];
+
+export const isEmptyNote = (note: ClinicalNoteDraft): boolean =>
+  SOAP_SECTIONS.every(({ key }) => !note[key].trim()) && !note.bodyMarks.length;
@@ -0,0 +1,104 @@
+// Password hashing and token helpers built on WebCrypto.
+// Stored hash format: pbkdf2$<iterations>$<base64 salt>$<base64 hash>
+
+const HASH_PREFIX = 'pbkdf2';
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+};
+
+export const isPasswordHash = (value: string): boolean => value.startsWith(`${HASH_PREFIX}$`);
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return [HASH_PREFIX, ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [prefix, iterations, salt, expected] = stored.split('$');
+  if (prefix !== HASH_PREFIX || !iterations || !salt || !expected) return false;
+
+  const actual = toBase64(await derive(password, fromBase64(salt), Number(iterations)));
+  // Compare every character so timing doesn't reveal the matching prefix
+  if (actual.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) diff |= actual.charCodeAt(i) ^ expected.charCodeAt(i);
+  return diff === 0;
+};
+
+export const generateToken = (bytes = 32): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), b => b.toString(16).padStart(2, '0')).join('');
+
+export const sha256Hex = async (data: string | ArrayBuffer): Promise<string> => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Passphrase encryption: AES-GCM with a PBKDF2-derived key
+export interface EncryptedData {
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // base64
+  cipher: 'AES-GCM';
+  iv: string; // base64
+  data: string; // base64 ciphertext
+}
+
+const IV_BYTES = 12;
+
+const deriveAesKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptWithPassphrase = async (plaintext: string, passphrase: string): Promise<EncryptedData> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveAesKey(passphrase, salt, ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return {
+    kdf: 'PBKDF2-SHA256',
+    iterations: ITERATIONS,
+    salt: toBase64(salt),
+    cipher: 'AES-GCM',
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+};
+
+// Rejects if the passphrase is wrong or the data has been altered (GCM authenticates it)
+export const decryptWithPassphrase = async (encrypted: EncryptedData, passphrase: string): Promise<string> => {
+  const key = await deriveAesKey(passphrase, fromBase64(encrypted.salt), encrypted.iterations);
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encrypted.iv) }, key, fromBase64(encrypted.data));
+  return new TextDecoder().decode(plaintext);
+};
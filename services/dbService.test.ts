@@ -0,0 +1,163 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Session } from '../types';
+import { createBackupFile, readBackupFile } from './backupService';
+
+type DbService = typeof import('./dbService')['dbService'];
+
+// A fresh service, over empty storage unless given the IndexedDB of an earlier one; empty storage
+// starts from the seed users (admin-1, user-1 and user-2)
+const openDb = async (idb = new IDBFactory()): Promise<DbService> => {
+  vi.resetModules();
+  vi.stubGlobal('indexedDB', idb);
+  const { dbService } = await import('./dbService');
+  await dbService.ready;
+  return dbService;
+};
+
+const session = (id: string, patientId: string, patientName: string, day: string, extra: Partial<Session> = {}): Session => ({
+  id,
+  therapistId: 'user-1',
+  therapistName: 'Jane Doe',
+  patientId,
+  patientName,
+  treatmentType: 'Sports Massage',
+  durationMinutes: 60,
+  timestamp: `2025-01-${day}T12:00:00.000Z`,
+  ...extra,
+});
+
+const JANE = { id: 'user-1', name: 'Jane Doe' };
+
+const approveJanuary = (db: DbService) => {
+  db.transitionPeriod('user-1', 'user-1', 0, 2025, 'submitted');
+  db.transitionPeriod('admin-1', 'user-1', 0, 2025, 'approved');
+};
+
+let db: DbService;
+
+beforeEach(async () => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+    removeItem: (key: string) => { storage.delete(key); },
+  });
+  db = await openDb();
+});
+
+describe('invoices', () => {
+  it('bill the whole month even with the dashboard filtered to one patient', async () => {
+    await db.addSession(session('s1', 'p-ann', 'Ann Lee', '06'));
+    await db.addSession(session('s2', 'p-john', 'John Doe', '08'));
+    await db.addSession(session('s3', 'p-ann', 'Ann Lee', '20'));
+    await db.addSession(session('s4', 'p-john', 'John Doe', '03', { timestamp: '2025-02-03T12:00:00.000Z' }));
+    approveJanuary(db);
+
+    // The dashboard with only Ann selected lists Jane, and issuing from there still covers John's session
+    const result = db.issueInvoice('admin-1', JANE, 0, 2025);
+
+    expect(result.success).toBe(true);
+    expect(result.invoice!.lineItems.map(item => item.sessionId)).toEqual(['s1', 's2', 's3']);
+    expect(db.issueInvoice('admin-1', JANE, 0, 2025).success).toBe(false); // one per month
+  });
+
+  it('can only be issued by an administrator or the therapist, once the month is approved', async () => {
+    await db.addSession(session('s1', 'p-ann', 'Ann Lee', '06'));
+
+    expect(db.issueInvoice('admin-1', JANE, 0, 2025).message).toBe('Payroll for this month has to be approved before it can be invoiced.');
+    approveJanuary(db);
+    expect(db.issueInvoice('user-2', JANE, 0, 2025).success).toBe(false);
+    expect(db.issueInvoice('user-1', JANE, 0, 2025).success).toBe(true);
+  });
+
+  it('are numbered with the device code and queued for sync', async () => {
+    await db.addSession(session('s1', 'p-ann', 'Ann Lee', '06'));
+    approveJanuary(db);
+
+    const { invoice } = db.issueInvoice('admin-1', JANE, 0, 2025);
+
+    expect(invoice!.number).toMatch(/^INV-2025-[0-9A-F]{4}-0001$/);
+    const { request } = await db.getSyncBatch(50);
+    expect(request.changes.find(c => c.kind === 'invoice')).toMatchObject({ id: 'user-1:2025-0', data: invoice });
+  });
+});
+
+describe('analysis privacy policy', () => {
+  it('is synced without the provider or its keys', async () => {
+    db.updateAnalysisSettings('admin-1', { ...db.getAnalysisSettings(), geminiApiKey: 'secret-key', privacy: 'aggregate' });
+
+    const { request } = await db.getSyncBatch(50);
+    const change = request.changes.find(c => c.kind === 'analysisPolicy');
+    expect(change).toMatchObject({ id: 'clinic', data: { privacy: 'aggregate', updatedBy: 'admin-1' } });
+    expect(JSON.stringify(change)).not.toContain('secret-key');
+  });
+
+  it('is only taken from another device when an administrator set it', async () => {
+    const policy = (updatedBy: string, rev: number) => ({
+      kind: 'analysisPolicy' as const,
+      id: 'clinic',
+      rev,
+      data: { privacy: 'names', updatedAt: '2025-02-01T00:00:00.000Z', updatedBy },
+    });
+    const response = (rev: number, changes: ReturnType<typeof policy>[]) => ({ rev, more: false, accepted: [], conflicts: [], changes });
+
+    db.applySyncResponse(response(1, [policy('user-1', 1)]), {});
+    expect(db.getAnalysisSettings().privacy).toBe('pseudonyms');
+    expect(db.getSyncState().lastError).toContain('no administrator made it');
+
+    db.applySyncResponse(response(2, [policy('admin-1', 2)]), {});
+    expect(db.getAnalysisSettings()).toMatchObject({ privacy: 'names', privacySetBy: 'admin-1' });
+  });
+});
+
+describe('storage', () => {
+  it('reads a month through the month index, with every therapist for an administrator', async () => {
+    await db.addSession(session('s1', 'p-ann', 'Ann Lee', '06'));
+    await db.addSession(session('s2', 'p-john', 'John Doe', '08', { therapistId: 'user-2', therapistName: 'Mark Smith' }));
+    await db.addSession(session('s3', 'p-ann', 'Ann Lee', '03', { timestamp: '2025-02-03T12:00:00.000Z' }));
+
+    expect((await db.getSessionsForMonth('admin-1', 'admin', 0, 2025)).map(s => s.id)).toEqual(['s2', 's1']);
+    expect((await db.getSessionsForMonth('user-1', 'therapist', 0, 2025)).map(s => s.id)).toEqual(['s1']);
+  });
+
+  it('keeps every change across a reload now that only changed records are written', async () => {
+    const idb = new IDBFactory();
+    const first = await openDb(idb);
+    await first.addSession(session('s1', 'p-ann', 'Ann Lee', '06'));
+    approveJanuary(first);
+    first.updateUser('admin-1', 'user-2', { name: 'Mark Smythe', username: 'mark', role: 'therapist' });
+    await first.getSessionsForMonth('admin-1', 'admin', 0, 2025); // waits for the writes
+
+    const reopened = await openDb(idb);
+    expect(reopened.getPeriodStatus('user-1', 0, 2025)).toBe('approved');
+    expect(reopened.getAllTherapists().map(t => t.name)).toEqual(['Jane Doe', 'Mark Smythe']);
+    expect(reopened.getSessions('admin-1', 'admin').map(s => s.id)).toEqual(['s1']);
+  });
+});
+
+describe('backups', () => {
+  it('are refused when they do not say which schema they hold, or hold a newer one', async () => {
+    const { contents } = await db.exportBackup('admin-1');
+    const file = async (schemaVersion: unknown) =>
+      (await createBackupFile({ ...contents!, schemaVersion: schemaVersion as number }, 'passphrase')).text();
+
+    await expect(readBackupFile(await file(undefined), 'passphrase')).rejects.toThrow('does not say which version');
+    await expect(readBackupFile(await file(999), 'passphrase')).rejects.toThrow('newer version');
+    await expect(readBackupFile(await file(contents!.schemaVersion), 'passphrase')).resolves.toMatchObject({ exportedBy: 'Clinic Manager' });
+  });
+
+  it('replacing the data starts sync afresh', async () => {
+    await db.addSession(session('s1', 'p-ann', 'Ann Lee', '06'));
+    const { contents } = await db.exportBackup('admin-1');
+    db.applySyncResponse({ rev: 7, more: false, accepted: [{ kind: 'session', id: 's1', rev: 5 }], conflicts: [], changes: [] }, (await db.getSyncBatch(500)).sent);
+    await db.addSession(session('s2', 'p-ann', 'Ann Lee', '08'));
+
+    expect((await db.restoreBackup('admin-1', contents!, 'replace')).success).toBe(true);
+
+    const { request } = await db.getSyncBatch(500);
+    expect(request.since).toBe(0);
+    expect(request.changes.find(c => c.id === 's1')).toMatchObject({ kind: 'session', baseRev: 0 });
+    expect(request.changes.some(c => c.id === 's2')).toBe(false);
+  });
+});
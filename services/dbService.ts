@@ -1,15 +1,82 @@
-import { User, Session, UserRole } from '../types';
+import { User, Session, UserRole, PayRate, Invoice, ClinicDetails, Invite, AuditEntry, AuditAction, SessionEditableFields, PayPeriod, PeriodStatus, Patient, Appointment, AppointmentStatus, Treatment, TreatmentType, SyncKind, SyncRecord, SyncRequest, SyncResponse, SyncSettings, SyncChange, SyncViewer, AnalysisSettings, AnalysisPolicy, AnalysisScope, AnalysisResult, SavedAnalysis, PromptLogEntry, SealCheck, ClinicalNoteDraft, ContractDetails, UserEditableFields } from '../types';
+import { generateToken, hashPassword, isPasswordHash, verifyPassword } from './cryptoService';
+import { DEFAULT_TREATMENTS, findTreatment, isAllowedDuration, validateTreatment } from './treatmentCatalogue';
+import {
+  CollectionRecord, StorageWrite, StoredSession, StoredSignature, blobToDataUrl, dataUrlToBlob, fromStoredSession,
+  isEmpty, monthKey, openStorage, readAll, readCollections, readSessionsByMonth, readSignature, requestPersistence,
+  saveBackup, toStoredSession, writeBatch,
+} from './storageService';
+import { findMatchingPatient } from './patientMatching';
+import { SessionDraft } from './importService';
+import { checkSeal, createSeal, latestSealHash } from './signatureSeal';
+import { LEGACY_DB_KEYS, SCHEMA_VERSION, isStoredData, runMigrations } from './migrations';
+import { DEFAULT_ANALYSIS_SETTINGS } from './analysisProvider';
+import { PRIVACY_MODES } from './analysisPrivacy';
+import { BackupContents, RestoreMode, RestorePreviewRow, buildRestorePreview, mergeCollections } from './backupService';
+import { InvoiceDraft, buildInvoiceDraft } from './invoiceService';
+const AUTH_TOKEN_KEY = 'physiotrack_auth_token';
+const AUTH_SESSION_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
 
-const DB_KEY = 'physiotrack_db_v3'; // Bumped version for credential update
+// Who may move a pay period from one status to another
+const PERIOD_TRANSITIONS: { from: PeriodStatus; to: PeriodStatus; role: UserRole | 'owner' }[] = [
+  { from: 'draft', to: 'submitted', role: 'owner' },
+  { from: 'submitted', to: 'draft', role: 'owner' }, // withdraw
+  { from: 'submitted', to: 'draft', role: 'admin' }, // return for changes
+  { from: 'submitted', to: 'approved', role: 'admin' },
+  { from: 'approved', to: 'draft', role: 'admin' }, // reopen
+  { from: 'approved', to: 'paid', role: 'admin' },
+];
+
+const LOCKED_STATUSES: PeriodStatus[] = ['approved', 'paid'];
+
+// What payroll and invoices are worked out from; these can't change on a session in a closed month
+const PAYROLL_FIELDS: (keyof Session)[] = ['therapistId', 'patientId', 'patientName', 'treatmentType', 'durationMinutes', 'timestamp', 'voidedAt'];
 
 interface StoredUser extends User {
-  passwordHash: string; // In a real app, this would be a hash. Storing plain text for this demo.
+  passwordHash: string; // PBKDF2 hash (see cryptoService); seed data starts as plain text and is migrated on load
+  updatedAt?: string; // ISO string; compared when two devices change the same user
+  updatedBy?: string; // user id behind that change; the sync server and other devices check it
+}
+
+interface AuthSession {
+  token: string;
+  userId: string;
+  expiresAt: string; // ISO string
+}
+
+// Per-device sync bookkeeping; records are keyed "<kind>:<id>"
+interface SyncState extends SyncSettings {
+  lastPulledRev: number;
+  lastSyncedAt?: string;
+  lastError?: string;
+  revs: Record<string, number>; // server revision each record was last seen at
+  outbox: Record<string, number>; // local change counter per record, cleared once the server accepts it
+  deviceCode?: string; // in this device's invoice numbers, so two devices never issue the same one
+  viewerTokens?: Record<string, string>; // per user id, issued by the server to prove who is signed in here
+  pulledAs?: string; // user id the server last filtered clinical notes for (see getSyncBatch)
 }
 
-interface DatabaseSchema {
+// A type rather than an interface, so it can be passed to the migrations as plain StoredData
+type DatabaseSchema = {
+  schemaVersion: number; // see migrations.ts
   users: StoredUser[];
   sessions: Session[];
-}
+  payRates: PayRate[];
+  invoices: Invoice[];
+  invoiceSequence: number;
+  clinic: ClinicDetails;
+  authSessions: AuthSession[];
+  invites: Invite[];
+  auditLog: AuditEntry[];
+  payPeriods: PayPeriod[];
+  patients: Patient[];
+  appointments: Appointment[];
+  treatments: Treatment[];
+  sync: SyncState;
+  analysis: AnalysisSettings;
+  analysisHistory: SavedAnalysis[];
+  analysisPromptLog: PromptLogEntry[];
+};
 
 // Initial Seed Data
 const INITIAL_USERS: StoredUser[] = [
@@ -19,82 +86,1658 @@ const INITIAL_USERS: StoredUser[] = [
 ];
 
 const INITIAL_DB: DatabaseSchema = {
+  schemaVersion: SCHEMA_VERSION,
   users: INITIAL_USERS,
-  sessions: []
+  sessions: [],
+  payRates: [],
+  invoices: [],
+  invoiceSequence: 0,
+  clinic: { name: 'PhysioTrack Clinic', address: '', email: '' },
+  authSessions: [],
+  invites: [],
+  auditLog: [],
+  payPeriods: [],
+  patients: [],
+  appointments: [],
+  treatments: DEFAULT_TREATMENTS.map(t => ({ ...t })),
+  sync: { serverUrl: '', key: '', lastPulledRev: 0, revs: {}, outbox: {} },
+  analysis: { ...DEFAULT_ANALYSIS_SETTINGS },
+  analysisHistory: [],
+  analysisPromptLog: [],
+};
+
+// Everything except users and sessions is stored as one record per collection
+const COLLECTION_KEYS = [
+  'schemaVersion', 'payRates', 'invoices', 'invoiceSequence', 'clinic', 'authSessions', 'invites',
+  'auditLog', 'payPeriods', 'patients', 'appointments', 'treatments', 'sync', 'analysis',
+  'analysisHistory', 'analysisPromptLog',
+] as const;
+
+const syncKey = (kind: SyncKind, id: string) => `${kind}:${id}`;
+
+// Pay periods have no id of their own; this matches the one backups compare them by. Invoices, one per
+// therapist and month, are synced under the same id so two devices can't both issue one.
+const payPeriodId = ({ therapistId, year, month }: Pick<PayPeriod, 'therapistId' | 'year' | 'month'>) => `${therapistId}:${year}-${month}`;
+
+// A synced record together with its kind, so code handling one kind gets that kind's type
+type SyncEntry =
+  | { kind: 'session'; record: Session }
+  | { kind: 'user'; record: StoredUser }
+  | { kind: 'invite'; record: Invite }
+  | { kind: 'payPeriod'; record: PayPeriod }
+  | { kind: 'treatment'; record: Treatment }
+  | { kind: 'patient'; record: Patient }
+  | { kind: 'invoice'; record: Invoice }
+  | { kind: 'analysisPolicy'; record: AnalysisPolicy }
+  | { kind: 'promptLog'; record: PromptLogEntry };
+
+// The clinic has one analysis privacy policy
+const ANALYSIS_POLICY_ID = 'clinic';
+
+// Just enough checking that a malformed record from the server is skipped rather than stored
+const isSession = (data: unknown): data is Session =>
+  isStoredData(data) && typeof data.id === 'string' && typeof data.therapistId === 'string' && typeof data.timestamp === 'string';
+const isStoredUser = (data: unknown): data is StoredUser =>
+  isStoredData(data) && typeof data.id === 'string' && typeof data.username === 'string' && (data.role === 'admin' || data.role === 'therapist');
+const isInvite = (data: unknown): data is Invite =>
+  isStoredData(data) && typeof data.token === 'string';
+const isPayPeriod = (data: unknown): data is PayPeriod =>
+  isStoredData(data) && typeof data.therapistId === 'string' && typeof data.month === 'number' && typeof data.year === 'number'
+  && typeof data.status === 'string' && Array.isArray(data.history);
+const isTreatment = (data: unknown): data is Treatment =>
+  isStoredData(data) && typeof data.id === 'string' && typeof data.name === 'string' && Array.isArray(data.allowedDurations);
+const isPatient = (data: unknown): data is Patient =>
+  isStoredData(data) && typeof data.id === 'string' && typeof data.name === 'string';
+const isInvoice = (data: unknown): data is Invoice =>
+  isStoredData(data) && typeof data.id === 'string' && typeof data.number === 'string' && typeof data.therapistId === 'string'
+  && typeof data.month === 'number' && typeof data.year === 'number' && Array.isArray(data.lineItems);
+const isAnalysisPolicy = (data: unknown): data is AnalysisPolicy =>
+  isStoredData(data) && PRIVACY_MODES.some(m => m.id === data.privacy) && typeof data.updatedAt === 'string' && typeof data.updatedBy === 'string';
+const isPromptLogEntry = (data: unknown): data is PromptLogEntry =>
+  isStoredData(data) && typeof data.id === 'string' && typeof data.sentAt === 'string' && typeof data.prompt === 'string';
+
+// Null when the server holds no usable record, e.g. a revoked invite
+const remoteEntry = ({ kind, id, data }: SyncRecord): SyncEntry | null => {
+  switch (kind) {
+    case 'session': return isSession(data) && data.id === id ? { kind, record: data } : null;
+    case 'user': return isStoredUser(data) && data.id === id ? { kind, record: data } : null;
+    case 'invite': return isInvite(data) && data.token === id ? { kind, record: data } : null;
+    case 'payPeriod': return isPayPeriod(data) && payPeriodId(data) === id ? { kind, record: data } : null;
+    case 'treatment': return isTreatment(data) && data.id === id ? { kind, record: data } : null;
+    case 'patient': return isPatient(data) && data.id === id ? { kind, record: data } : null;
+    case 'invoice': return isInvoice(data) && payPeriodId(data) === id ? { kind, record: data } : null;
+    case 'analysisPolicy': return isAnalysisPolicy(data) && id === ANALYSIS_POLICY_ID ? { kind, record: data } : null;
+    case 'promptLog': return isPromptLogEntry(data) && data.id === id ? { kind, record: data } : null;
+  }
 };
 
+// Older versions of a report are kept for comparison, up to this many per scope
+const MAX_SAVED_ANALYSES = 10;
+
+const sameScope = (a: AnalysisScope, b: AnalysisScope) =>
+  a.therapistId === b.therapistId
+  && (a.patientId || null) === (b.patientId || null)
+  && a.period.kind === b.period.kind && a.period.start === b.period.start && a.period.end === b.period.end;
+
 class DBService {
-  private db: DatabaseSchema;
+  // In-memory copy that all reads are served from; replaced once storage has loaded
+  private db: DatabaseSchema = { ...INITIAL_DB, users: [] };
+  private idb: IDBDatabase | null = null;
+  // Writes are applied to IndexedDB one batch at a time, in order
+  private writeQueue: Promise<void> = Promise.resolve();
+  private storageErrorListeners: ((error: unknown) => void)[] = [];
+  private outboxListeners: (() => void)[] = [];
+  // Each user and collection as last queued for writing, as JSON, so save() only writes what has changed
+  private written = new Map<string, string>();
+  // Passwords entered here, kept in memory only until the sync server has swapped them for a token
+  private syncPasswords = new Map<string, string>();
+  // Resolves once storage has loaded and any plain-text passwords have been rehashed
+  readonly ready: Promise<void>;
 
   constructor() {
-    const stored = localStorage.getItem(DB_KEY);
-    if (stored) {
-      this.db = JSON.parse(stored);
+    this.ready = this.load();
+  }
+
+  private async load() {
+    const idb = this.idb = await openStorage();
+
+    // A fresh IndexedDB is filled from the newest localStorage blob, or the seed data on a new install
+    let legacyKey: string | undefined;
+    let data: DatabaseSchema;
+    const firstRun = await isEmpty(idb);
+    if (firstRun) {
+      legacyKey = LEGACY_DB_KEYS.find(key => localStorage.getItem(key) !== null);
+      data = legacyKey ? JSON.parse(localStorage.getItem(legacyKey)!) : INITIAL_DB;
     } else {
-      this.db = INITIAL_DB;
-      this.save();
+      const [users, sessions, collections] = await Promise.all([
+        readAll<StoredUser>(idb, 'users'),
+        readAll<StoredSession>(idb, 'sessions'),
+        readCollections(idb),
+      ]);
+      data = {
+        ...(collections as Partial<DatabaseSchema>),
+        users,
+        sessions: sessions.map(fromStoredSession).sort((a, b) => b.timestamp.localeCompare(a.timestamp)),
+      } as DatabaseSchema;
     }
+
+    const version = data.schemaVersion || 1;
+    if (version > SCHEMA_VERSION) {
+      throw new Error('This data was saved by a newer version of PhysioTrack. Update the app to open it.');
+    }
+    if (version < SCHEMA_VERSION) {
+      await saveBackup(idb, {
+        id: Math.random().toString(36).substring(2, 10),
+        createdAt: new Date().toISOString(),
+        schemaVersion: version,
+        reason: legacyKey ? `Imported from ${legacyKey}` : `Before upgrading to v${SCHEMA_VERSION}`,
+        data: JSON.stringify(data),
+      });
+      // Runs on a copy: if a step throws, `ready` rejects and nothing stored has been touched
+      data = runMigrations(data, version) as DatabaseSchema;
+    }
+
+    this.db = data;
+    if (firstRun || version < SCHEMA_VERSION) {
+      await this.writeAll();
+    } else {
+      this.unwrittenRecords(); // what was just read is what is stored
+    }
+    // Only drop the old copy once IndexedDB has committed it
+    if (legacyKey) localStorage.removeItem(legacyKey);
+
+    await this.migratePasswords();
+    requestPersistence();
+  }
+
+  // Rewrites everything in one transaction, moving any inline signatures into their own store
+  private async writeAll(clearSignatures = false) {
+    const signatures: StoredSignature[] = [];
+    this.db.sessions.forEach(session => {
+      if (!session.signatureDataUrl) return;
+      signatures.push({ sessionId: session.id, blob: dataUrlToBlob(session.signatureDataUrl) });
+      session.signed = true;
+      delete session.signatureDataUrl;
+    });
+
+    this.written.clear();
+    this.unwrittenRecords();
+    await writeBatch(this.idb!, [
+      { store: 'users', clear: true, put: this.db.users },
+      { store: 'sessions', clear: true, put: this.db.sessions.map(toStoredSession) },
+      { store: 'signatures', clear: clearSignatures, put: signatures },
+      { store: 'collections', clear: true, put: this.collectionRecords() },
+    ]);
+  }
+
+  private collectionRecords(): CollectionRecord[] {
+    return COLLECTION_KEYS.map(name => ({ name, value: this.db[name] }));
+  }
+
+  // Users and collections that differ from what was last queued for writing, noting them as queued
+  private unwrittenRecords(): { users: StoredUser[]; collections: CollectionRecord[] } {
+    const changed = (key: string, value: unknown) => {
+      const json = JSON.stringify(value);
+      if (this.written.get(key) === json) return false;
+      this.written.set(key, json);
+      return true;
+    };
+    return {
+      users: this.db.users.filter(u => changed(`user:${u.id}`, u)),
+      collections: this.collectionRecords().filter(r => changed(`collection:${r.name}`, r.value)),
+    };
+  }
+
+  // Queues the current state for IndexedDB: the users and collections that changed since the last save,
+  // and sessions and signatures only when passed in, as there can be thousands of them.
+  private save(sessions: Session[] = [], signatures: StoredSignature[] = []) {
+    const idb = this.idb;
+    if (!idb) return;
+
+    const { users, collections } = this.unwrittenRecords();
+    const writes: StorageWrite[] = [];
+    if (users.length) writes.push({ store: 'users', put: users });
+    if (collections.length) writes.push({ store: 'collections', put: collections });
+    if (sessions.length) writes.push({ store: 'sessions', put: sessions.map(toStoredSession) });
+    if (signatures.length) writes.push({ store: 'signatures', put: signatures });
+    if (!writes.length) return;
+
+    this.writeQueue = this.writeQueue
+      .then(() => writeBatch(idb, writes))
+      .catch(error => {
+        // Nothing is known to be stored any more, so the next save writes everything again
+        this.written.clear();
+        console.error("Storage write failed:", error);
+        this.storageErrorListeners.forEach(listener => listener(error));
+      });
+  }
+
+  // Queues a record to be pushed on the next sync
+  private markForSync(kind: SyncKind, id: string) {
+    const key = syncKey(kind, id);
+    this.db.sync.outbox[key] = (this.db.sync.outbox[key] || 0) + 1;
+    this.outboxListeners.forEach(listener => listener());
+  }
+
+  // Queues every record, for when the server's revisions no longer tell what it is missing
+  private markAllForSync() {
+    this.db.sessions.forEach(s => this.markForSync('session', s.id));
+    this.db.invites.forEach(i => this.markForSync('invite', i.token));
+    // Including untouched seed accounts, so the server has every account to check sign-ins against
+    this.db.users.forEach(u => this.markForSync('user', u.id));
+    this.db.payPeriods.forEach(p => this.markForSync('payPeriod', payPeriodId(p)));
+    this.db.treatments.forEach(t => this.markForSync('treatment', t.id));
+    this.db.patients.forEach(p => this.markForSync('patient', p.id));
+    this.db.invoices.forEach(i => this.markForSync('invoice', payPeriodId(i)));
+    if (this.db.analysis.privacySetAt) this.markForSync('analysisPolicy', ANALYSIS_POLICY_ID);
+    this.db.analysisPromptLog.forEach(e => this.markForSync('promptLog', e.id));
+  }
+
+  // Holds the password until the next sync swaps it for a server token (see getSyncBatch)
+  private enrolForSync(userId: string, password: string) {
+    if (this.db.sync.serverUrl) this.syncPasswords.set(userId, password);
+  }
+
+  private signedInUserId(): string | undefined {
+    const token = localStorage.getItem(AUTH_TOKEN_KEY);
+    return this.db.authSessions.find(s => s.token === token)?.userId;
+  }
+
+  // Lets the UI tell the user when a change could not be stored; returns an unsubscribe function
+  onStorageError(listener: (error: unknown) => void): () => void {
+    this.storageErrorListeners.push(listener);
+    return () => {
+      this.storageErrorListeners = this.storageErrorListeners.filter(l => l !== listener);
+    };
   }
 
-  private save() {
-    localStorage.setItem(DB_KEY, JSON.stringify(this.db));
+  // Resolves once every queued write has reached IndexedDB
+  flush(): Promise<void> {
+    return this.writeQueue;
+  }
+
+  private async migratePasswords() {
+    const legacy = this.db.users.filter(u => !isPasswordHash(u.passwordHash));
+    if (!legacy.length) return;
+
+    for (const user of legacy) {
+      user.passwordHash = await hashPassword(user.passwordHash);
+    }
+    this.save();
+  }
+
+  private toSafeUser(user: StoredUser): User {
+    // Return user without the password field
+    const { passwordHash, ...safeUser } = user;
+    return safeUser;
+  }
+
+  private startAuthSession(userId: string) {
+    const now = Date.now();
+    const session: AuthSession = {
+      token: generateToken(),
+      userId,
+      expiresAt: new Date(now + AUTH_SESSION_TTL_MS).toISOString(),
+    };
+    // Drop expired sessions while we're here
+    this.db.authSessions = this.db.authSessions.filter(s => new Date(s.expiresAt).getTime() > now);
+    this.db.authSessions.push(session);
+    this.save();
+    localStorage.setItem(AUTH_TOKEN_KEY, session.token);
   }
 
   // Auth Methods
-  login(username: string, password: string): User | null {
+  async login(username: string, password: string): Promise<{ success: boolean; message: string; user?: User }> {
+    await this.ready;
     const user = this.db.users.find(u => u.username.toLowerCase() === username.toLowerCase());
-    
-    // Check password (direct comparison for demo purposes)
-    if (user && user.passwordHash === password) {
-      // Return user without the password field
-      const { passwordHash, ...safeUser } = user;
-      return safeUser;
+
+    if (!user || !await verifyPassword(password, user.passwordHash)) {
+      return { success: false, message: 'Invalid username or password' };
     }
-    return null;
+    // Only reveal the deactivation to someone who knows the password
+    if (user.deactivatedAt) {
+      return { success: false, message: 'This account has been deactivated. Contact the clinic manager.' };
+    }
+    this.startAuthSession(user.id);
+    if (!this.db.sync.viewerTokens?.[user.id]) this.enrolForSync(user.id, password);
+    return { success: true, message: 'Signed in.', user: this.toSafeUser(user) };
+  }
+
+  // Returns the user for the persisted login token, if it is still valid
+  restoreSession(): User | null {
+    const token = localStorage.getItem(AUTH_TOKEN_KEY);
+    if (!token) return null;
+
+    const session = this.db.authSessions.find(s => s.token === token);
+    const user = session && this.db.users.find(u => u.id === session.userId);
+    if (!session || !user || user.deactivatedAt || new Date(session.expiresAt).getTime() <= Date.now()) {
+      this.logout();
+      return null;
+    }
+    return this.toSafeUser(user);
+  }
+
+  logout() {
+    const token = localStorage.getItem(AUTH_TOKEN_KEY);
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    if (token) {
+      this.db.authSessions = this.db.authSessions.filter(s => s.token !== token);
+      this.save();
+    }
+  }
+
+  async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<{ success: boolean; message: string }> {
+    await this.ready;
+    const user = this.db.users.find(u => u.id === userId);
+    if (!user || !await verifyPassword(currentPassword, user.passwordHash)) {
+      return { success: false, message: 'Current password is incorrect.' };
+    }
+
+    user.passwordHash = await hashPassword(newPassword);
+    user.updatedAt = new Date().toISOString();
+    user.updatedBy = userId;
+    // The server revokes this user's tokens when the password changes
+    this.enrolForSync(userId, newPassword);
+    // Sign out other devices, keep this one
+    const token = localStorage.getItem(AUTH_TOKEN_KEY);
+    this.db.authSessions = this.db.authSessions.filter(s => s.userId !== userId || s.token === token);
+    this.markForSync('user', user.id);
+    this.save();
+
+    return { success: true, message: 'Password updated.' };
+  }
+
+  async resetPassword(adminId: string, userId: string, newPassword: string): Promise<{ success: boolean; message: string }> {
+    await this.ready;
+    const admin = this.db.users.find(u => u.id === adminId);
+    if (!admin || admin.role !== 'admin') {
+      return { success: false, message: 'Only administrators can reset passwords.' };
+    }
+    const user = this.db.users.find(u => u.id === userId);
+    if (!user) {
+      return { success: false, message: 'User not found.' };
+    }
+
+    user.passwordHash = await hashPassword(newPassword);
+    user.updatedAt = new Date().toISOString();
+    user.updatedBy = adminId;
+    // Force the user to sign in again everywhere
+    this.db.authSessions = this.db.authSessions.filter(s => s.userId !== userId);
+    this.markForSync('user', user.id);
+    this.save();
+
+    return { success: true, message: `Password reset for ${user.name}.` };
   }
 
-  registerUser(name: string, username: string, password: string, role: UserRole): { success: boolean; message: string } {
-    // 1. Check if username exists
+  async registerUser(name: string, username: string, password: string, inviteToken: string): Promise<{ success: boolean; message: string }> {
+    await this.ready;
+    // Hash up front so the checks and the write below happen without yielding
+    const passwordHash = await hashPassword(password);
+
+    // 1. Check the invite
+    const invite = this.validateInvite(inviteToken);
+    if (!invite) {
+      return { success: false, message: 'This invite link is invalid, expired or already used.' };
+    }
+    const inviter = this.db.users.find(u => u.id === invite.createdBy);
+    if (!inviter || inviter.role !== 'admin') {
+      return { success: false, message: 'Invites must be issued by an administrator.' };
+    }
+
+    // 2. Check if username exists
     const exists = this.db.users.some(u => u.username.toLowerCase() === username.toLowerCase());
     if (exists) {
       return { success: false, message: 'Username already taken.' };
     }
 
-    // 2. Create new user
+    // 3. Create new user, with the role (and name, if fixed) taken from the invite
+    const id = Math.random().toString(36).substring(2, 10);
     const newUser: StoredUser = {
-      id: Math.random().toString(36).substring(2, 10),
-      name,
+      id,
+      name: invite.name || name,
       username,
-      passwordHash: password,
-      role
+      passwordHash,
+      role: invite.role,
+      updatedBy: id, // the invite vouches for the account
     };
 
-    // 3. Save
+    // 4. Save and burn the invite
     this.db.users.push(newUser);
+    invite.usedAt = new Date().toISOString();
+    invite.usedBy = newUser.id;
+    this.markForSync('user', newUser.id);
+    this.markForSync('invite', invite.token);
+    this.enrolForSync(newUser.id, password);
     this.save();
 
     return { success: true, message: 'Account created successfully.' };
   }
 
+  // Invite Methods
+  createInvite(adminId: string, role: UserRole, name: string | undefined, validDays: number): { success: boolean; message: string; invite?: Invite } {
+    const admin = this.db.users.find(u => u.id === adminId);
+    if (!admin || admin.role !== 'admin') {
+      return { success: false, message: 'Only administrators can create invites.' };
+    }
+
+    const now = Date.now();
+    const invite: Invite = {
+      token: generateToken(12),
+      role,
+      name: name?.trim() || undefined,
+      createdBy: adminId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + validDays * 24 * 60 * 60 * 1000).toISOString(),
+    };
+
+    this.db.invites.unshift(invite);
+    this.markForSync('invite', invite.token);
+    this.save();
+
+    return { success: true, message: 'Invite created.', invite };
+  }
+
+  getInvites(): Invite[] {
+    return this.db.invites;
+  }
+
+  // Returns the invite only if it exists, is unused and hasn't expired
+  validateInvite(token: string): Invite | null {
+    const invite = this.db.invites.find(i => i.token === token);
+    if (!invite || invite.usedAt || new Date(invite.expiresAt).getTime() <= Date.now()) {
+      return null;
+    }
+    return invite;
+  }
+
+  revokeInvite(token: string) {
+    this.db.invites = this.db.invites.filter(i => i.token !== token);
+    this.markForSync('invite', token);
+    this.save();
+  }
+
   // User Methods
-  getAllTherapists(): User[] {
+  getAllUsers(): User[] {
+    return this.db.users.map(u => this.toSafeUser(u));
+  }
+
+  // Deactivated therapists are left out of pickers for new work; reports over past sessions pass includeInactive
+  getAllTherapists(includeInactive = false): User[] {
     return this.db.users
-      .filter(u => u.role === 'therapist')
+      .filter(u => u.role === 'therapist' && (includeInactive || !u.deactivatedAt))
       .map(({ passwordHash, ...u }) => u);
   }
 
-  // Session Methods
-  addSession(session: Session) {
-    this.db.sessions.unshift(session); // Add to top
+  private isActiveAdmin(user: StoredUser): boolean {
+    return user.role === 'admin' && !user.deactivatedAt;
+  }
+
+  // Contract details only apply to therapists; blank optional fields are dropped
+  private normalizeContract(role: UserRole, contract: ContractDetails | undefined): ContractDetails | undefined {
+    if (role !== 'therapist' || !contract) return undefined;
+    return {
+      employmentType: contract.employmentType,
+      startDate: contract.startDate || undefined,
+      payoutReference: contract.payoutReference?.trim() || undefined,
+    };
+  }
+
+  async createUser(adminId: string, fields: UserEditableFields, password: string): Promise<{ success: boolean; message: string; user?: User }> {
+    await this.ready;
+    // Hash up front so the checks and the write below happen without yielding
+    const passwordHash = await hashPassword(password);
+
+    // 1. Only administrators manage accounts
+    const admin = this.db.users.find(u => u.id === adminId);
+    if (!admin || admin.role !== 'admin') {
+      return { success: false, message: 'Only administrators can create users.' };
+    }
+
+    // 2. Validate
+    const name = fields.name.trim();
+    const username = fields.username.trim();
+    if (!name || !username) {
+      return { success: false, message: 'Name and username are required.' };
+    }
+    if (this.db.users.some(u => u.username.toLowerCase() === username.toLowerCase())) {
+      return { success: false, message: 'Username already taken.' };
+    }
+
+    // 3. Create and save
+    const newUser: StoredUser = {
+      id: Math.random().toString(36).substring(2, 10),
+      name,
+      username,
+      passwordHash,
+      role: fields.role,
+      contract: this.normalizeContract(fields.role, fields.contract),
+      updatedAt: new Date().toISOString(),
+      updatedBy: adminId,
+    };
+    this.db.users.push(newUser);
+    this.markForSync('user', newUser.id);
+    this.save();
+
+    return { success: true, message: `Account created for ${name}.`, user: this.toSafeUser(newUser) };
+  }
+
+  updateUser(adminId: string, userId: string, fields: UserEditableFields): { success: boolean; message: string } {
+    // 1. Only administrators manage accounts
+    const admin = this.db.users.find(u => u.id === adminId);
+    if (!admin || admin.role !== 'admin') {
+      return { success: false, message: 'Only administrators can edit users.' };
+    }
+    const user = this.db.users.find(u => u.id === userId);
+    if (!user) {
+      return { success: false, message: 'User not found.' };
+    }
+
+    // 2. Validate
+    const name = fields.name.trim();
+    const username = fields.username.trim();
+    if (!name || !username) {
+      return { success: false, message: 'Name and username are required.' };
+    }
+    if (this.db.users.some(u => u.id !== userId && u.username.toLowerCase() === username.toLowerCase())) {
+      return { success: false, message: 'Username already taken.' };
+    }
+    // The clinic must always have someone who can sign in and manage it
+    if (user.role === 'admin' && fields.role !== 'admin') {
+      if (user.id === adminId) {
+        return { success: false, message: 'You cannot remove your own administrator role.' };
+      }
+      if (this.isActiveAdmin(user) && this.db.users.filter(u => this.isActiveAdmin(u)).length === 1) {
+        return { success: false, message: 'At least one active administrator is required.' };
+      }
+    }
+
+    // 3. Apply. Sessions keep the therapist name they were logged under.
+    user.name = name;
+    user.username = username;
+    user.role = fields.role;
+    user.contract = this.normalizeContract(fields.role, fields.contract);
+    user.updatedAt = new Date().toISOString();
+    user.updatedBy = adminId;
+    this.markForSync('user', user.id);
     this.save();
+
+    return { success: true, message: `${name} updated.` };
+  }
+
+  setUserActive(adminId: string, userId: string, active: boolean): { success: boolean; message: string } {
+    const admin = this.db.users.find(u => u.id === adminId);
+    if (!admin || admin.role !== 'admin') {
+      return { success: false, message: 'Only administrators can deactivate users.' };
+    }
+    const user = this.db.users.find(u => u.id === userId);
+    if (!user) {
+      return { success: false, message: 'User not found.' };
+    }
+    if (!active && user.id === adminId) {
+      return { success: false, message: 'You cannot deactivate your own account.' };
+    }
+    if (!active && this.isActiveAdmin(user) && this.db.users.filter(u => this.isActiveAdmin(u)).length === 1) {
+      return { success: false, message: 'At least one active administrator is required.' };
+    }
+
+    // Deactivation only blocks sign-in; the user's sessions, invoices and pay periods are kept for reporting
+    user.deactivatedAt = active ? undefined : new Date().toISOString();
+    user.updatedAt = new Date().toISOString();
+    user.updatedBy = adminId;
+    if (!active) {
+      this.db.authSessions = this.db.authSessions.filter(s => s.userId !== userId);
+    }
+    this.markForSync('user', user.id);
+    this.save();
+
+    return { success: true, message: `${user.name} ${active ? 'reactivated' : 'deactivated'}.` };
+  }
+
+  // Audit log is append-only: entries are written here and never modified or removed
+  private appendAudit(action: AuditAction, actorId: string, before: Session | null, after: Session, reason?: string) {
+    const actor = this.db.users.find(u => u.id === actorId);
+    const snapshot = ({ signatureDataUrl, ...rest }: Session) => rest;
+    this.db.auditLog.push({
+      id: Math.random().toString(36).substring(2, 12),
+      sessionId: after.id,
+      action,
+      actorId,
+      actorName: actor?.name || 'Unknown',
+      at: new Date().toISOString(),
+      before: before ? snapshot(before) : null,
+      after: snapshot(after),
+      reason,
+    });
+  }
+
+  private isInvoiced(sessionId: string): boolean {
+    return this.db.invoices.some(i => i.lineItems.some(item => item.sessionId === sessionId));
+  }
+
+  // Returns an error message when the treatment can't be logged for that duration
+  private checkTreatment(treatmentType: TreatmentType, durationMinutes: number): string | null {
+    const treatment = findTreatment(this.db.treatments, treatmentType);
+    if (!treatment || !treatment.active) return 'This treatment is not in the active catalogue.';
+    if (!isAllowedDuration(treatment, durationMinutes)) {
+      return `${treatment.name} can't be ${durationMinutes} minutes (allowed: ${treatment.allowedDurations.join(', ')}).`;
+    }
+    return null;
+  }
+
+  private periodStatusAt(therapistId: string, timestamp: string): PeriodStatus {
+    const d = new Date(timestamp);
+    return this.getPeriodStatus(therapistId, d.getMonth(), d.getFullYear());
+  }
+
+  // Session Methods
+  async addSession(session: Session): Promise<{ success: boolean; message: string }> {
+    const treatmentError = this.checkTreatment(session.treatmentType, session.durationMinutes);
+    if (treatmentError) {
+      return { success: false, message: treatmentError };
+    }
+    if (LOCKED_STATUSES.includes(this.periodStatusAt(session.therapistId, session.timestamp))) {
+      return { success: false, message: 'Payroll for this month is closed. Ask an administrator to reopen it.' };
+    }
+
+    // The signature image goes to its own store; the session records that it was signed and seals it
+    const { signatureDataUrl, ...rest } = session;
+    const signature = signatureDataUrl ? dataUrlToBlob(signatureDataUrl) : null;
+    const stored: Session = { ...rest, signed: !!signature };
+    if (signature) {
+      stored.seal = await createSeal(stored, signature, latestSealHash(this.db.sessions));
+    }
+    this.db.sessions.unshift(stored); // Add to top
+    this.appendAudit('create', session.therapistId, null, stored);
+    this.markForSync('session', stored.id);
+    this.save([stored], signature ? [{ sessionId: stored.id, blob: signature }] : []);
+
+    return { success: true, message: 'Session logged.' };
+  }
+
+  updateSession(actorId: string, sessionId: string, changes: SessionEditableFields): { success: boolean; message: string } {
+    const index = this.db.sessions.findIndex(s => s.id === sessionId);
+    const session = this.db.sessions[index];
+    if (!session) {
+      return { success: false, message: 'Session not found.' };
+    }
+    if (session.therapistId !== actorId) {
+      return { success: false, message: 'You can only edit your own sessions.' };
+    }
+    if (session.voidedAt) {
+      return { success: false, message: 'Voided sessions cannot be edited.' };
+    }
+    if (this.isInvoiced(sessionId)) {
+      return { success: false, message: 'This session has already been invoiced.' };
+    }
+    if (this.periodStatusAt(session.therapistId, session.timestamp) !== 'draft') {
+      return { success: false, message: 'This month has been submitted for approval.' };
+    }
+    const treatmentError = this.checkTreatment(changes.treatmentType, changes.durationMinutes);
+    if (treatmentError) {
+      return { success: false, message: treatmentError };
+    }
+
+    const updated: Session = { ...session, ...changes, updatedAt: new Date().toISOString() };
+    this.db.sessions[index] = updated;
+    this.appendAudit('edit', actorId, session, updated);
+    this.markForSync('session', updated.id);
+    this.save([updated]);
+
+    return { success: true, message: 'Session updated.' };
+  }
+
+  voidSession(adminId: string, sessionId: string, reason: string): { success: boolean; message: string } {
+    const admin = this.db.users.find(u => u.id === adminId);
+    if (!admin || admin.role !== 'admin') {
+      return { success: false, message: 'Only administrators can void sessions.' };
+    }
+    if (!reason.trim()) {
+      return { success: false, message: 'A reason is required to void a session.' };
+    }
+    const index = this.db.sessions.findIndex(s => s.id === sessionId);
+    const session = this.db.sessions[index];
+    if (!session) {
+      return { success: false, message: 'Session not found.' };
+    }
+    if (session.voidedAt) {
+      return { success: false, message: 'Session is already voided.' };
+    }
+    if (this.isInvoiced(sessionId)) {
+      return { success: false, message: 'This session has already been invoiced, so it can no longer be voided.' };
+    }
+    if (LOCKED_STATUSES.includes(this.periodStatusAt(session.therapistId, session.timestamp))) {
+      return { success: false, message: 'Payroll for this month is closed. Reopen it before voiding sessions.' };
+    }
+
+    const voided: Session = { ...session, voidedAt: new Date().toISOString(), voidedBy: adminId, voidReason: reason.trim() };
+    this.db.sessions[index] = voided;
+    this.appendAudit('void', adminId, session, voided, reason.trim());
+    this.markForSync('session', voided.id);
+    this.save([voided]);
+
+    return { success: true, message: 'Session voided.' };
+  }
+
+  // Historical sessions from a spreadsheet; drafts are checked in importService before they get here
+  importSessions(adminId: string, drafts: SessionDraft[]): { success: boolean; message: string; imported: number } {
+    const admin = this.db.users.find(u => u.id === adminId);
+    if (!admin || admin.role !== 'admin') {
+      return { success: false, message: 'Only administrators can import sessions.', imported: 0 };
+    }
+
+    const importedAt = new Date().toISOString();
+    const sessions: Session[] = [];
+    drafts.forEach(draft => {
+      // 1. Re-check what may have changed since the preview (retired treatments are fine on old timesheets)
+      const treatment = findTreatment(this.db.treatments, draft.treatmentType);
+      if (!treatment || !isAllowedDuration(treatment, draft.durationMinutes)) return;
+      if (LOCKED_STATUSES.includes(this.periodStatusAt(draft.therapistId, draft.timestamp))) return;
+
+      // 2. Link to the registry, registering patients seen for the first time
+      let patient = findMatchingPatient(this.db.patients, draft.patientName);
+      if (!patient) {
+        patient = {
+          id: Math.random().toString(36).substring(2, 10),
+          name: draft.patientName.trim(),
+          consent: { treatment: true, dataProcessing: false, contact: false },
+          createdAt: importedAt,
+          createdBy: adminId,
+        };
+        this.db.patients.push(patient);
+        this.markForSync('patient', patient.id);
+      }
+
+      // 3. Store unsigned and record who brought it in
+      const session: Session = {
+        ...draft,
+        id: Math.random().toString(36).substring(2, 10),
+        patientId: patient.id,
+        signed: false,
+        importedAt,
+      };
+      this.db.sessions.push(session);
+      this.appendAudit('create', adminId, null, session, 'Imported from spreadsheet');
+      this.markForSync('session', session.id);
+      sessions.push(session);
+    });
+
+    this.db.sessions.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    this.save(sessions);
+
+    const skipped = drafts.length - sessions.length;
+    return {
+      success: true,
+      message: `Imported ${sessions.length} session${sessions.length === 1 ? '' : 's'}.${skipped ? ` ${skipped} could no longer be imported.` : ''}`,
+      imported: sessions.length,
+    };
+  }
+
+  canEditSession(userId: string, session: Session): boolean {
+    return session.therapistId === userId
+      && !session.voidedAt
+      && !this.isInvoiced(session.id)
+      && this.periodStatusAt(session.therapistId, session.timestamp) === 'draft';
+  }
+
+  getAuditLog(sessionId?: string): AuditEntry[] {
+    const entries = sessionId
+      ? this.db.auditLog.filter(e => e.sessionId === sessionId)
+      : this.db.auditLog;
+    // Newest first, as copies so callers can't rewrite history
+    return entries.slice().reverse().map(e => ({ ...e }));
   }
 
   getSessions(userId: string, role: string): Session[] {
     if (role === 'admin') {
-      return this.db.sessions;
+      return this.db.sessions.slice();
     }
     return this.db.sessions.filter(s => s.therapistId === userId);
   }
+
+  // A single session for its detail page; only the treating therapist and admins can open one
+  getSession(userId: string, sessionId: string): Session | null {
+    const user = this.db.users.find(u => u.id === userId);
+    const session = this.db.sessions.find(s => s.id === sessionId);
+    if (!user || !session) return null;
+    return user.role === 'admin' || session.therapistId === userId ? { ...session } : null;
+  }
+
+  saveClinicalNote(userId: string, sessionId: string, note: ClinicalNoteDraft): { success: boolean; message: string } {
+    const index = this.db.sessions.findIndex(s => s.id === sessionId);
+    const session = this.db.sessions[index];
+    if (!session) {
+      return { success: false, message: 'Session not found.' };
+    }
+    if (session.therapistId !== userId) {
+      return { success: false, message: 'Only the treating therapist can write clinical notes.' };
+    }
+
+    const updated: Session = {
+      ...session,
+      clinicalNote: { ...note, bodyMarks: note.bodyMarks.map(m => ({ ...m })), updatedAt: new Date().toISOString(), updatedBy: userId },
+    };
+    this.db.sessions[index] = updated;
+    this.markForSync('session', updated.id);
+    this.save([updated]);
+
+    return { success: true, message: 'Clinical notes saved.' };
+  }
+
+  // Reads a month straight from IndexedDB via the month indexes, including changes still being written
+  async getSessionsForMonth(userId: string, role: string, month: number, year: number): Promise<Session[]> {
+    await this.ready;
+    await this.writeQueue;
+    const key = monthKey(new Date(year, month, 1).toISOString());
+    const sessions = await readSessionsByMonth(this.idb!, key, role === 'admin' ? undefined : userId);
+    return sessions.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  // Signature images are loaded on demand as data URLs
+  async getSignature(sessionId: string): Promise<string | undefined> {
+    await this.ready;
+    await this.writeQueue;
+    const blob = await readSignature(this.idb!, sessionId);
+    return blob ? blobToDataUrl(blob) : undefined;
+  }
+
+  // Checks every given session's seal against its current fields, stored signature and the chain
+  async verifySignatures(sessions: Session[]): Promise<Record<string, SealCheck>> {
+    await this.ready;
+    await this.writeQueue;
+    const knownHashes = new Set(this.db.sessions.filter(s => s.seal).map(s => s.seal!.hash));
+    const checks: Record<string, SealCheck> = {};
+
+    for (const session of sessions) {
+      const current = this.db.sessions.find(s => s.id === session.id) || session;
+      const signedAt = current.seal?.signedAt;
+      checks[session.id] = await checkSeal({
+        session: current,
+        signature: current.seal ? await readSignature(this.idb!, current.id) || null : null,
+        knownHashes,
+        editedAfterSigning: !!signedAt && this.db.auditLog.some(e =>
+          e.sessionId === current.id && e.action === 'edit' && e.at >= signedAt
+        ),
+      });
+    }
+    return checks;
+  }
+
+  // Patient Methods
+  getPatients(): Patient[] {
+    return this.db.patients.slice().sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getPatient(id: string): Patient | undefined {
+    return this.db.patients.find(p => p.id === id);
+  }
+
+  addPatient(actorId: string, draft: Omit<Patient, 'id' | 'createdAt' | 'createdBy'>): { success: boolean; message: string; patient?: Patient } {
+    const name = draft.name.trim();
+    if (!name) {
+      return { success: false, message: 'Patient name is required.' };
+    }
+    const duplicate = this.db.patients.find(p =>
+      p.name.toLowerCase() === name.toLowerCase() && (p.dateOfBirth || '') === (draft.dateOfBirth || '')
+    );
+    if (duplicate) {
+      return { success: false, message: `${duplicate.name} is already registered.` };
+    }
+
+    const patient: Patient = {
+      ...draft,
+      name,
+      id: Math.random().toString(36).substring(2, 10),
+      createdAt: new Date().toISOString(),
+      createdBy: actorId,
+    };
+    this.db.patients.push(patient);
+    this.markForSync('patient', patient.id);
+    this.save();
+
+    return { success: true, message: 'Patient added.', patient };
+  }
+
+  updatePatient(patient: Patient) {
+    const index = this.db.patients.findIndex(p => p.id === patient.id);
+    if (index < 0) return;
+    this.db.patients[index] = { ...patient, name: patient.name.trim(), updatedAt: new Date().toISOString() };
+    this.markForSync('patient', patient.id);
+    this.save();
+  }
+
+  // Appointment Methods
+  getAppointments(userId: string, role: string): Appointment[] {
+    const visible = role === 'admin'
+      ? this.db.appointments
+      : this.db.appointments.filter(a => a.therapistId === userId);
+    return visible.slice().sort((a, b) => a.start.localeCompare(b.start));
+  }
+
+  bookAppointment(actorId: string, draft: Omit<Appointment, 'id' | 'status' | 'createdBy' | 'createdAt'>): { success: boolean; message: string; appointment?: Appointment } {
+    const actor = this.db.users.find(u => u.id === actorId);
+    if (!actor || (actor.role !== 'admin' && actor.id !== draft.therapistId)) {
+      return { success: false, message: "You can only book your own appointments." };
+    }
+
+    const treatmentError = this.checkTreatment(draft.treatmentType, draft.durationMinutes);
+    if (treatmentError) {
+      return { success: false, message: treatmentError };
+    }
+
+    // 1. No double-booking the therapist
+    const start = new Date(draft.start).getTime();
+    const end = start + draft.durationMinutes * 60000;
+    const clash = this.db.appointments.find(a => {
+      if (a.therapistId !== draft.therapistId || a.status === 'cancelled' || a.status === 'late_cancel') return false;
+      const aStart = new Date(a.start).getTime();
+      return aStart < end && start < aStart + a.durationMinutes * 60000;
+    });
+    if (clash) {
+      return { success: false, message: `${draft.therapistName} already has ${clash.patientName} at ${new Date(clash.start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.` };
+    }
+
+    // 2. Save
+    const appointment: Appointment = {
+      ...draft,
+      id: Math.random().toString(36).substring(2, 10),
+      status: 'booked',
+      createdBy: actorId,
+      createdAt: new Date().toISOString(),
+    };
+    this.db.appointments.push(appointment);
+    this.save();
+
+    return { success: true, message: 'Appointment booked.', appointment };
+  }
+
+  setAppointmentStatus(actorId: string, appointmentId: string, status: AppointmentStatus, sessionId?: string): { success: boolean; message: string } {
+    const actor = this.db.users.find(u => u.id === actorId);
+    const appointment = this.db.appointments.find(a => a.id === appointmentId);
+    if (!appointment) {
+      return { success: false, message: 'Appointment not found.' };
+    }
+    if (!actor || (actor.role !== 'admin' && actor.id !== appointment.therapistId)) {
+      return { success: false, message: "You can only update your own appointments." };
+    }
+    if (appointment.status !== 'booked') {
+      return { success: false, message: `This appointment is already ${appointment.status.replace('_', ' ')}.` };
+    }
+
+    appointment.status = status;
+    appointment.statusChangedBy = actorId;
+    appointment.statusChangedAt = new Date().toISOString();
+    if (sessionId) appointment.sessionId = sessionId;
+    this.save();
+
+    return { success: true, message: 'Appointment updated.' };
+  }
+
+  // Pay Period Methods
+  getPayPeriod(therapistId: string, month: number, year: number): PayPeriod | undefined {
+    return this.db.payPeriods.find(p => p.therapistId === therapistId && p.month === month && p.year === year);
+  }
+
+  getPeriodStatus(therapistId: string, month: number, year: number): PeriodStatus {
+    return this.getPayPeriod(therapistId, month, year)?.status || 'draft';
+  }
+
+  isPeriodLocked(therapistId: string, month: number, year: number): boolean {
+    return LOCKED_STATUSES.includes(this.getPeriodStatus(therapistId, month, year));
+  }
+
+  // Statuses the given user may move this period to next
+  getAllowedTransitions(userId: string, therapistId: string, month: number, year: number): PeriodStatus[] {
+    const user = this.db.users.find(u => u.id === userId);
+    if (!user) return [];
+    const from = this.getPeriodStatus(therapistId, month, year);
+    const targets = PERIOD_TRANSITIONS
+      .filter(t => t.from === from && (t.role === user.role || (t.role === 'owner' && userId === therapistId)))
+      .map(t => t.to);
+    return Array.from(new Set(targets));
+  }
+
+  transitionPeriod(actorId: string, therapistId: string, month: number, year: number, to: PeriodStatus): { success: boolean; message: string } {
+    const actor = this.db.users.find(u => u.id === actorId);
+    if (!actor || !this.getAllowedTransitions(actorId, therapistId, month, year).includes(to)) {
+      return { success: false, message: `You can't move this month to "${to}".` };
+    }
+
+    let period = this.getPayPeriod(therapistId, month, year);
+    if (!period) {
+      period = { therapistId, month, year, status: 'draft', history: [] };
+      this.db.payPeriods.push(period);
+    }
+
+    period.history.push({ from: period.status, to, at: new Date().toISOString(), by: actorId, byName: actor.name });
+    period.status = to;
+    this.markForSync('payPeriod', payPeriodId(period));
+    this.save();
+
+    return { success: true, message: `Month marked as ${to}.` };
+  }
+
+  // Treatment Catalogue Methods
+  getTreatments(includeInactive = false): Treatment[] {
+    return includeInactive ? this.db.treatments : this.db.treatments.filter(t => t.active);
+  }
+
+  saveTreatment(adminId: string, treatment: Treatment): { success: boolean; message: string } {
+    const admin = this.db.users.find(u => u.id === adminId);
+    if (!admin || admin.role !== 'admin') {
+      return { success: false, message: 'Only administrators can edit the treatment catalogue.' };
+    }
+    const error = validateTreatment(treatment, this.db.treatments);
+    if (error) {
+      return { success: false, message: error };
+    }
+
+    const cleaned: Treatment = {
+      ...treatment,
+      name: treatment.name.trim(),
+      allowedDurations: Array.from(new Set(treatment.allowedDurations)).sort((a, b) => a - b),
+      updatedAt: new Date().toISOString(),
+    };
+    const index = this.db.treatments.findIndex(t => t.id === treatment.id);
+    if (index >= 0) {
+      this.db.treatments[index] = cleaned;
+    } else {
+      this.db.treatments.push(cleaned);
+    }
+    this.markForSync('treatment', cleaned.id);
+    this.save();
+
+    return { success: true, message: `${cleaned.name} saved.` };
+  }
+
+  // Rate Card Methods
+  getPayRates(): PayRate[] {
+    return this.db.payRates;
+  }
+
+  savePayRate(rate: PayRate) {
+    const index = this.db.payRates.findIndex(r => r.id === rate.id);
+    if (index >= 0) {
+      this.db.payRates[index] = rate;
+    } else {
+      this.db.payRates.push(rate);
+    }
+    this.save();
+  }
+
+  deletePayRate(id: string) {
+    this.db.payRates = this.db.payRates.filter(r => r.id !== id);
+    this.save();
+  }
+
+  // Clinic Methods
+  getClinicDetails(): ClinicDetails {
+    return { ...this.db.clinic };
+  }
+
+  updateClinicDetails(details: ClinicDetails) {
+    this.db.clinic = { ...details };
+    this.save();
+  }
+
+  // Invoice Methods
+  getInvoices(userId: string, role: string): Invoice[] {
+    if (role === 'admin') {
+      return this.db.invoices;
+    }
+    return this.db.invoices.filter(i => i.therapistId === userId);
+  }
+
+  findInvoice(therapistId: string, month: number, year: number): Invoice | undefined {
+    return this.db.invoices.find(i => i.therapistId === therapistId && i.month === month && i.year === year);
+  }
+
+  // Built from every session the therapist logged that month, whatever the dashboard is filtered to
+  draftInvoice(therapist: { id: string; name: string }, month: number, year: number, issuedBy: string): InvoiceDraft {
+    const sessions = this.db.sessions.filter(s => {
+      const d = new Date(s.timestamp);
+      return !s.voidedAt && s.therapistId === therapist.id && d.getMonth() === month && d.getFullYear() === year;
+    });
+    return buildInvoiceDraft(therapist, sessions, this.db.payRates, month, year, this.db.clinic, issuedBy, this.db.treatments);
+  }
+
+  issueInvoice(actorId: string, therapist: { id: string; name: string }, month: number, year: number): { success: boolean; message: string; invoice?: Invoice } {
+    // 1. Therapists invoice their own months, and only once payroll has been approved, so nothing logged later is left out
+    const actor = this.db.users.find(u => u.id === actorId);
+    if (!actor || (actor.role !== 'admin' && actorId !== therapist.id)) {
+      return { success: false, message: 'Only administrators and the therapist themself can issue this invoice.' };
+    }
+    if (!LOCKED_STATUSES.includes(this.getPeriodStatus(therapist.id, month, year))) {
+      return { success: false, message: 'Payroll for this month has to be approved before it can be invoiced.' };
+    }
+
+    // 2. One invoice per therapist per month
+    const draft = this.draftInvoice(therapist, month, year, actorId);
+    const existing = this.findInvoice(draft.therapistId, draft.month, draft.year);
+    if (existing) {
+      return { success: false, message: `Already invoiced as ${existing.number}.` };
+    }
+    if (!draft.lineItems.length) {
+      return { success: false, message: 'No sessions to invoice for this month.' };
+    }
+
+    // 3. Allocate the next number. The sequence is this device's own; its code keeps numbers from
+    // different devices apart.
+    this.db.invoiceSequence += 1;
+    this.db.sync.deviceCode ||= generateToken(2).toUpperCase();
+    const invoice: Invoice = {
+      ...draft,
+      id: Math.random().toString(36).substring(2, 10),
+      number: `INV-${draft.year}-${this.db.sync.deviceCode}-${String(this.db.invoiceSequence).padStart(4, '0')}`,
+      issuedAt: new Date().toISOString(),
+    };
+
+    // 4. Save
+    this.db.invoices.unshift(invoice);
+    this.markForSync('invoice', payPeriodId(invoice));
+    this.save();
+
+    return { success: true, message: `Invoice ${invoice.number} issued.`, invoice };
+  }
+
+  // Backup Methods
+  // Everything except per-device state (sync settings and login tokens), with signatures inlined
+  async exportBackup(adminId: string): Promise<{ success: boolean; message: string; contents?: BackupContents }> {
+    const admin = this.db.users.find(u => u.id === adminId);
+    if (!admin || admin.role !== 'admin') {
+      return { success: false, message: 'Only administrators can export backups.' };
+    }
+    await this.flush();
+
+    const signatures: Record<string, string> = {};
+    for (const record of await readAll<StoredSignature>(this.idb!, 'signatures')) {
+      signatures[record.sessionId] = await blobToDataUrl(record.blob);
+    }
+    const { sync, authSessions, analysis, ...data } = this.db;
+
+    return {
+      success: true,
+      message: 'Backup ready.',
+      contents: {
+        schemaVersion: this.db.schemaVersion,
+        exportedAt: new Date().toISOString(),
+        exportedBy: admin.name,
+        data: structuredClone(data),
+        signatures,
+      },
+    };
+  }
+
+  // Brings a backup from an older schema up to date; throws if it is from a newer app version
+  private upgradeBackup(contents: BackupContents): Partial<DatabaseSchema> {
+    if (contents.schemaVersion > SCHEMA_VERSION) {
+      throw new Error('This backup was made by a newer version of PhysioTrack.');
+    }
+    return (contents.schemaVersion < SCHEMA_VERSION
+      ? runMigrations(contents.data, contents.schemaVersion)
+      : contents.data) as Partial<DatabaseSchema>;
+  }
+
+  previewRestore(contents: BackupContents): RestorePreviewRow[] {
+    return buildRestorePreview(this.db, this.upgradeBackup(contents));
+  }
+
+  async restoreBackup(adminId: string, contents: BackupContents, mode: RestoreMode): Promise<{ success: boolean; message: string }> {
+    const admin = this.db.users.find(u => u.id === adminId);
+    if (!admin || admin.role !== 'admin') {
+      return { success: false, message: 'Only administrators can restore backups.' };
+    }
+
+    // 1. Bring the backup up to the current schema
+    let incoming: Partial<DatabaseSchema>;
+    try {
+      incoming = this.upgradeBackup(contents);
+    } catch (error) {
+      return { success: false, message: error instanceof Error ? error.message : 'The backup could not be read.' };
+    }
+
+    // 2. Keep a copy of what is here now
+    await this.flush();
+    await saveBackup(this.idb!, {
+      id: Math.random().toString(36).substring(2, 10),
+      createdAt: new Date().toISOString(),
+      schemaVersion: this.db.schemaVersion,
+      reason: `Before ${mode} restore`,
+      data: JSON.stringify(this.db),
+    });
+
+    // 3. Combine, keeping this device's sync settings and any logins that still have a user. Replaced data
+    // has nothing to do with the revisions synced so far, so it is pulled and pushed afresh.
+    const previous = this.db;
+    const merged = mergeCollections(previous, incoming, mode) as DatabaseSchema;
+    merged.schemaVersion = SCHEMA_VERSION;
+    merged.sync = mode === 'replace' ? { ...previous.sync, lastPulledRev: 0, revs: {}, outbox: {} } : previous.sync;
+    merged.analysis = previous.analysis;
+    merged.authSessions = previous.authSessions.filter(s => merged.users.some(u => u.id === s.userId));
+    const localSessions = new Set(previous.sessions.map(s => s.id));
+    merged.sessions = merged.sessions.map(s => {
+      const signatureDataUrl = contents.signatures[s.id];
+      // Merging never overwrites a session already here, so only new ones take the backup's signature
+      return signatureDataUrl && (mode === 'replace' || !localSessions.has(s.id)) ? { ...s, signatureDataUrl } : s;
+    });
+    merged.sessions.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    // 4. Write it all in one transaction, putting things back if that fails
+    this.db = merged;
+    try {
+      await this.writeAll(mode === 'replace');
+    } catch (error) {
+      this.db = previous;
+      console.error("Restore failed:", error);
+      return { success: false, message: 'The restore could not be saved. Nothing has been changed.' };
+    }
+
+    // 5. Let other devices pick up what changed; replaced data is all sent again
+    if (mode === 'replace') {
+      this.markAllForSync();
+    } else {
+      const changed = <T>(before: T[], after: T[], id: (r: T) => string) => {
+        const old = new Map(before.map(r => [id(r), JSON.stringify(r)]));
+        return after.filter(r => old.get(id(r)) !== JSON.stringify(r)).map(id);
+      };
+      changed(previous.sessions, this.db.sessions, s => s.id).forEach(id => this.markForSync('session', id));
+      changed(previous.users, this.db.users, u => u.id).forEach(id => this.markForSync('user', id));
+      changed(previous.invites, this.db.invites, i => i.token).forEach(id => this.markForSync('invite', id));
+      changed(previous.payPeriods, this.db.payPeriods, payPeriodId).forEach(id => this.markForSync('payPeriod', id));
+      changed(previous.treatments, this.db.treatments, t => t.id).forEach(id => this.markForSync('treatment', id));
+      changed(previous.patients, this.db.patients, p => p.id).forEach(id => this.markForSync('patient', id));
+      changed(previous.invoices, this.db.invoices, payPeriodId).forEach(id => this.markForSync('invoice', id));
+      changed(previous.analysisPromptLog, this.db.analysisPromptLog, e => e.id).forEach(id => this.markForSync('promptLog', id));
+    }
+    this.save();
+
+    return { success: true, message: mode === 'replace' ? 'Data replaced from the backup.' : 'Backup merged into this device.' };
+  }
+
+  // Sync Methods
+  getSyncSettings(): SyncSettings {
+    const { serverUrl, key } = this.db.sync;
+    return { serverUrl, key };
+  }
+
+  updateSyncSettings(settings: SyncSettings) {
+    const serverUrl = settings.serverUrl.trim().replace(/\/+$/, '');
+    if (serverUrl !== this.db.sync.serverUrl) {
+      // A different server knows nothing of our revisions: pull everything and push everything
+      this.db.sync.lastPulledRev = 0;
+      this.db.sync.revs = {};
+      this.db.sync.viewerTokens = {};
+      delete this.db.sync.pulledAs;
+      this.markAllForSync();
+    }
+    this.db.sync.serverUrl = serverUrl;
+    this.db.sync.key = settings.key.trim();
+    delete this.db.sync.lastError;
+    this.save();
+  }
+
+  // Analysis Methods
+  getAnalysisSettings(): AnalysisSettings {
+    return { ...this.db.analysis };
+  }
+
+  updateAnalysisSettings(adminId: string, settings: AnalysisSettings): { success: boolean; message: string } {
+    const admin = this.db.users.find(u => u.id === adminId);
+    if (!admin || admin.role !== 'admin') {
+      return { success: false, message: 'Only administrators can change the analysis provider.' };
+    }
+
+    // The policy is shared with every synced device, so it counts as set once an administrator saves it
+    const policyChanged = settings.privacy !== this.db.analysis.privacy || !this.db.analysis.privacySetAt;
+    this.db.analysis = {
+      ...settings,
+      ...(policyChanged ? { privacySetAt: new Date().toISOString(), privacySetBy: admin.id } : {}),
+      geminiApiKey: settings.geminiApiKey.trim(),
+      geminiModel: settings.geminiModel.trim() || DEFAULT_ANALYSIS_SETTINGS.geminiModel,
+      endpointUrl: settings.endpointUrl.trim().replace(/\/+$/, ''),
+      endpointModel: settings.endpointModel.trim(),
+      endpointApiKey: settings.endpointApiKey.trim(),
+    };
+    if (policyChanged) this.markForSync('analysisPolicy', ANALYSIS_POLICY_ID);
+    this.save();
+
+    return { success: true, message: 'Analysis settings saved. The privacy policy applies on every synced device; the provider and keys only on this one.' };
+  }
+
+  // Therapists only see analyses of their own work; newest first
+  getSavedAnalyses(userId: string, scope: AnalysisScope): SavedAnalysis[] {
+    const user = this.db.users.find(u => u.id === userId);
+    if (!user || (user.role !== 'admin' && scope.therapistId !== user.id)) return [];
+    return this.db.analysisHistory
+      .filter(a => sameScope(a, scope))
+      .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+  }
+
+  saveAnalysis(userId: string, scope: AnalysisScope, inputHash: string, result: AnalysisResult): { success: boolean; message: string; saved?: SavedAnalysis } {
+    const user = this.db.users.find(u => u.id === userId);
+    if (!user || (user.role !== 'admin' && scope.therapistId !== user.id)) {
+      return { success: false, message: 'You can only save analyses of your own sessions.' };
+    }
+
+    // 1. Add the new version
+    const saved: SavedAnalysis = {
+      id: Math.random().toString(36).substring(2, 10),
+      therapistId: scope.therapistId,
+      ...(scope.patientId ? { patientId: scope.patientId } : {}),
+      period: { ...scope.period },
+      inputHash,
+      result,
+      generatedAt: new Date().toISOString(),
+      generatedBy: user.name,
+    };
+    this.db.analysisHistory.push(saved);
+
+    // 2. Drop the oldest versions of this report beyond the limit
+    const expired = new Set(this.getSavedAnalyses(userId, scope).slice(MAX_SAVED_ANALYSES).map(a => a.id));
+    this.db.analysisHistory = this.db.analysisHistory.filter(a => !expired.has(a.id));
+    this.save();
+
+    return { success: true, message: 'Analysis saved.', saved };
+  }
+
+  // Called with every prompt before it is sent off the device
+  logAnalysisPrompt(userId: string, entry: Omit<PromptLogEntry, 'id' | 'sentAt' | 'sentBy'>) {
+    const user = this.db.users.find(u => u.id === userId);
+    const logged: PromptLogEntry = {
+      id: Math.random().toString(36).substring(2, 12),
+      sentAt: new Date().toISOString(),
+      sentBy: user?.name || 'Unknown',
+      ...entry,
+    };
+    this.db.analysisPromptLog.push(logged);
+    this.markForSync('promptLog', logged.id);
+    this.save();
+  }
+
+  getPromptLog(adminId: string): PromptLogEntry[] {
+    const admin = this.db.users.find(u => u.id === adminId);
+    if (!admin || admin.role !== 'admin') return [];
+    return this.db.analysisPromptLog.slice().reverse().map(e => ({ ...e }));
+  }
+
+  getSyncState(): { pending: number; lastSyncedAt?: string; lastError?: string } {
+    const { outbox, lastSyncedAt, lastError } = this.db.sync;
+    return { pending: Object.keys(outbox).length, lastSyncedAt, lastError };
+  }
+
+  // Called whenever a record is queued for sync; returns an unsubscribe function
+  onOutboxChange(listener: () => void): () => void {
+    this.outboxListeners.push(listener);
+    return () => {
+      this.outboxListeners = this.outboxListeners.filter(l => l !== listener);
+    };
+  }
+
+  private findSyncRecord(kind: SyncKind, id: string): SyncEntry | undefined {
+    switch (kind) {
+      case 'session': {
+        const record = this.db.sessions.find(s => s.id === id);
+        return record && { kind, record };
+      }
+      case 'user': {
+        const record = this.db.users.find(u => u.id === id);
+        return record && { kind, record };
+      }
+      case 'invite': {
+        const record = this.db.invites.find(i => i.token === id);
+        return record && { kind, record };
+      }
+      case 'payPeriod': {
+        const record = this.db.payPeriods.find(p => payPeriodId(p) === id);
+        return record && { kind, record };
+      }
+      case 'treatment': {
+        const record = this.db.treatments.find(t => t.id === id);
+        return record && { kind, record };
+      }
+      case 'patient': {
+        const record = this.db.patients.find(p => p.id === id);
+        return record && { kind, record };
+      }
+      case 'invoice': {
+        const record = this.db.invoices.find(i => payPeriodId(i) === id);
+        return record && { kind, record };
+      }
+      case 'analysisPolicy': {
+        const { privacy, privacySetAt, privacySetBy } = this.db.analysis;
+        // Only the policy, never the provider or its keys
+        return id === ANALYSIS_POLICY_ID && privacySetAt && privacySetBy
+          ? { kind, record: { privacy, updatedAt: privacySetAt, updatedBy: privacySetBy } }
+          : undefined;
+      }
+      case 'promptLog': {
+        const record = this.db.analysisPromptLog.find(e => e.id === id);
+        return record && { kind, record };
+      }
+    }
+  }
+
+  // Conflict rule: voiding a session and using an invite are final, and a pay period that has been through
+  // more steps is further along; otherwise the latest edit wins. Invoices and logged prompts are never
+  // edited, so the copy the server took first stands.
+  private preferLocal(local: SyncEntry, remote: SyncEntry | null): boolean {
+    if (!remote) return false;
+    if (local.kind === 'session' && remote.kind === 'session') {
+      if (!!local.record.voidedAt !== !!remote.record.voidedAt) return !!local.record.voidedAt;
+      // Clinical notes are edited without touching the session fields, so their time counts too
+      const changedAt = (s: Session) => [s.updatedAt, s.clinicalNote?.updatedAt].reduce<string>((a, b) => (b && b > a ? b : a), s.timestamp);
+      return changedAt(local.record) > changedAt(remote.record);
+    }
+    if (local.kind === 'invite' && remote.kind === 'invite') {
+      return !!local.record.usedAt && !remote.record.usedAt;
+    }
+    if (local.kind === 'payPeriod' && remote.kind === 'payPeriod') {
+      const lastAt = (p: PayPeriod) => p.history[p.history.length - 1]?.at || '';
+      return local.record.history.length !== remote.record.history.length
+        ? local.record.history.length > remote.record.history.length
+        : lastAt(local.record) > lastAt(remote.record);
+    }
+    if (local.kind === 'patient' && remote.kind === 'patient') {
+      return (local.record.updatedAt || local.record.createdAt) > (remote.record.updatedAt || remote.record.createdAt);
+    }
+    if ((local.kind === 'user' && remote.kind === 'user') || (local.kind === 'treatment' && remote.kind === 'treatment')
+      || (local.kind === 'analysisPolicy' && remote.kind === 'analysisPolicy')) {
+      return (local.record.updatedAt || '') > (remote.record.updatedAt || '');
+    }
+    return false;
+  }
+
+  // `remote` is `record` typed by remoteEntry
+  private applyRemoteRecord(record: SyncRecord, remote: SyncEntry | null, sessions: Session[], signatures: StoredSignature[]) {
+    if (remote?.kind === 'session') {
+      // Sessions are voided, never deleted. Notes aren't removed either: a session without one was sent to
+      // a viewer who can't see it, so the one held here stays.
+      const index = this.db.sessions.findIndex(s => s.id === remote.record.id);
+      const held = this.db.sessions[index]?.clinicalNote;
+      const session = !remote.record.clinicalNote && held ? { ...remote.record, clinicalNote: held } : remote.record;
+      if (index >= 0) this.db.sessions[index] = session;
+      else this.db.sessions.push(session);
+      sessions.push(session);
+      if (record.signatureDataUrl) {
+        signatures.push({ sessionId: session.id, blob: dataUrlToBlob(record.signatureDataUrl) });
+      }
+    } else if (remote?.kind === 'user') {
+      const user = remote.record;
+      const index = this.db.users.findIndex(u => u.id === user.id);
+      if (index >= 0) this.db.users[index] = user;
+      else this.db.users.push(user);
+    } else if (record.kind === 'invite') {
+      this.db.invites = this.db.invites.filter(i => i.token !== record.id);
+      if (remote?.kind === 'invite') this.db.invites.unshift(remote.record);
+    } else if (remote?.kind === 'payPeriod') {
+      this.db.payPeriods = [...this.db.payPeriods.filter(p => payPeriodId(p) !== record.id), remote.record];
+    } else if (remote?.kind === 'treatment') {
+      const index = this.db.treatments.findIndex(t => t.id === remote.record.id);
+      if (index >= 0) this.db.treatments[index] = remote.record;
+      else this.db.treatments.push(remote.record);
+    } else if (remote?.kind === 'patient') {
+      const index = this.db.patients.findIndex(p => p.id === remote.record.id);
+      if (index >= 0) this.db.patients[index] = remote.record;
+      else this.db.patients.push(remote.record);
+    } else if (remote?.kind === 'invoice') {
+      this.db.invoices = [remote.record, ...this.db.invoices.filter(i => payPeriodId(i) !== record.id)];
+    } else if (remote?.kind === 'analysisPolicy') {
+      const { privacy, updatedAt, updatedBy } = remote.record;
+      this.db.analysis = { ...this.db.analysis, privacy, privacySetAt: updatedAt, privacySetBy: updatedBy };
+    } else if (remote?.kind === 'promptLog' && !this.db.analysisPromptLog.some(e => e.id === remote.record.id)) {
+      this.db.analysisPromptLog = [...this.db.analysisPromptLog, remote.record].sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+    }
+  }
+
+  // True when taking `remote` would change what a closed month's payroll was worked out from
+  private changesClosedMonth(local: Session | undefined, remote: Session): boolean {
+    if (local && PAYROLL_FIELDS.every(field => local[field] === remote[field])) return false;
+    return [local, remote].some(s => s && LOCKED_STATUSES.includes(this.periodStatusAt(s.therapistId, s.timestamp)));
+  }
+
+  private takeMissingNote(record: SyncRecord, sessions: Session[]): boolean {
+    const remote = remoteEntry(record);
+    if (remote?.kind !== 'session' || !remote.record.clinicalNote) return false;
+    const local = this.db.sessions.find(s => s.id === remote.record.id);
+    if (!local || local.clinicalNote) return false;
+    local.clinicalNote = remote.record.clinicalNote;
+    sessions.push(local);
+    return true;
+  }
+
+  // Accounts, roles, access and passwords only change at an administrator's hand, or the user's own for
+  // their password; an invite vouches for the account it created. The sync server checks the same.
+  private mayTakeUser(local: StoredUser | undefined, remote: StoredUser, incomingInvites: Invite[]): boolean {
+    const madeBy = this.db.users.find(u => u.id === remote.updatedBy);
+    const byAdmin = !!madeBy && this.isActiveAdmin(madeBy);
+    if (!local) {
+      return byAdmin || (remote.updatedBy === remote.id && [...this.db.invites, ...incomingInvites].some(i => i.role === remote.role && i.usedBy === remote.id));
+    }
+    if (remote.role !== local.role || remote.deactivatedAt !== local.deactivatedAt) return byAdmin;
+    // Seed accounts nobody has touched hold the same password, hashed with a different salt on each device
+    if (remote.passwordHash !== local.passwordHash && (remote.updatedAt || local.updatedAt)) {
+      return byAdmin || remote.updatedBy === remote.id;
+    }
+    return true;
+  }
+
+  // Up to `limit` queued changes, with signatures attached to sessions the server hasn't seen
+  async getSyncBatch(limit: number): Promise<{ request: SyncRequest; sent: Record<string, number> }> {
+    await this.ready;
+    const sync = this.db.sync;
+    const { outbox, revs, viewerTokens } = sync;
+    const sent: Record<string, number> = {};
+    Object.keys(outbox).slice(0, limit).forEach(key => { sent[key] = outbox[key]; });
+    const changes: SyncChange[] = [];
+
+    for (const key of Object.keys(sent)) {
+      const [kind, id] = key.split(/:(.*)/s) as [SyncKind, string];
+      const data = this.findSyncRecord(kind, id)?.record || null;
+      const isNew = !revs[key];
+      if (!data && isNew) {
+        // Created and removed before it ever reached the server
+        delete outbox[key];
+        continue;
+      }
+      const signatureDataUrl = kind === 'session' && isNew ? await this.getSignature(id) : undefined;
+      changes.push({ kind, id, baseRev: revs[key] || 0, data, signatureDataUrl });
+    }
+
+    const userId = this.signedInUserId();
+    const viewer: SyncViewer | undefined = userId && { userId, token: viewerTokens?.[userId], password: this.syncPasswords.get(userId) };
+    // The server only sends clinical notes to their therapist and administrators. When someone signs in who
+    // may see notes the last viewer couldn't, pull everything again to fill them in.
+    const pulledAs = this.db.users.find(u => u.id === sync.pulledAs);
+    if (viewer && (viewer.token || viewer.password) && viewer.userId !== sync.pulledAs && !(pulledAs && this.isActiveAdmin(pulledAs))) {
+      sync.pulledAs = viewer.userId;
+      sync.lastPulledRev = 0;
+    }
+    return { request: { since: sync.lastPulledRev, changes, viewer }, sent };
+  }
+
+  // Applies the server's answer to a batch; returns how many remote changes were taken
+  applySyncResponse(response: SyncResponse, sent: Record<string, number>, viewerId?: string): number {
+    const sync = this.db.sync;
+    const sessions: Session[] = [];
+    const signatures: StoredSignature[] = [];
+    const refused: string[] = [];
+    let applied = 0;
+
+    if (viewerId && response.viewerToken) {
+      sync.viewerTokens = { ...sync.viewerTokens, [viewerId]: response.viewerToken };
+      this.syncPasswords.delete(viewerId);
+    }
+    // An account and the invite it used arrive in the same batch, the account first
+    const incomingInvites = response.changes.map(remoteEntry).flatMap(entry => entry?.kind === 'invite' ? [entry.record] : []);
+
+    response.accepted.forEach(({ kind, id, rev }) => {
+      const key = syncKey(kind, id);
+      sync.revs[key] = rev;
+      // Keep it queued if it changed again while the request was in flight
+      if (sync.outbox[key] === sent[key]) delete sync.outbox[key];
+    });
+
+    // The server's copy replaces a refused change; a refused new record stays queued until it is allowed
+    (response.rejected || []).forEach(({ kind, id, reason, current }) => {
+      refused.push(reason);
+      if (!current) return;
+      const key = syncKey(kind, id);
+      if (sync.outbox[key] === sent[key]) delete sync.outbox[key];
+      sync.revs[key] = current.rev;
+      this.applyRemoteRecord(current, remoteEntry(current), sessions, signatures);
+      applied++;
+    });
+
+    [...response.conflicts, ...response.changes].forEach(record => {
+      const key = syncKey(record.kind, record.id);
+      if ((sync.revs[key] || 0) >= record.rev) {
+        // Already have it, e.g. our own accepted push, though an earlier pull may have left out its note
+        if (this.takeMissingNote(record, sessions)) applied++;
+        return;
+      }
+      sync.revs[key] = record.rev;
+
+      const local = this.findSyncRecord(record.kind, record.id);
+      const remote = remoteEntry(record);
+      if (remote?.kind === 'session' && this.changesClosedMonth(local?.kind === 'session' ? local.record : undefined, remote.record)) {
+        refused.push(`A change to ${remote.record.patientName}'s session on ${new Date(remote.record.timestamp).toLocaleDateString()} was not taken because payroll for that month is closed.`);
+        return;
+      }
+      if (remote?.kind === 'user' && !this.mayTakeUser(local?.kind === 'user' ? local.record : undefined, remote.record, incomingInvites)) {
+        refused.push(`A change to ${remote.record.name}'s account was not taken because no administrator made it.`);
+        return;
+      }
+      if (remote?.kind === 'analysisPolicy' && !this.db.users.some(u => u.id === remote.record.updatedBy && this.isActiveAdmin(u))) {
+        refused.push('A change to the analysis privacy policy was not taken because no administrator made it.');
+        return;
+      }
+      if (key in sync.outbox && local && this.preferLocal(local, remote)) {
+        return; // stays queued and is pushed on top of the server copy next time
+      }
+      if (local?.kind === 'invoice' && remote?.kind === 'invoice' && local.record.number !== remote.record.number) {
+        refused.push(`Invoice ${local.record.number} was withdrawn because another device had already issued ${remote.record.number} for that month.`);
+      }
+      delete sync.outbox[key];
+      this.applyRemoteRecord(record, remote, sessions, signatures);
+      applied++;
+    });
+
+    if (sessions.length) this.db.sessions.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    sync.lastPulledRev = Math.max(sync.lastPulledRev, response.rev);
+    sync.lastSyncedAt = new Date().toISOString();
+    if (refused.length) {
+      sync.lastError = refused.length === 1 ? refused[0] : `${refused.length} changes were refused. ${refused[0]}`;
+    } else {
+      delete sync.lastError;
+    }
+    this.save(sessions, signatures);
+
+    return applied;
+  }
+
+  recordSyncError(message: string) {
+    this.db.sync.lastError = message;
+    this.save();
+  }
 }
 
 export const dbService = new DBService();
\ No newline at end of file
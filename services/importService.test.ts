@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { User } from '../types';
+import { ColumnMapping, ImportContext, buildImportRows, guessMapping } from './importService';
+import { SheetRows, parseCsv } from './spreadsheetService';
+import { DEFAULT_TREATMENTS } from './treatmentCatalogue';
+
+const CONTEXT: ImportContext = {
+  therapists: [{ id: 'user-1', username: 'jane', name: 'Jane Doe', role: 'therapist' } as User],
+  treatments: DEFAULT_TREATMENTS,
+  isLocked: () => false,
+  existingKeys: new Set(),
+};
+
+const HEADER = 'Date,Therapist,Patient,Treatment,Duration';
+
+const importCsv = (text: string) => {
+  const rows = parseCsv(text);
+  return buildImportRows(rows, guessMapping(rows[0].cells), 'dmy', CONTEXT);
+};
+
+describe('buildImportRows', () => {
+  it('numbers rows as the file does, counting blank rows', () => {
+    const rows = importCsv([HEADER, '06/01/2025,Jane,Ann Lee,Sports Massage,60', '', ',,,,', '08/01/2025,Jane,,Sports Massage,60'].join('\n'));
+
+    expect(rows.map(r => [r.row, r.errors])).toEqual([
+      [2, []],
+      [5, ['Patient name is missing.']],
+    ]);
+  });
+
+  it('reads numbers as Excel dates only in cells Excel stored as numbers', () => {
+    const csv = importCsv([HEADER, '20250106,Jane,Ann Lee,Sports Massage,60', '45663,Jane,Ann Lee,Sports Massage,60'].join('\n'));
+    expect(new Date(csv[0].draft!.timestamp).toDateString()).toBe(new Date(2025, 0, 6).toDateString());
+    expect(csv[1].errors).toEqual(['Unrecognised date "45663".']);
+
+    // As parseXlsx reads a date cell
+    const xlsx: SheetRows = [
+      { number: 1, cells: HEADER.split(',') },
+      { number: 2, cells: ['45663', 'Jane', 'Ann Lee', 'Sports Massage', '60'], numeric: [true, false, false, false, true] },
+    ];
+    const mapping: ColumnMapping = guessMapping(xlsx[0].cells);
+    expect(new Date(buildImportRows(xlsx, mapping, 'dmy', CONTEXT)[0].draft!.timestamp).toDateString())
+      .toBe(new Date(2025, 0, 6).toDateString());
+  });
+});
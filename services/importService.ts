@@ -0,0 +1,181 @@
+// Turns spreadsheet rows from old timesheets into session drafts, with a list of problems per row.
+
+import { Session, Treatment, User } from '../types';
+import { SheetRows } from './spreadsheetService';
+import { namesMatch, normalizeName } from './patientMatching';
+import { isAllowedDuration } from './treatmentCatalogue';
+
+export type ImportField = 'date' | 'time' | 'therapist' | 'patient' | 'treatment' | 'duration' | 'notes';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; hints: string[] }[] = [
+  { field: 'date', label: 'Date', required: true, hints: ['date', 'day', 'session date'] },
+  { field: 'time', label: 'Time', required: false, hints: ['time', 'start'] },
+  { field: 'therapist', label: 'Therapist', required: true, hints: ['therapist', 'practitioner', 'staff', 'clinician'] },
+  { field: 'patient', label: 'Patient', required: true, hints: ['patient', 'client', 'name'] },
+  { field: 'treatment', label: 'Treatment', required: true, hints: ['treatment', 'type', 'service'] },
+  { field: 'duration', label: 'Duration (mins)', required: true, hints: ['duration', 'mins', 'minutes', 'length'] },
+  { field: 'notes', label: 'Notes', required: false, hints: ['notes', 'comments'] },
+];
+
+// Column index per field, -1 when not mapped
+export type ColumnMapping = Record<ImportField, number>;
+
+export type DateOrder = 'dmy' | 'mdy';
+
+export type SessionDraft = Omit<Session, 'id' | 'signatureDataUrl' | 'patientId'>;
+
+export interface ImportRow {
+  row: number; // 1-based, as numbered in the file
+  cells: string[];
+  draft?: SessionDraft;
+  errors: string[];
+}
+
+export interface ImportContext {
+  therapists: User[];
+  treatments: Treatment[];
+  isLocked: (therapistId: string, month: number, year: number) => boolean;
+  // therapist id|timestamp|normalized patient name of sessions already stored
+  existingKeys: Set<string>;
+}
+
+export const sessionKey = (therapistId: string, timestamp: string, patientName: string) =>
+  `${therapistId}|${timestamp}|${normalizeName(patientName)}`;
+
+export const guessMapping = (header: string[]): ColumnMapping => {
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach(({ field, hints }) => {
+    const index = header.findIndex((h, i) => !used.has(i) && hints.some(hint => h.trim().toLowerCase().includes(hint)));
+    mapping[field] = index;
+    if (index >= 0) used.add(index);
+  });
+  return mapping;
+};
+
+// Excel stores dates as days since 1899-12-30; only cells it stored as numbers are read that way
+const fromExcelSerial = (serial: number): Date => {
+  const whole = Math.floor(serial);
+  const d = new Date(1899, 11, 30 + whole);
+  d.setMinutes(Math.round((serial - whole) * 24 * 60));
+  return d;
+};
+
+const parseDate = (value: string, order: DateOrder, serial: boolean): Date | null => {
+  const text = value.trim();
+  if (serial && /^\d+(\.\d+)?$/.test(text)) return fromExcelSerial(Number(text));
+
+  let year: number, month: number, day: number;
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/) || text.match(/^(\d{4})(\d{2})(\d{2})$/); // 2025-01-06 or 20250106
+  const local = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (local) {
+    const [a, b] = [Number(local[1]), Number(local[2])];
+    [day, month] = order === 'dmy' ? [a, b] : [b, a];
+    year = Number(local[3]) < 100 ? 2000 + Number(local[3]) : Number(local[3]);
+  } else {
+    return null;
+  }
+
+  const d = new Date(year, month - 1, day);
+  // Reject rollovers such as 31/02
+  return d.getMonth() === month - 1 && d.getDate() === day ? d : null;
+};
+
+// "14:30", "2:30 pm" or an Excel time fraction; returns minutes after midnight
+const parseTime = (value: string, serial: boolean): number | null => {
+  const text = value.trim().toLowerCase();
+  if (serial && /^0?\.\d+$/.test(text)) return Math.round(Number(text) * 24 * 60);
+  const match = text.match(/^(\d{1,2})[:.](\d{2})\s*(am|pm)?$/);
+  if (!match) return null;
+  let hours = Number(match[1]) % (match[3] ? 12 : 24);
+  if (match[3] === 'pm') hours += 12;
+  const minutes = Number(match[2]);
+  return minutes < 60 ? hours * 60 + minutes : null;
+};
+
+const DEFAULT_TIME = 9 * 60; // rows without a time are logged at 09:00
+
+// Username, full name, "J Doe", or a first name that only one therapist has
+export const matchTherapist = (therapists: User[], name: string): User | null => {
+  const needle = normalizeName(name);
+  if (!needle) return null;
+  const byUsername = therapists.find(t => t.username.toLowerCase() === needle);
+  if (byUsername) return byUsername;
+  const exact = therapists.filter(t => normalizeName(t.name) === needle);
+  if (exact.length === 1) return exact[0];
+
+  const fuzzy = therapists.filter(t => namesMatch(t.name, name));
+  if (fuzzy.length === 1) return fuzzy[0];
+  const firstName = therapists.filter(t => normalizeName(t.name).split(' ')[0] === needle);
+  return firstName.length === 1 ? firstName[0] : null;
+};
+
+const matchTreatment = (treatments: Treatment[], value: string): Treatment | undefined => {
+  const needle = value.trim().toLowerCase();
+  return treatments.find(t => t.id.toLowerCase() === needle || t.name.toLowerCase() === needle)
+    // Common shorthand such as "Physio" or "Massage"
+    || treatments.find(t => needle.length >= 4 && t.name.toLowerCase().includes(needle));
+};
+
+export const buildImportRows = (rows: SheetRows, mapping: ColumnMapping, order: DateOrder, context: ImportContext): ImportRow[] => {
+  const seen = new Set<string>();
+
+  return rows.slice(1).map(({ number, cells, numeric }) => {
+    const cell = (field: ImportField) => (mapping[field] >= 0 ? (cells[mapping[field]] || '').trim() : '');
+    const isNumber = (field: ImportField) => mapping[field] >= 0 && !!numeric?.[mapping[field]];
+    const errors: string[] = [];
+
+    const date = parseDate(cell('date'), order, isNumber('date'));
+    if (!date) errors.push(`Unrecognised date "${cell('date')}".`);
+    let minutesOfDay = DEFAULT_TIME;
+    if (cell('time')) {
+      const time = parseTime(cell('time'), isNumber('time'));
+      if (time === null) errors.push(`Unrecognised time "${cell('time')}".`);
+      else minutesOfDay = time;
+    }
+
+    const therapist = matchTherapist(context.therapists, cell('therapist'));
+    if (!therapist) errors.push(`No therapist matches "${cell('therapist')}".`);
+
+    const patientName = cell('patient');
+    if (!patientName) errors.push('Patient name is missing.');
+
+    const treatment = matchTreatment(context.treatments, cell('treatment'));
+    const duration = Number(cell('duration'));
+    if (!treatment) {
+      errors.push(`Unknown treatment "${cell('treatment')}".`);
+    } else if (!Number.isInteger(duration) || duration <= 0) {
+      errors.push(`Invalid duration "${cell('duration')}".`);
+    } else if (!isAllowedDuration(treatment, duration)) {
+      errors.push(`${treatment.name} can't be ${duration} minutes (allowed: ${treatment.allowedDurations.join(', ')}).`);
+    }
+
+    if (errors.length || !date || !therapist || !treatment) {
+      return { row: number, cells, errors };
+    }
+
+    date.setHours(0, minutesOfDay, 0, 0);
+    const timestamp = date.toISOString();
+    if (context.isLocked(therapist.id, date.getMonth(), date.getFullYear())) {
+      errors.push('Payroll for this month is closed.');
+    }
+    const key = sessionKey(therapist.id, timestamp, patientName);
+    if (context.existingKeys.has(key)) errors.push('This session is already recorded.');
+    else if (seen.has(key)) errors.push('Duplicate of an earlier row.');
+    seen.add(key);
+
+    const draft: SessionDraft = {
+      therapistId: therapist.id,
+      therapistName: therapist.name,
+      patientName,
+      treatmentType: treatment.id,
+      durationMinutes: duration,
+      timestamp,
+      notes: cell('notes') || undefined,
+      signed: false,
+    };
+    return { row: number, cells, draft, errors };
+  });
+};
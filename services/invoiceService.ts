@@ -0,0 +1,114 @@
+import { ClinicDetails, Invoice, PayRate, Session, Treatment } from '../types';
+import { calculateSessionPay, formatMoney } from './payrollService';
+import { PdfDocument, PAGE_HEIGHT, PAGE_WIDTH } from './pdfService';
+import { treatmentName } from './treatmentCatalogue';
+
+export type InvoiceDraft = Omit<Invoice, 'id' | 'number' | 'issuedAt'>;
+
+export const buildInvoiceDraft = (
+  therapist: { id: string; name: string },
+  sessions: Session[],
+  rates: PayRate[],
+  month: number,
+  year: number,
+  clinic: ClinicDetails,
+  issuedBy: string,
+  treatments: Treatment[] = []
+): InvoiceDraft => {
+  const lineItems = sessions
+    .filter(s => s.therapistId === therapist.id)
+    .slice()
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .map(s => ({
+      sessionId: s.id,
+      date: s.timestamp,
+      description: `${treatmentName(treatments, s.treatmentType)} – ${s.patientName}`,
+      durationMinutes: s.durationMinutes,
+      amount: calculateSessionPay(rates, s, treatments).grossPay,
+    }));
+
+  const total = Math.round(lineItems.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+  const totalMinutes = lineItems.reduce((sum, item) => sum + item.durationMinutes, 0);
+
+  return {
+    therapistId: therapist.id,
+    therapistName: therapist.name,
+    month,
+    year,
+    issuedBy,
+    clinic,
+    lineItems,
+    totalMinutes,
+    total,
+  };
+};
+
+const MARGIN = 50;
+const ROW_HEIGHT = 16;
+const COL_DATE = MARGIN;
+const COL_DESC = MARGIN + 80;
+const COL_MINS = PAGE_WIDTH - MARGIN - 90;
+const COL_AMOUNT = PAGE_WIDTH - MARGIN;
+
+const drawTableHeader = (pdf: PdfDocument, y: number): number => {
+  pdf.text(COL_DATE, y, 'Date', { style: 'bold' });
+  pdf.text(COL_DESC, y, 'Description', { style: 'bold' });
+  pdf.text(COL_MINS, y, 'Mins', { style: 'bold', align: 'right' });
+  pdf.text(COL_AMOUNT, y, 'Amount', { style: 'bold', align: 'right' });
+  pdf.line(MARGIN, y + 6, PAGE_WIDTH - MARGIN, y + 6);
+  return y + ROW_HEIGHT + 4;
+};
+
+export const renderInvoicePdf = (invoice: Invoice): Blob => {
+  const pdf = new PdfDocument();
+  const period = new Date(invoice.year, invoice.month).toLocaleString('default', { month: 'long', year: 'numeric' });
+
+  // Header
+  pdf.text(MARGIN, 70, 'INVOICE', { size: 22, style: 'bold' });
+  pdf.text(COL_AMOUNT, 62, invoice.number, { size: 12, style: 'bold', align: 'right' });
+  pdf.text(COL_AMOUNT, 78, `Issued ${new Date(invoice.issuedAt).toLocaleDateString()}`, { align: 'right' });
+  pdf.text(COL_AMOUNT, 92, `Period: ${period}`, { align: 'right' });
+
+  // Parties
+  pdf.text(MARGIN, 130, 'From', { style: 'bold' });
+  pdf.text(MARGIN, 146, invoice.therapistName);
+  pdf.text(MARGIN, 160, 'Freelance Therapist');
+
+  pdf.text(300, 130, 'Bill To', { style: 'bold' });
+  let billY = 146;
+  [invoice.clinic.name, ...invoice.clinic.address.split('\n'), invoice.clinic.email]
+    .filter(Boolean)
+    .forEach(line => {
+      pdf.text(300, billY, line);
+      billY += 14;
+    });
+
+  // Line items
+  let y = drawTableHeader(pdf, Math.max(billY, 180) + 30);
+  invoice.lineItems.forEach(item => {
+    if (y > PAGE_HEIGHT - 100) {
+      pdf.addPage();
+      y = drawTableHeader(pdf, 70);
+    }
+    pdf.text(COL_DATE, y, new Date(item.date).toLocaleDateString());
+    pdf.text(COL_DESC, y, item.description.length > 48 ? `${item.description.slice(0, 47)}…` : item.description);
+    pdf.text(COL_MINS, y, String(item.durationMinutes), { align: 'right' });
+    pdf.text(COL_AMOUNT, y, formatMoney(item.amount), { align: 'right' });
+    y += ROW_HEIGHT;
+  });
+
+  // Totals
+  pdf.line(MARGIN, y - 6, PAGE_WIDTH - MARGIN, y - 6);
+  y += 8;
+  const hours = `${Math.floor(invoice.totalMinutes / 60)}h ${invoice.totalMinutes % 60}m`;
+  pdf.text(COL_DESC, y, `${invoice.lineItems.length} session(s), ${hours}`);
+  pdf.text(COL_MINS, y, 'Total', { style: 'bold', align: 'right' });
+  pdf.text(COL_AMOUNT, y, formatMoney(invoice.total), { size: 12, style: 'bold', align: 'right' });
+
+  pdf.text(MARGIN, PAGE_HEIGHT - 50, `Generated by PhysioTrack AI from signed session records.`, { size: 8 });
+
+  return pdf.toBlob();
+};
+
+export const invoiceFilename = (invoice: Invoice): string =>
+  `${invoice.number}_${invoice.therapistName.replace(/\s+/g, '_')}.pdf`;
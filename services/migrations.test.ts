@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { MIGRATIONS, SCHEMA_VERSION, StoredData, runMigrations } from './migrations';
+import { DEFAULT_TREATMENTS } from './treatmentCatalogue';
+import { DEFAULT_ANALYSIS_SETTINGS } from './analysisProvider';
+
+// Runs the single step that brings data up to `version`
+const migrateTo = (version: number, data: StoredData): StoredData => {
+  const migration = MIGRATIONS.find(m => m.version === version);
+  if (!migration) throw new Error(`No migration to v${version}`);
+  return migration.migrate(structuredClone(data));
+};
+
+const session = (id: string, patientName: string, timestamp: string, extra: StoredData = {}): StoredData => ({
+  id, patientName, timestamp, therapistId: 'user-1', therapistName: 'Jane Doe', treatmentType: 'massage', durationMinutes: 40, ...extra,
+});
+
+describe('migrations', () => {
+  it('v2 adds the rate card and invoicing, keeping what is there', () => {
+    expect(migrateTo(2, {})).toEqual({
+      payRates: [],
+      invoices: [],
+      invoiceSequence: 0,
+      clinic: { name: 'PhysioTrack Clinic', address: '', email: '' },
+    });
+
+    const existing = {
+      payRates: [{ id: 'r1' }],
+      invoices: [{ id: 'i1' }],
+      invoiceSequence: 0,
+      clinic: { name: 'Harbour Physio', address: '1 Quay St', email: 'desk@harbour.test' },
+    };
+    expect(migrateTo(2, existing)).toEqual(existing);
+  });
+
+  it('v3 adds login tokens and invites, keeping what is there', () => {
+    expect(migrateTo(3, {})).toEqual({ authSessions: [], invites: [] });
+
+    const existing = { authSessions: [{ token: 't', userId: 'u' }], invites: [{ token: 'inv' }] };
+    expect(migrateTo(3, existing)).toEqual(existing);
+  });
+
+  it('v4 adds the audit log and pay periods, keeping what is there', () => {
+    expect(migrateTo(4, {})).toEqual({ auditLog: [], payPeriods: [] });
+
+    const existing = { auditLog: [{ id: 'a1' }], payPeriods: [{ therapistId: 'user-1', year: 2025, month: 0, status: 'paid' }] };
+    expect(migrateTo(4, existing)).toEqual(existing);
+  });
+
+  it('v5 links sessions to one patient per person, keeping existing links', () => {
+    const data = migrateTo(5, {
+      sessions: [
+        session('s1', 'John Doe', '2025-01-06T09:00:00.000Z'),
+        session('s2', 'J. Doe', '2025-01-02T09:00:00.000Z'),
+        session('s3', 'john doe', '2025-01-09T09:00:00.000Z'),
+        session('s4', 'Ann Lee', '2025-01-03T09:00:00.000Z', { patientId: 'p-ann' }),
+      ],
+    });
+    const patients = data.patients as StoredData[];
+    const sessions = data.sessions as StoredData[];
+
+    expect(patients).toHaveLength(1);
+    expect(patients[0].name).toBe('John Doe'); // the spelled-out name wins over the initial seen first
+    expect(sessions.filter(s => s.id !== 's4').every(s => s.patientId === patients[0].id)).toBe(true);
+    expect(sessions.find(s => s.id === 's4')!.patientId).toBe('p-ann');
+  });
+
+  it('v5 matches sessions against patients already registered', () => {
+    const existing = { id: 'p-john', name: 'John Doe', consent: { treatment: true, dataProcessing: true, contact: true } };
+    const data = migrateTo(5, { patients: [existing], sessions: [session('s1', 'J. Doe', '2025-01-02T09:00:00.000Z')] });
+
+    expect(data.patients).toEqual([existing]);
+    expect((data.sessions as StoredData[])[0].patientId).toBe('p-john');
+  });
+
+  it('v6 adds appointments, keeping what is there', () => {
+    expect(migrateTo(6, {})).toEqual({ appointments: [] });
+
+    const existing = { appointments: [{ id: 'ap1' }] };
+    expect(migrateTo(6, existing)).toEqual(existing);
+  });
+
+  it('v7 adds the default treatment catalogue, keeping a customised one', () => {
+    expect(migrateTo(7, {})).toEqual({ treatments: DEFAULT_TREATMENTS });
+
+    const existing = { treatments: [{ id: 'cupping', name: 'Cupping', allowedDurations: [20], active: true }] };
+    expect(migrateTo(7, existing)).toEqual(existing);
+  });
+
+  it('v8 adds device sync state, keeping a configured one', () => {
+    expect(migrateTo(8, {})).toEqual({ sync: { serverUrl: '', key: '', lastPulledRev: 0, revs: {}, outbox: {} } });
+
+    const existing = { sync: { serverUrl: 'https://sync.test', key: 'k', lastPulledRev: 12, revs: { 'session:s1': 3 }, outbox: {} } };
+    expect(migrateTo(8, existing)).toEqual(existing);
+  });
+
+  it('v9 adds analysis provider settings, keeping chosen ones', () => {
+    expect(migrateTo(9, {})).toEqual({ analysis: DEFAULT_ANALYSIS_SETTINGS });
+
+    const existing = { analysis: { ...DEFAULT_ANALYSIS_SETTINGS, provider: 'openai', endpointModel: 'mistral', fallbackToTemplate: false } };
+    expect(migrateTo(9, existing)).toEqual(existing);
+  });
+
+  it('v10 adds saved analyses, keeping what is there', () => {
+    expect(migrateTo(10, {})).toEqual({ analysisHistory: [] });
+
+    const existing = { analysisHistory: [{ id: 'an1' }] };
+    expect(migrateTo(10, existing)).toEqual(existing);
+  });
+
+  it('v11 defaults analysis privacy without overwriting a chosen setting', () => {
+    const { privacy, ...settings } = DEFAULT_ANALYSIS_SETTINGS; // as saved before v11
+    expect(migrateTo(11, { analysis: settings })).toEqual({
+      analysis: { ...settings, privacy },
+      analysisPromptLog: [],
+    });
+
+    const existing = { analysis: { ...settings, privacy: 'names' }, analysisPromptLog: [{ id: 'log1' }] };
+    expect(migrateTo(11, existing)).toEqual(existing);
+  });
+
+  it('runMigrations brings data up to date without touching its input', () => {
+    const input: StoredData = {
+      users: [{ id: 'admin-1', role: 'admin' }],
+      sessions: [session('s1', 'John Doe', '2025-01-06T09:00:00.000Z')],
+    };
+    const before = structuredClone(input);
+
+    const output = runMigrations(input, 1);
+
+    expect(input).toEqual(before);
+    expect(output.schemaVersion).toBe(SCHEMA_VERSION);
+    expect((output.sessions as StoredData[])[0].patientId).toBeTruthy();
+  });
+
+  it('runMigrations names the step that failed', () => {
+    const broken = { sessions: [{ id: 's1', timestamp: '2025-01-06T09:00:00.000Z' }] };
+
+    expect(() => runMigrations(broken, 4)).toThrow('Upgrade to v5 (Patient registry) failed: Session s1 has no patient name.');
+  });
+});
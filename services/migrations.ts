@@ -0,0 +1,158 @@
+// Ordered upgrades for the stored database.
+// Each migration takes data at `version - 1` and returns it at `version`. Data saved before the schema
+// was versioned (including the physiotrack_db_v1..v3 localStorage blobs) counts as version 1, and may
+// already have some of the later fields, so every step has to leave existing values alone.
+
+import { Patient } from '../types';
+import { findMatchingPatient, preferredName } from './patientMatching';
+import { DEFAULT_TREATMENTS } from './treatmentCatalogue';
+import { DEFAULT_ANALYSIS_SETTINGS } from './analysisProvider';
+
+// Migrations work on plain parsed JSON rather than the typed schema they are building towards
+export type StoredData = Record<string, unknown>;
+
+export const isStoredData = (value: unknown): value is StoredData =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// The records in one collection, skipping anything that isn't an object
+export const recordsOf = (data: StoredData, key: string): StoredData[] => {
+  const value = data[key];
+  return Array.isArray(value) ? value.filter(isStoredData) : [];
+};
+
+// Enough of a patient to match names against
+const isPatient = (record: StoredData): record is StoredData & Patient =>
+  typeof record.id === 'string' && typeof record.name === 'string';
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: StoredData) => StoredData;
+}
+
+// Newest first; all of these held the same { users, sessions } shape, the key only changed with the seed logins
+export const LEGACY_DB_KEYS = ['physiotrack_db_v3', 'physiotrack_db_v2', 'physiotrack_db_v1'];
+
+const newId = () => Math.random().toString(36).substring(2, 10);
+
+// Links sessions recorded before the patient registry to a patient, creating one when no name matches
+const linkSessionPatients = (data: StoredData): StoredData => {
+  const patients = recordsOf(data, 'patients');
+  const sessions = recordsOf(data, 'sessions').map(s => ({ ...s }));
+  const timestamp = (s: StoredData) => String(s.timestamp ?? '');
+
+  sessions
+    .filter(s => !s.patientId)
+    .sort((a, b) => timestamp(a).localeCompare(timestamp(b)))
+    .forEach(session => {
+      if (typeof session.patientName !== 'string') throw new Error(`Session ${String(session.id)} has no patient name.`);
+      let patient = findMatchingPatient(patients.filter(isPatient), session.patientName);
+      if (patient) {
+        patient.name = preferredName(patient.name, session.patientName);
+      } else {
+        patient = {
+          id: newId(),
+          name: session.patientName.trim(),
+          consent: { treatment: true, dataProcessing: false, contact: false },
+          createdAt: timestamp(session),
+          createdBy: 'migration',
+        };
+        patients.push({ ...patient });
+      }
+      session.patientId = patient.id;
+    });
+
+  return { ...data, patients, sessions };
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Rate card and invoicing',
+    migrate: data => ({
+      ...data,
+      payRates: data.payRates || [],
+      invoices: data.invoices || [],
+      invoiceSequence: data.invoiceSequence ?? 0,
+      clinic: data.clinic || { name: 'PhysioTrack Clinic', address: '', email: '' },
+    }),
+  },
+  {
+    version: 3,
+    description: 'Login tokens and invites',
+    migrate: data => ({
+      ...data,
+      authSessions: data.authSessions || [],
+      invites: data.invites || [],
+    }),
+  },
+  {
+    version: 4,
+    description: 'Audit log and pay periods',
+    migrate: data => ({
+      ...data,
+      auditLog: data.auditLog || [],
+      payPeriods: data.payPeriods || [],
+    }),
+  },
+  {
+    version: 5,
+    description: 'Patient registry',
+    migrate: data => linkSessionPatients({ ...data, patients: data.patients || [] }),
+  },
+  {
+    version: 6,
+    description: 'Appointments',
+    migrate: data => ({ ...data, appointments: data.appointments || [] }),
+  },
+  {
+    version: 7,
+    description: 'Treatment catalogue',
+    migrate: data => ({ ...data, treatments: data.treatments || DEFAULT_TREATMENTS.map(t => ({ ...t })) }),
+  },
+  {
+    version: 8,
+    description: 'Device sync state',
+    migrate: data => ({
+      ...data,
+      sync: data.sync || { serverUrl: '', key: '', lastPulledRev: 0, revs: {}, outbox: {} },
+    }),
+  },
+  {
+    version: 9,
+    description: 'Analysis provider settings',
+    migrate: data => ({ ...data, analysis: data.analysis || { ...DEFAULT_ANALYSIS_SETTINGS } }),
+  },
+  {
+    version: 10,
+    description: 'Saved analyses',
+    migrate: data => ({ ...data, analysisHistory: data.analysisHistory || [] }),
+  },
+  {
+    version: 11,
+    description: 'Analysis privacy and prompt log',
+    migrate: data => ({
+      ...data,
+      analysis: { privacy: DEFAULT_ANALYSIS_SETTINGS.privacy, ...(isStoredData(data.analysis) ? data.analysis : {}) },
+      analysisPromptLog: data.analysisPromptLog || [],
+    }),
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Runs every migration above `fromVersion` on a copy, so a failure leaves the caller's data as it was
+export const runMigrations = (data: StoredData, fromVersion: number): StoredData => {
+  let current = structuredClone(data);
+
+  for (const migration of MIGRATIONS.filter(m => m.version > fromVersion)) {
+    try {
+      current = migration.migrate(current);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Upgrade to v${migration.version} (${migration.description}) failed: ${reason}`);
+    }
+    current.schemaVersion = migration.version;
+  }
+  return current;
+};
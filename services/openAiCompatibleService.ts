@@ -0,0 +1,51 @@
+import { AnalysisSettings } from '../types';
+import { AnalysisProvider, buildAnalysisPrompt } from './analysisProvider';
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+// Works with OpenAI itself and with local servers that copy its API, e.g. Ollama at http://localhost:11434/v1
+export const createOpenAiCompatibleProvider = (settings: AnalysisSettings): AnalysisProvider => {
+  // JSON mode is widely supported (OpenAI, Ollama, LM Studio); the schema itself is in the prompt
+  const complete = async (prompt: string): Promise<string> => {
+    if (!settings.endpointUrl || !settings.endpointModel) {
+      throw new Error('Set the endpoint URL and model under Account → Payroll Analysis.');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${settings.endpointUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.endpointApiKey ? { Authorization: `Bearer ${settings.endpointApiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: settings.endpointModel,
+          messages: [{ role: 'user', content: prompt }],
+          response_format: { type: 'json_object' },
+        }),
+      });
+    } catch {
+      // fetch only rejects when nothing answered at all
+      throw new Error(`Could not reach ${settings.endpointUrl}. Check that the server is running and allows requests from this page.`);
+    }
+    if (response.status === 401 || response.status === 403) throw new Error('The endpoint rejected the API key.');
+    if (response.status === 404) throw new Error(`The endpoint does not know the model "${settings.endpointModel}".`);
+    if (!response.ok) throw new Error(`Analysis endpoint error (${response.status}).`);
+
+    const data: ChatCompletionResponse = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error('The endpoint returned an empty response.');
+    }
+    return text;
+  };
+
+  return {
+    id: 'openai',
+    analyze: request => complete(buildAnalysisPrompt(request)),
+    complete,
+  };
+};
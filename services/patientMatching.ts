@@ -0,0 +1,69 @@
+import { Patient } from '../types';
+
+// "  Dr. John  O'Neil " -> ["dr", "john", "oneil"]
+const tokens = (name: string): string[] =>
+  name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z\s.]/g, '')
+    .split(/[\s.]+/)
+    .filter(Boolean);
+
+export const normalizeName = (name: string): string => tokens(name).join(' ');
+
+// "jon" / "john": one letter dropped or added. Substitutions ("mark" / "mary") are treated as different names.
+const differsByOneLetter = (a: string, b: string): boolean => {
+  if (Math.abs(a.length - b.length) !== 1) return false;
+  const [short, long] = a.length < b.length ? [a, b] : [b, a];
+  for (let i = 0; i < long.length; i++) {
+    if (long.slice(0, i) + long.slice(i + 1) === short) return true;
+  }
+  return false;
+};
+
+// "J Doe" abbreviates "John Doe": same surname, and each given-name initial matches
+const isAbbreviation = (short: string[], full: string[]): boolean => {
+  if (short.length !== full.length || short.length < 2) return false;
+  if (short[short.length - 1] !== full[full.length - 1]) return false;
+  return short.slice(0, -1).every((part, i) => part.length === 1 && full[i].startsWith(part));
+};
+
+export const namesMatch = (a: string, b: string): boolean => {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  const na = ta.join(' ');
+  const nb = tb.join(' ');
+  if (!na || !nb) return false;
+  if (na === nb) return true;
+  if (isAbbreviation(ta, tb) || isAbbreviation(tb, ta)) return true;
+  // Same surname, given names spelled with one letter more or less
+  if (ta.length !== tb.length || ta.length < 2) return false;
+  if (ta[ta.length - 1] !== tb[tb.length - 1]) return false;
+  return ta.slice(0, -1).every((part, i) => part === tb[i] || differsByOneLetter(part, tb[i]));
+};
+
+// Returns the single patient the name refers to, or null when there is none or it is ambiguous
+export const findMatchingPatient = (patients: Patient[], name: string): Patient | null => {
+  const exact = patients.filter(p => normalizeName(p.name) === normalizeName(name));
+  if (exact.length === 1) return exact[0];
+  if (exact.length > 1) return null;
+
+  const fuzzy = patients.filter(p => namesMatch(p.name, name));
+  return fuzzy.length === 1 ? fuzzy[0] : null;
+};
+
+// Prefer the spelled-out form when a later record has the full name
+export const preferredName = (current: string, candidate: string): string => {
+  const hasInitials = (name: string) => tokens(name).some(t => t.length === 1);
+  if (hasInitials(current) && !hasInitials(candidate)) return candidate.trim();
+  return current;
+};
+
+export const searchPatients = (patients: Patient[], query: string): Patient[] => {
+  const q = normalizeName(query);
+  if (!q) return patients.slice(0, 10);
+  return patients
+    .filter(p => normalizeName(p.name).includes(q) || namesMatch(p.name, query))
+    .slice(0, 10);
+};
@@ -0,0 +1,147 @@
+import { PayRate, PayrollReport, PayrollTrend, ReportPeriod, Session, SessionPay, TherapistPayroll, TherapistTrend, Treatment, TrendPoint } from '../types';
+import { dateKey, periodBuckets } from './reportPeriods';
+
+export const CURRENCY = 'GBP';
+
+export const formatMoney = (amount: number): string =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency: CURRENCY }).format(amount);
+
+const isEffective = (rate: PayRate, day: string): boolean => {
+  if (rate.effectiveFrom && day < rate.effectiveFrom) return false;
+  if (rate.effectiveTo && day > rate.effectiveTo) return false;
+  return true;
+};
+
+// Higher score wins: a therapist's own rate beats the clinic default,
+// an exact duration beats "any duration", and a dated rate beats an open one.
+const specificity = (rate: PayRate): number =>
+  (rate.therapistId ? 4 : 0) + (rate.durationMinutes !== null ? 2 : 0) + (rate.effectiveFrom ? 1 : 0);
+
+// The catalogue's baseline rate, shaped like the least specific rate card entry
+const catalogueRate = (treatments: Treatment[], session: Session): PayRate | null => {
+  const treatment = treatments.find(t => t.id === session.treatmentType);
+  if (!treatment?.payRate) return null;
+  return {
+    id: `catalogue:${treatment.id}`,
+    therapistId: null,
+    treatmentType: treatment.id,
+    durationMinutes: null,
+    amount: treatment.payRate.amount,
+    unit: treatment.payRate.unit,
+  };
+};
+
+export const findRateForSession = (rates: PayRate[], session: Session, treatments: Treatment[] = []): PayRate | null => {
+  // Local date, so effective dates line up with what the user picked
+  const day = dateKey(new Date(session.timestamp));
+
+  const candidates = rates.filter(r =>
+    r.treatmentType === session.treatmentType &&
+    (r.therapistId === null || r.therapistId === session.therapistId) &&
+    (r.durationMinutes === null || r.durationMinutes === session.durationMinutes) &&
+    isEffective(r, day)
+  );
+
+  if (!candidates.length) return catalogueRate(treatments, session);
+
+  return candidates.reduce((best, r) => {
+    const diff = specificity(r) - specificity(best);
+    if (diff !== 0) return diff > 0 ? r : best;
+    // Same specificity: the most recently started rate applies
+    return (r.effectiveFrom || '') > (best.effectiveFrom || '') ? r : best;
+  });
+};
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const calculateSessionPay = (rates: PayRate[], session: Session, treatments: Treatment[] = []): SessionPay => {
+  const rate = findRateForSession(rates, session, treatments);
+  if (!rate) {
+    return { sessionId: session.id, rateId: null, grossPay: 0 };
+  }
+  const grossPay = rate.unit === 'hour'
+    ? rate.amount * (session.durationMinutes / 60)
+    : rate.amount;
+  return { sessionId: session.id, rateId: rate.id, grossPay: roundMoney(grossPay) };
+};
+
+export const buildPayrollReport = (sessions: Session[], rates: PayRate[], treatments: Treatment[] = []): PayrollReport => {
+  const sessionPay: Record<string, SessionPay> = {};
+  const byTherapist = new Map<string, TherapistPayroll>();
+  const breakdown: Record<string, number> = {};
+  let totalMinutes = 0;
+  let grossPay = 0;
+  let unratedSessions = 0;
+
+  sessions.forEach(s => {
+    const pay = calculateSessionPay(rates, s, treatments);
+    sessionPay[s.id] = pay;
+
+    totalMinutes += s.durationMinutes;
+    grossPay += pay.grossPay;
+    if (!pay.rateId) unratedSessions++;
+    breakdown[s.treatmentType] = (breakdown[s.treatmentType] || 0) + 1;
+
+    const entry = byTherapist.get(s.therapistId) || {
+      therapistId: s.therapistId,
+      therapistName: s.therapistName,
+      totalSessions: 0,
+      totalMinutes: 0,
+      grossPay: 0,
+      unratedSessions: 0,
+    };
+    entry.totalSessions++;
+    entry.totalMinutes += s.durationMinutes;
+    entry.grossPay = roundMoney(entry.grossPay + pay.grossPay);
+    if (!pay.rateId) entry.unratedSessions++;
+    byTherapist.set(s.therapistId, entry);
+  });
+
+  return {
+    totalSessions: sessions.length,
+    totalHours: roundMoney(totalMinutes / 60),
+    breakdown,
+    grossPay: roundMoney(grossPay),
+    unratedSessions,
+    sessionPay,
+    therapists: Array.from(byTherapist.values()).sort((a, b) => a.therapistName.localeCompare(b.therapistName)),
+  };
+};
+
+const emptyPoint = (): TrendPoint => ({ sessions: 0, minutes: 0, byTreatment: {} });
+
+const addToPoint = (point: TrendPoint, session: Session) => {
+  point.sessions++;
+  point.minutes += session.durationMinutes;
+  point.byTreatment[session.treatmentType] = (point.byTreatment[session.treatmentType] || 0) + 1;
+};
+
+// Hours and treatment mix over the period, per chart bucket, for the clinic and each therapist
+export const buildPayrollTrend = (sessions: Session[], period: ReportPeriod): PayrollTrend => {
+  const buckets = periodBuckets(period);
+  const points = buckets.map(emptyPoint);
+  const byTherapist = new Map<string, TherapistTrend>();
+
+  sessions.forEach(s => {
+    const key = dateKey(new Date(s.timestamp));
+    const index = buckets.findIndex(b => key >= b.start && key <= b.end);
+    if (index === -1) return;
+
+    const entry = byTherapist.get(s.therapistId) || {
+      therapistId: s.therapistId,
+      therapistName: s.therapistName,
+      points: buckets.map(emptyPoint),
+      total: emptyPoint(),
+    };
+    addToPoint(points[index], s);
+    addToPoint(entry.points[index], s);
+    addToPoint(entry.total, s);
+    byTherapist.set(s.therapistId, entry);
+  });
+
+  return {
+    buckets,
+    points,
+    therapists: Array.from(byTherapist.values()).sort((a, b) => a.therapistName.localeCompare(b.therapistName)),
+  };
+};
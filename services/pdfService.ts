@@ -0,0 +1,111 @@
+// Minimal single-font PDF writer, enough for text-and-rule documents such as invoices.
+// Coordinates are in points from the top-left corner of an A4 page.
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+type FontStyle = 'regular' | 'bold';
+
+interface TextOptions {
+  size?: number;
+  style?: FontStyle;
+  align?: 'left' | 'right';
+}
+
+// Helvetica average glyph width as a fraction of font size; good enough for right-aligning short strings
+const AVG_CHAR_WIDTH = 0.5;
+
+// WinAnsi code points for characters outside Latin-1 that invoices commonly contain
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '–': 0x96,
+  '—': 0x97,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '…': 0x85,
+};
+
+const toWinAnsi = (text: string): string =>
+  Array.from(text).map(ch => {
+    if (WIN_ANSI_EXTRAS[ch] !== undefined) return String.fromCharCode(WIN_ANSI_EXTRAS[ch]);
+    const code = ch.charCodeAt(0);
+    // Narrow no-break space from Intl number formatting
+    if (code === 0x202f) return ' ';
+    return code < 256 ? ch : '?';
+  }).join('');
+
+const escapeText = (text: string): string =>
+  toWinAnsi(text).replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+export class PdfDocument {
+  private pages: string[][] = [[]];
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, value: string, options: TextOptions = {}) {
+    const size = options.size || 10;
+    const font = options.style === 'bold' ? 'F2' : 'F1';
+    const left = options.align === 'right' ? x - value.length * size * AVG_CHAR_WIDTH : x;
+    this.current.push(`BT /${font} ${size} Tf ${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${escapeText(value)}) Tj ET`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+    this.current.push(`${width} w ${x1} ${PAGE_HEIGHT - y1} m ${x2} ${PAGE_HEIGHT - y2} l S`);
+  }
+
+  toBlob(): Blob {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+    // Object layout: 1 catalog, 2 page tree, 3-4 fonts, then a page + content pair per page
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`);
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    this.pages.forEach((ops, i) => {
+      const contentId = pageIds[i] + 1;
+      objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`);
+      const stream = ops.join('\n');
+      objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    });
+
+    let body = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((obj, i) => {
+      offsets.push(body.length);
+      body += `${i + 1} 0 obj\n${obj}\nendobj\n`;
+    });
+
+    const xrefOffset = body.length;
+    body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    body += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+    body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+    // Every character is already a single WinAnsi byte
+    const bytes = new Uint8Array(body.length);
+    for (let i = 0; i < body.length; i++) bytes[i] = body.charCodeAt(i) & 0xff;
+    return new Blob([bytes], { type: 'application/pdf' });
+  }
+}
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,194 @@
+// Date ranges for reporting. Periods are held as inclusive YYYY-MM-DD keys in local time, so a
+// session belongs to the day the therapist saw the patient regardless of timezone offsets.
+
+import { PeriodBucket, PeriodKind, ReportPeriod } from '../types';
+
+export const PERIOD_KINDS: { kind: PeriodKind; label: string }[] = [
+  { kind: 'week', label: 'Week' },
+  { kind: 'fortnight', label: 'Fortnight' },
+  { kind: 'month', label: 'Month' },
+  { kind: 'quarter', label: 'Quarter' },
+  { kind: 'year', label: 'Year' },
+  { kind: 'custom', label: 'Custom range' },
+];
+
+// Fortnights are counted from this Monday so every device agrees on where they start
+const FORTNIGHT_ANCHOR = '2024-01-01';
+const MONTHS_PER_PERIOD: Partial<Record<PeriodKind, number>> = { month: 1, quarter: 3, year: 12 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longest range charted day by day, then week by week; anything longer is charted by month
+const MAX_DAILY_BUCKETS = 31;
+const MAX_WEEKLY_BUCKETS = 26;
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const dateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const parseKey = (key: string): Date => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const isDateKey = (value: string | undefined): value is string =>
+  !!value && DATE_KEY.test(value) && dateKey(parseKey(value)) === value;
+
+const addDays = (key: string, days: number): string => {
+  const d = parseKey(key);
+  d.setDate(d.getDate() + days);
+  return dateKey(d);
+};
+
+// Calendar-day arithmetic in UTC so daylight saving changes don't shift the count
+const dayNumber = (key: string): number => {
+  const [y, m, d] = key.split('-').map(Number);
+  return Date.UTC(y, m - 1, d) / DAY_MS;
+};
+
+const monthRange = (year: number, month: number, months: number): { start: string; end: string } => ({
+  start: dateKey(new Date(year, month, 1)),
+  end: dateKey(new Date(year, month + months, 0)),
+});
+
+const startOfWeek = (key: string): string => addDays(key, -((parseKey(key).getDay() + 6) % 7)); // Monday
+
+export const periodLength = (period: ReportPeriod): number => dayNumber(period.end) - dayNumber(period.start) + 1;
+
+export const periodContaining = (kind: Exclude<PeriodKind, 'custom'>, date: Date): ReportPeriod => {
+  const key = dateKey(date);
+  switch (kind) {
+    case 'week': {
+      const start = startOfWeek(key);
+      return { kind, start, end: addDays(start, 6) };
+    }
+    case 'fortnight': {
+      const offset = Math.floor((dayNumber(key) - dayNumber(FORTNIGHT_ANCHOR)) / 14) * 14;
+      const start = addDays(FORTNIGHT_ANCHOR, offset);
+      return { kind, start, end: addDays(start, 13) };
+    }
+    case 'month':
+      return { kind, ...monthRange(date.getFullYear(), date.getMonth(), 1) };
+    case 'quarter':
+      return { kind, ...monthRange(date.getFullYear(), Math.floor(date.getMonth() / 3) * 3, 3) };
+    case 'year':
+      return { kind, ...monthRange(date.getFullYear(), 0, 12) };
+  }
+};
+
+// Moves by whole periods; a custom range moves by its own length
+export const shiftPeriod = (period: ReportPeriod, steps: number): ReportPeriod => {
+  if (period.kind === 'custom') {
+    const days = periodLength(period) * steps;
+    return { kind: 'custom', start: addDays(period.start, days), end: addDays(period.end, days) };
+  }
+  const start = parseKey(period.start);
+  const months = MONTHS_PER_PERIOD[period.kind];
+  if (months) {
+    return periodContaining(period.kind, new Date(start.getFullYear(), start.getMonth() + months * steps, 1));
+  }
+  return periodContaining(period.kind, parseKey(addDays(period.start, periodLength(period) * steps)));
+};
+
+export const isInPeriod = (timestamp: string, period: ReportPeriod): boolean => {
+  const key = dateKey(new Date(timestamp));
+  return key >= period.start && key <= period.end;
+};
+
+// Month and year (0-11) of every calendar month the range touches, for reading sessions month by month
+export const monthsBetween = (start: string, end: string): { month: number; year: number }[] => {
+  const months: { month: number; year: number }[] = [];
+  const first = parseKey(start);
+  for (const d = new Date(first.getFullYear(), first.getMonth(), 1); dateKey(d) <= end; d.setMonth(d.getMonth() + 1)) {
+    months.push({ month: d.getMonth(), year: d.getFullYear() });
+  }
+  return months;
+};
+
+// Month and year (0-11) when the period is exactly one calendar month, for the monthly approval and invoices
+export const periodMonth = (period: ReportPeriod): { month: number; year: number } | null => {
+  if (period.kind !== 'month') return null;
+  const start = parseKey(period.start);
+  return { month: start.getMonth(), year: start.getFullYear() };
+};
+
+const formatDay = (key: string, withYear: boolean): string =>
+  parseKey(key).toLocaleDateString(undefined, { day: 'numeric', month: 'short', ...(withYear ? { year: 'numeric' } : {}) });
+
+export const periodLabel = (period: ReportPeriod): string => {
+  const start = parseKey(period.start);
+  switch (period.kind) {
+    case 'month':
+      return start.toLocaleString('default', { month: 'long', year: 'numeric' });
+    case 'quarter':
+      return `Q${Math.floor(start.getMonth() / 3) + 1} ${start.getFullYear()}`;
+    case 'year':
+      return String(start.getFullYear());
+    default: {
+      if (period.start === period.end) return formatDay(period.start, true);
+      const sameYear = period.start.slice(0, 4) === period.end.slice(0, 4);
+      return `${formatDay(period.start, !sameYear)} – ${formatDay(period.end, true)}`;
+    }
+  }
+};
+
+// Reads the period from the dashboard URL. Month views keep the original ?month=&year= form so older links still work.
+export const periodFromQuery = (query: Record<string, string>, today: Date): ReportPeriod => {
+  const kind = PERIOD_KINDS.some(p => p.kind === query.period) ? query.period as PeriodKind : 'month';
+
+  if (kind === 'month') {
+    const month = Number(query.month);
+    const year = Number(query.year);
+    return periodContaining('month', new Date(
+      Number.isInteger(year) && year >= 2000 && year <= 2100 ? year : today.getFullYear(),
+      Number.isInteger(month) && month >= 1 && month <= 12 ? month - 1 : today.getMonth(),
+      1
+    ));
+  }
+  if (kind === 'custom') {
+    return isDateKey(query.from) && isDateKey(query.to) && query.from <= query.to
+      ? { kind, start: query.from, end: query.to }
+      : periodContaining('month', today);
+  }
+  return periodContaining(kind, isDateKey(query.from) ? parseKey(query.from) : today);
+};
+
+export const periodQuery = (period: ReportPeriod): Record<string, string> => {
+  const month = periodMonth(period);
+  if (month) return { month: String(month.month + 1), year: String(month.year) };
+  if (period.kind === 'custom') return { period: period.kind, from: period.start, to: period.end };
+  return { period: period.kind, from: period.start };
+};
+
+// Splits a period into chart points: days for short ranges, then weeks, then calendar months.
+// Buckets at either end are clipped to the period.
+export const periodBuckets = (period: ReportPeriod): PeriodBucket[] => {
+  const days = periodLength(period);
+  const buckets: PeriodBucket[] = [];
+  const clip = (start: string, end: string) => ({
+    start: start < period.start ? period.start : start,
+    end: end > period.end ? period.end : end,
+  });
+
+  if (days <= MAX_DAILY_BUCKETS) {
+    for (let key = period.start; key <= period.end; key = addDays(key, 1)) {
+      buckets.push({ start: key, end: key, label: formatDay(key, false) });
+    }
+  } else if (days <= MAX_WEEKLY_BUCKETS * 7) {
+    for (let key = startOfWeek(period.start); key <= period.end; key = addDays(key, 7)) {
+      const range = clip(key, addDays(key, 6));
+      buckets.push({ ...range, label: formatDay(range.start, false) });
+    }
+  } else {
+    const first = parseKey(period.start);
+    for (let i = 0; ; i++) {
+      const month = new Date(first.getFullYear(), first.getMonth() + i, 1);
+      const range = monthRange(month.getFullYear(), month.getMonth(), 1);
+      if (range.start > period.end) break;
+      buckets.push({ ...clip(range.start, range.end), label: month.toLocaleString('default', { month: 'short', year: '2-digit' }) });
+    }
+  }
+  return buckets;
+};
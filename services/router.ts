@@ -0,0 +1,105 @@
+// Hash routes, e.g. #/sessions/abc123 or #/dashboard?month=3&year=2025&therapist=user-1.
+// Each route declares who may open it; App resolves guards here rather than checking roles per view.
+
+import { User, UserRole } from '../types';
+
+export type RouteName = 'login' | 'register' | 'log' | 'calendar' | 'dashboard' | 'session' | 'therapist' | 'users';
+
+export interface Route {
+  name: RouteName;
+  params: Record<string, string>; // from ":name" path segments
+  query: Record<string, string>;
+}
+
+type Access = 'public' | 'signedIn' | UserRole;
+
+interface RouteDefinition {
+  name: RouteName;
+  pattern: string;
+  access: Access;
+  // Extra check for routes whose parameters decide access
+  allow?: (user: User, params: Record<string, string>) => boolean;
+}
+
+const ROUTES: RouteDefinition[] = [
+  { name: 'login', pattern: '/login', access: 'public' },
+  { name: 'register', pattern: '/register', access: 'public' },
+  { name: 'log', pattern: '/log', access: 'therapist' },
+  { name: 'calendar', pattern: '/calendar', access: 'signedIn' },
+  { name: 'dashboard', pattern: '/dashboard', access: 'signedIn' },
+  // Whether the session belongs to the user is checked when it's loaded (dbService.getSession)
+  { name: 'session', pattern: '/sessions/:id', access: 'signedIn' },
+  { name: 'therapist', pattern: '/therapists/:id', access: 'signedIn', allow: (user, params) => user.role === 'admin' || user.id === params.id },
+  { name: 'users', pattern: '/users', access: 'admin' },
+];
+
+// Older links keep working
+const ALIASES: Record<string, string> = {
+  '': '/login',
+  '/': '/login',
+  '/payroll': '/dashboard',
+};
+
+const matchPattern = (pattern: string, path: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/');
+  const pathParts = path.split('/');
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      if (!pathParts[i]) return null;
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+// Null for an unknown path
+export const parseRoute = (locationHash: string): Route | null => {
+  const [rawPath, search = ''] = locationHash.replace(/^#/, '').split('?');
+  const path = ALIASES[rawPath] ?? rawPath.replace(/\/$/, '');
+  const query = Object.fromEntries(new URLSearchParams(search));
+
+  for (const definition of ROUTES) {
+    const params = matchPattern(definition.pattern, path);
+    if (params) return { name: definition.name, params, query };
+  }
+  return null;
+};
+
+export const routeHash = (name: RouteName, params: Record<string, string> = {}, query: Record<string, string | undefined> = {}): string => {
+  const definition = ROUTES.find(r => r.name === name)!;
+  const path = definition.pattern.replace(/:(\w+)/g, (_, key) => encodeURIComponent(params[key] || ''));
+  const search = new URLSearchParams(
+    Object.entries(query).filter((entry): entry is [string, string] => !!entry[1])
+  ).toString();
+  return `#${path}${search ? `?${search}` : ''}`;
+};
+
+// Where each role lands after signing in
+export const homeRoute = (user: User): Route => ({
+  name: user.role === 'admin' ? 'dashboard' : 'log',
+  params: {},
+  query: {},
+});
+
+// Returns the route to redirect to, or null when the user may stay
+export const guardRoute = (route: Route, user: User | null): Route | null => {
+  const definition = ROUTES.find(r => r.name === route.name)!;
+
+  if (!user) {
+    if (definition.access === 'public') return null;
+    // Remember where they were going so a shared link still works after signing in
+    return { name: 'login', params: {}, query: { next: routeHash(route.name, route.params, route.query).slice(1) } };
+  }
+  if (definition.access === 'public') {
+    const next = route.query.next && parseRoute(route.query.next);
+    return next && !guardRoute(next, user) ? next : homeRoute(user);
+  }
+  if (definition.access !== 'signedIn' && definition.access !== user.role) return homeRoute(user);
+  if (definition.allow && !definition.allow(user, route.params)) return homeRoute(user);
+  return null;
+};
@@ -0,0 +1,239 @@
+// Questions about sessions ("which therapist did the most 40-minute massages in Q1?") are answered in two
+// steps: a language model turns the question into a SessionQuerySpec, which is validated here and then run
+// on the sessions in this app. The model only ever chooses filters and groupings, so every number shown
+// comes from the data itself.
+
+import { QueryGroupBy, QueryMetric, QueryResultRow, Session, SessionQuerySpec, Treatment, Weekday } from '../types';
+import { treatmentName } from './treatmentCatalogue';
+import { dateKey } from './reportPeriods';
+
+// In Date.getDay() order
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const GROUP_BYS: QueryGroupBy[] = ['none', 'therapist', 'patient', 'treatment', 'duration', 'weekday', 'month'];
+const METRICS: QueryMetric[] = ['sessions', 'hours', 'patients'];
+const SPEC_FIELDS = ['from', 'to', 'therapists', 'patients', 'treatments', 'durations', 'weekdays', 'groupBy', 'metric', 'sort', 'limit'];
+
+export const METRIC_LABELS: Record<QueryMetric, string> = { sessions: 'Sessions', hours: 'Hours', patients: 'Patients' };
+export const GROUP_BY_LABELS: Record<QueryGroupBy, string> = {
+  none: '', therapist: 'Therapist', patient: 'Patient', treatment: 'Treatment', duration: 'Duration', weekday: 'Weekday', month: 'Month',
+};
+
+// Nothing is required, so a model can answer with just { unsupported } when a question can't be a query
+export const QUERY_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    from: { type: 'string', description: 'First day, YYYY-MM-DD' },
+    to: { type: 'string', description: 'Last day, YYYY-MM-DD, inclusive' },
+    therapists: { type: 'array', items: { type: 'string' } },
+    patients: { type: 'array', items: { type: 'string' } },
+    treatments: { type: 'array', items: { type: 'string' } },
+    durations: { type: 'array', items: { type: 'integer' }, description: 'Session lengths in minutes' },
+    weekdays: { type: 'array', items: { type: 'string', enum: WEEKDAYS } },
+    groupBy: { type: 'string', enum: GROUP_BYS },
+    metric: { type: 'string', enum: METRICS },
+    sort: { type: 'string', enum: ['desc', 'asc'] },
+    limit: { type: 'integer' },
+    unsupported: { type: 'string', description: 'Why the question cannot be answered with this query' },
+  },
+};
+
+// Names the query may refer to, as stored
+export interface QueryVocabulary {
+  therapists: string[];
+  patients: string[];
+  treatments: string[];
+}
+
+export const queryVocabulary = (sessions: Session[], treatments: Treatment[]): QueryVocabulary => ({
+  therapists: Array.from(new Set(sessions.map(s => s.therapistName))).sort(),
+  patients: Array.from(new Set(sessions.map(s => s.patientName))).sort(),
+  treatments: treatments.map(t => t.name),
+});
+
+// Patient names are never listed; a patient only reaches the prompt if the question names them
+export const buildQueryPrompt = (question: string, vocabulary: Pick<QueryVocabulary, 'therapists' | 'treatments'>, today: string): string => `
+    You turn questions about a physiotherapy clinic's treatment sessions into a query, which the clinic's app runs on its own data.
+    Today is ${today}. Quarters are calendar quarters. A period without a year is the latest one up to today.
+    Therapists: ${vocabulary.therapists.join(', ')}
+    Treatments: ${vocabulary.treatments.join(', ')}
+
+    Question: ${JSON.stringify(question)}
+
+    Answer with a single JSON object and nothing else, matching this JSON Schema:
+    ${JSON.stringify(QUERY_JSON_SCHEMA)}
+
+    - Leave out every filter the question doesn't ask for, including from and to when it mentions no dates.
+    - Weekends are saturday and sunday.
+    - groupBy is what the answer is broken down by; metric is what is counted.
+    - For "which" or "who" questions, group by that, sort desc and use limit 1.
+    - If the question can't be answered by counting sessions, hours or patients, answer only {"unsupported": "<short reason>"}.
+`;
+
+// Round-trips through Date, so impossible days like 2025-02-31 are caught rather than rolled over
+const requireDate = (value: unknown, field: string): string => {
+  const date = typeof value === 'string' ? new Date(`${value}T00:00`) : null;
+  if (!date || isNaN(date.getTime()) || dateKey(date) !== value) {
+    throw new Error(`"${field}" is not a date.`);
+  }
+  return value;
+};
+
+const requireList = <T>(value: unknown, field: string, item: (v: unknown) => T): T[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) throw new Error(`"${field}" is not a list.`);
+  return value.length ? value.map(item) : undefined;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isOneOf = <T extends string>(value: unknown, allowed: readonly T[]): value is T => allowed.some(a => a === value);
+
+const requireOneOf = <T extends string>(value: unknown, allowed: readonly T[], field: string, fallback: T): T => {
+  if (value === undefined || value === null) return fallback;
+  if (!isOneOf(value, allowed)) throw new Error(`"${field}" must be one of ${allowed.join(', ')}.`);
+  return value;
+};
+
+const requireWholeNumber = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    throw new Error(`"${field}" must be a whole number above zero.`);
+  }
+  return value;
+};
+
+// Exact match first, then a unique match on any one word or the start of a name ("Mark" → "Mark Smith")
+const resolveName = (value: unknown, known: string[], kind: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`A ${kind} name is empty.`);
+  const wanted = value.trim().toLowerCase();
+  const exact = known.find(name => name.toLowerCase() === wanted);
+  if (exact) return exact;
+
+  const partial = known.filter(name =>
+    name.toLowerCase().startsWith(wanted) || name.toLowerCase().split(/\s+/).includes(wanted)
+  );
+  if (partial.length === 1) return partial[0];
+  if (partial.length > 1) throw new Error(`"${value}" could be ${partial.slice(0, 3).join(' or ')}; name the ${kind} in full.`);
+  throw new Error(`There is no ${kind} called "${value}".`);
+};
+
+// Validates the model's answer and swaps the names in it for the stored ones. `reveal` undoes any
+// pseudonyms the question was sent with (see analysisPrivacy). Throws with a message fit to show the user.
+export const parseQuerySpec = (
+  raw: string,
+  vocabulary: QueryVocabulary,
+  reveal: (text: string) => string = text => text
+): SessionQuerySpec => {
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The answer was not valid JSON.');
+  }
+  if (!isObject(data)) throw new Error('The answer was not a JSON object.');
+  if (typeof data.unsupported === 'string') throw new Error(`That can't be answered from the sessions: ${reveal(data.unsupported)}`);
+
+  const unknown = Object.keys(data).filter(key => !SPEC_FIELDS.includes(key));
+  if (unknown.length) throw new Error(`The query used fields that don't exist: ${unknown.join(', ')}.`);
+
+  const spec: SessionQuerySpec = {
+    groupBy: requireOneOf(data.groupBy, GROUP_BYS, 'groupBy', 'none'),
+    metric: requireOneOf(data.metric, METRICS, 'metric', 'sessions'),
+    sort: requireOneOf(data.sort, ['desc', 'asc'] as const, 'sort', 'desc'),
+  };
+  if (data.from !== undefined) spec.from = requireDate(data.from, 'from');
+  if (data.to !== undefined) spec.to = requireDate(data.to, 'to');
+  if (spec.from && spec.to && spec.from > spec.to) throw new Error('The query ends before it starts.');
+
+  const name = (known: string[], kind: string) => (v: unknown) =>
+    resolveName(typeof v === 'string' ? reveal(v) : v, known, kind);
+  const therapists = requireList(data.therapists, 'therapists', name(vocabulary.therapists, 'therapist'));
+  const patients = requireList(data.patients, 'patients', name(vocabulary.patients, 'patient'));
+  const treatments = requireList(data.treatments, 'treatments', name(vocabulary.treatments, 'treatment'));
+  const durations = requireList(data.durations, 'durations', v => requireWholeNumber(v, 'durations'));
+  const weekdays = requireList(data.weekdays, 'weekdays', v => {
+    if (!isOneOf(v, WEEKDAYS)) throw new Error(`"weekdays" must be from ${WEEKDAYS.join(', ')}.`);
+    return v;
+  });
+  if (therapists) spec.therapists = therapists;
+  if (patients) spec.patients = patients;
+  if (treatments) spec.treatments = treatments;
+  if (durations) spec.durations = durations;
+  if (weekdays) spec.weekdays = weekdays;
+  if (data.limit !== undefined && data.limit !== null) spec.limit = requireWholeNumber(data.limit, 'limit');
+
+  return spec;
+};
+
+// One line per part of the query, e.g. "Therapists: Mark Smith"
+export const describeQuerySpec = (spec: SessionQuerySpec): string[] => {
+  const lines: string[] = [];
+  if (spec.from || spec.to) lines.push(`Dates: ${spec.from || 'any'} to ${spec.to || 'any'}`);
+  if (spec.therapists) lines.push(`Therapists: ${spec.therapists.join(', ')}`);
+  if (spec.patients) lines.push(`Patients: ${spec.patients.join(', ')}`);
+  if (spec.treatments) lines.push(`Treatments: ${spec.treatments.join(', ')}`);
+  if (spec.durations) lines.push(`Durations: ${spec.durations.map(d => `${d} min`).join(', ')}`);
+  if (spec.weekdays) lines.push(`Weekdays: ${spec.weekdays.join(', ')}`);
+  lines.push(
+    `${METRIC_LABELS[spec.metric]}${spec.groupBy === 'none' ? '' : ` by ${GROUP_BY_LABELS[spec.groupBy].toLowerCase()}`}, ` +
+    `${spec.sort === 'desc' ? 'highest' : 'lowest'} first${spec.limit ? `, top ${spec.limit}` : ''}`
+  );
+  return lines;
+};
+
+const groupLabel = (session: Session, groupBy: QueryGroupBy, treatments: Treatment[]): string => {
+  switch (groupBy) {
+    case 'none':
+      return 'All matching sessions';
+    case 'therapist':
+      return session.therapistName;
+    case 'patient':
+      return session.patientName;
+    case 'treatment':
+      return treatmentName(treatments, session.treatmentType);
+    case 'duration':
+      return `${session.durationMinutes} min`;
+    case 'weekday': {
+      const day = WEEKDAYS[new Date(session.timestamp).getDay()];
+      return day.charAt(0).toUpperCase() + day.slice(1);
+    }
+    case 'month':
+      return new Date(session.timestamp).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  }
+};
+
+// Voided sessions never count, as on the rest of the dashboard
+export const runSessionQuery = (spec: SessionQuerySpec, sessions: Session[], treatments: Treatment[]): QueryResultRow[] => {
+  const inList = (list: string[] | undefined, value: string) => !list || list.some(v => v.toLowerCase() === value.toLowerCase());
+
+  const matching = sessions.filter(s => {
+    if (s.voidedAt) return false;
+    const day = dateKey(new Date(s.timestamp));
+    return (!spec.from || day >= spec.from)
+      && (!spec.to || day <= spec.to)
+      && inList(spec.therapists, s.therapistName)
+      && inList(spec.patients, s.patientName)
+      && inList(spec.treatments, treatmentName(treatments, s.treatmentType))
+      && (!spec.durations || spec.durations.includes(s.durationMinutes))
+      && (!spec.weekdays || spec.weekdays.includes(WEEKDAYS[new Date(s.timestamp).getDay()]));
+  });
+
+  const groups = new Map<string, Session[]>();
+  matching.forEach(s => {
+    const label = groupLabel(s, spec.groupBy, treatments);
+    groups.set(label, [...(groups.get(label) || []), s]);
+  });
+
+  const value = (group: Session[]): number => {
+    if (spec.metric === 'hours') return Math.round((group.reduce((sum, s) => sum + s.durationMinutes, 0) / 60) * 100) / 100;
+    if (spec.metric === 'patients') return new Set(group.map(s => s.patientId || s.patientName)).size;
+    return group.length;
+  };
+  const direction = spec.sort === 'desc' ? -1 : 1;
+  const rows = Array.from(groups.entries())
+    .map(([label, group]): QueryResultRow => ({ label, value: value(group), sessions: group.length }))
+    .sort((a, b) => direction * (a.value - b.value) || a.label.localeCompare(b.label));
+
+  return spec.limit ? rows.slice(0, spec.limit) : rows;
+};
@@ -0,0 +1,83 @@
+// Tamper-evident signatures.
+// When a patient signs, the session fields they signed for and the signature image are hashed together
+// with the hash of the previous seal. Changing a sealed field, swapping the image or removing a sealed
+// session afterwards makes the check below fail for that session or the one sealed after it.
+
+import { SealCheck, SealStatus, Session, SignatureSeal } from '../types';
+import { sha256Hex } from './cryptoService';
+
+// Fixed order, so the same session always produces the same payload
+const sealedFields = (session: Session) => [
+  session.id,
+  session.therapistId,
+  session.patientId ?? null,
+  session.patientName,
+  session.treatmentType,
+  session.durationMinutes,
+  session.timestamp,
+  session.appointmentId ?? null,
+];
+
+const sealHash = (session: Session, signedAt: string, signatureHash: string, prevHash: string) =>
+  sha256Hex(JSON.stringify([prevHash, signedAt, sealedFields(session), signatureHash]));
+
+// The seal new signatures chain on to: the newest one across all sessions, synced ones included
+export const latestSealHash = (sessions: Session[]): string => {
+  let latest: SignatureSeal | undefined;
+  sessions.forEach(s => {
+    if (s.seal && (!latest || s.seal.signedAt > latest.signedAt)) latest = s.seal;
+  });
+  return latest?.hash || '';
+};
+
+export const createSeal = async (session: Session, signature: Blob, prevHash: string): Promise<SignatureSeal> => {
+  const signedAt = new Date().toISOString();
+  const signatureHash = await sha256Hex(await signature.arrayBuffer());
+  return { signedAt, signatureHash, prevHash, hash: await sealHash(session, signedAt, signatureHash, prevHash) };
+};
+
+export const SEAL_STATUS_LABELS: Record<SealStatus, string> = {
+  verified: 'Verified',
+  unsigned: 'Not signed',
+  unsealed: 'Signed before sealing',
+  edited: 'Edited after signing',
+  tampered: 'Data does not match',
+  signature_mismatch: 'Signature does not match',
+  chain_broken: 'Chain broken',
+};
+
+// Statuses that need someone to look at them; edits are audited, so they are shown but not failed
+export const FAILED_SEAL_STATUSES: SealStatus[] = ['tampered', 'signature_mismatch', 'chain_broken'];
+
+export interface SealCheckInput {
+  session: Session;
+  signature: Blob | null; // stored image, if any
+  knownHashes: Set<string>; // every seal hash currently stored
+  editedAfterSigning: boolean; // the audit log has an edit after seal.signedAt
+}
+
+export const checkSeal = async ({ session, signature, knownHashes, editedAfterSigning }: SealCheckInput): Promise<SealCheck> => {
+  const result = (status: SealStatus, detail: string): SealCheck => ({ sessionId: session.id, status, detail });
+  const { seal } = session;
+
+  if (!seal) {
+    if (!session.signed) return result('unsigned', session.importedAt ? 'Imported without a signature.' : 'No signature.');
+    return result('unsealed', 'Signed before sealing was introduced; cannot be verified.');
+  }
+
+  if (!signature) return result('signature_mismatch', 'The signature image is missing.');
+  if (await sha256Hex(await signature.arrayBuffer()) !== seal.signatureHash) {
+    return result('signature_mismatch', 'The stored signature is not the one that was given.');
+  }
+
+  if (await sealHash(session, seal.signedAt, seal.signatureHash, seal.prevHash) !== seal.hash) {
+    return editedAfterSigning
+      ? result('edited', 'Details were changed after the patient signed; see the session history.')
+      : result('tampered', 'Session details changed without an audit entry.');
+  }
+
+  if (seal.prevHash && !knownHashes.has(seal.prevHash)) {
+    return result('chain_broken', 'The session sealed before this one is missing.');
+  }
+  return result('verified', `Signed ${new Date(seal.signedAt).toLocaleString()}.`);
+};
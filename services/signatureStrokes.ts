@@ -0,0 +1,117 @@
+// Vector signatures: the pad records timed, pressure-weighted strokes and stores them as compact JSON,
+// so they redraw sharply at any size and can be replayed in the order they were drawn.
+// They travel as data URLs like the older PNG signatures, so storage, sync and backups treat both alike.
+
+import { SignatureStrokes, StrokePoint } from '../types';
+import { fromBase64, toBase64 } from './cryptoService';
+
+export const SIGNATURE_MIME = 'application/vnd.physiotrack.signature+json';
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+export const encodeSignature = (signature: SignatureStrokes): string => {
+  const compact: SignatureStrokes = {
+    ...signature,
+    strokes: signature.strokes.map(stroke =>
+      stroke.map(([x, y, t, p]): StrokePoint => [round(x, 1), round(y, 1), Math.round(t), round(p, 2)])
+    ),
+  };
+  return `data:${SIGNATURE_MIME};base64,${toBase64(new TextEncoder().encode(JSON.stringify(compact)))}`;
+};
+
+// Null for raster (PNG) signatures and anything that isn't a stroke recording
+export const decodeSignature = (dataUrl: string): SignatureStrokes | null => {
+  const [header, data] = dataUrl.split(',');
+  if (!header.startsWith(`data:${SIGNATURE_MIME}`) || !data) return null;
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(fromBase64(data)));
+    return parsed.version === 1 && Array.isArray(parsed.strokes) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export interface StrokeSegment {
+  d: string; // SVG path data
+  width: number;
+  t: number; // time the segment was finished, for replay
+}
+
+const BASE_WIDTH = 2.5;
+
+// Mice report 0.5 while pressed and some touch screens report 0, so both draw at the base width
+const widthFor = (pressure: number) => BASE_WIDTH * (0.6 + 0.8 * (pressure || 0.5));
+
+const pt = ([x, y]: number[]) => `${round(x, 1)} ${round(y, 1)}`;
+const mid = (a: StrokePoint, b: StrokePoint): StrokePoint => [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, b[2], b[3]];
+
+// Smooths each stroke with quadratic curves through the midpoints; one segment per point so the width can follow pressure
+export const strokeSegments = (signature: SignatureStrokes): StrokeSegment[] =>
+  signature.strokes.flatMap(points => {
+    if (points.length === 1) {
+      return [{ d: `M ${pt(points[0])} l 0.01 0`, width: widthFor(points[0][3]), t: points[0][2] }];
+    }
+    const segments: StrokeSegment[] = [];
+    let from: StrokePoint = points[0];
+    for (let i = 1; i < points.length - 1; i++) {
+      const to = mid(points[i], points[i + 1]);
+      segments.push({
+        d: `M ${pt(from)} Q ${pt(points[i])} ${pt(to)}`,
+        width: widthFor(points[i][3]),
+        t: points[i][2],
+      });
+      from = to;
+    }
+    const last = points[points.length - 1];
+    segments.push({ d: `M ${pt(from)} L ${pt(last)}`, width: widthFor(last[3]), t: last[2] });
+    return segments;
+  });
+
+const REPLAY_MAX_PAUSE_MS = 400;
+
+// When each segment appears during replay: drawing speed as recorded, long pauses between strokes shortened
+export const replayTimeline = (segments: StrokeSegment[]): number[] => {
+  let shift = 0;
+  return segments.map((segment, i) => {
+    const gap = i ? segment.t - segments[i - 1].t : 0;
+    if (gap > REPLAY_MAX_PAUSE_MS) shift += gap - REPLAY_MAX_PAUSE_MS;
+    return segment.t - shift;
+  });
+};
+
+const MIN_POINTS = 10;
+const MIN_INK_LENGTH = 80; // px
+const MIN_EXTENT = 20; // px
+
+// Rejects a dot, a tap or a single straight stroke; returns the reason, or null when it looks like a signature
+export const validateSignature = (signature: SignatureStrokes): string | null => {
+  const points = signature.strokes.flat();
+  if (points.length < MIN_POINTS) return 'The signature is too short. Please sign again.';
+
+  const xs = points.map(p => p[0]);
+  const ys = points.map(p => p[1]);
+  if (Math.max(...xs) - Math.min(...xs) < MIN_EXTENT && Math.max(...ys) - Math.min(...ys) < MIN_EXTENT) {
+    return 'That looks like a dot rather than a signature.';
+  }
+
+  const ink = signature.strokes.reduce((total, stroke) =>
+    total + stroke.slice(1).reduce((sum, p, i) => sum + Math.hypot(p[0] - stroke[i][0], p[1] - stroke[i][1]), 0), 0);
+  if (ink < MIN_INK_LENGTH) return 'The signature is too short. Please sign again.';
+
+  // Spread across the main axis versus across it: a straight line has almost none across
+  const n = points.length;
+  const mx = xs.reduce((a, b) => a + b, 0) / n;
+  const my = ys.reduce((a, b) => a + b, 0) / n;
+  let cxx = 0, cyy = 0, cxy = 0;
+  points.forEach(([x, y]) => {
+    cxx += (x - mx) ** 2 / n;
+    cyy += (y - my) ** 2 / n;
+    cxy += (x - mx) * (y - my) / n;
+  });
+  const spread = Math.sqrt((cxx - cyy) ** 2 + 4 * cxy ** 2);
+  const major = Math.sqrt((cxx + cyy + spread) / 2);
+  const minor = Math.sqrt(Math.max(0, (cxx + cyy - spread) / 2));
+  if (minor < 3 || minor < major * 0.04) return 'That looks like a straight line rather than a signature.';
+
+  return null;
+};
@@ -0,0 +1,174 @@
+// Reads CSV and XLSX files into rows of cell text.
+// XLSX is a zip of XML parts; the zip is unpacked with the browser's DecompressionStream,
+// and only the first worksheet is read.
+
+export interface SheetRow {
+  number: number; // 1-based, as numbered in the file; blank rows are dropped but still counted
+  cells: string[];
+  numeric?: boolean[]; // XLSX only: cells stored as numbers, which is also how Excel stores dates and times
+}
+
+export type SheetRows = SheetRow[];
+
+const withoutBlankRows = (rows: SheetRows): SheetRows => rows.filter(r => r.cells.some(cell => cell.trim()));
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks
+export const parseCsv = (text: string): SheetRows => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, ''); // Excel adds a byte order mark
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return withoutBlankRows(rows.map((cells, i) => ({ number: i + 1, cells })));
+};
+
+interface ZipEntry {
+  name: string;
+  method: number; // 0 stored, 8 deflate
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const readZipEntries = (bytes: Uint8Array): ZipEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The end-of-central-directory record sits in the last 64KB (after an optional comment)
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('This file is not a valid XLSX workbook.');
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('This XLSX file is damaged.');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+      name: new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength)),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readZipText = async (bytes: Uint8Array, entry: ZipEntry): Promise<string> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const header = entry.localHeaderOffset;
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error('This XLSX file uses an unsupported compression method.');
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const parseXml = (text: string): Document => new DOMParser().parseFromString(text, 'application/xml');
+
+// "AB12" -> 27 (zero-based column index)
+const columnIndex = (ref: string): number => {
+  const letters = ref.replace(/\d+$/, '');
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<SheetRows> => {
+  const bytes = new Uint8Array(buffer);
+  const entries = readZipEntries(bytes);
+  const find = (name: string) => entries.find(e => e.name === name);
+
+  // Find the first sheet via the workbook relationships, falling back to the usual name
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = find('xl/workbook.xml');
+  const rels = find('xl/_rels/workbook.xml.rels');
+  if (workbook && rels) {
+    const firstSheet = parseXml(await readZipText(bytes, workbook)).getElementsByTagName('sheet')[0];
+    const relId = firstSheet?.getAttribute('r:id');
+    const target = Array.from(parseXml(await readZipText(bytes, rels)).getElementsByTagName('Relationship'))
+      .find(r => r.getAttribute('Id') === relId)?.getAttribute('Target');
+    if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sheet = find(sheetPath);
+  if (!sheet) throw new Error('No worksheet found in this workbook.');
+
+  const sharedEntry = find('xl/sharedStrings.xml');
+  const shared = sharedEntry
+    ? Array.from(parseXml(await readZipText(bytes, sharedEntry)).getElementsByTagName('si')).map(si =>
+        Array.from(si.getElementsByTagName('t')).map(t => t.textContent || '').join(''))
+    : [];
+
+  const rows: SheetRows = [];
+  Array.from(parseXml(await readZipText(bytes, sheet)).getElementsByTagName('row')).forEach((rowEl, i) => {
+    const row: string[] = [];
+    const numeric: boolean[] = [];
+    Array.from(rowEl.getElementsByTagName('c')).forEach(cell => {
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent || '';
+      let text: string;
+      if (type === 's') text = shared[Number(value)] || '';
+      else if (type === 'inlineStr') text = Array.from(cell.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+      else text = value;
+      // Empty cells are usually omitted, so place each one by its reference
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : row.length;
+      row[index] = text;
+      // Numbers have no type, or "n"
+      numeric[index] = (!type || type === 'n') && value !== '';
+    });
+    // Blank rows are usually left out of the file, so the row says its own number
+    rows.push({
+      number: Number(rowEl.getAttribute('r')) || i + 1,
+      cells: Array.from(row, cell => cell || ''),
+      numeric: Array.from(row, (_, index) => !!numeric[index]),
+    });
+  });
+  return withoutBlankRows(rows);
+};
+
+export const readSpreadsheet = async (file: File): Promise<SheetRows> => {
+  if (/\.xlsx$/i.test(file.name)) return parseXlsx(await file.arrayBuffer());
+  if (/\.(csv|txt)$/i.test(file.name)) return parseCsv(await file.text());
+  throw new Error('Choose a .csv or .xlsx file.');
+};
@@ -0,0 +1,168 @@
+// IndexedDB persistence for dbService.
+// Users, sessions and signature images get their own object stores; the remaining small
+// collections (rates, invoices, periods...) are kept as one record each in `collections`.
+
+import { Session } from '../types';
+
+const IDB_NAME = 'physiotrack';
+const IDB_VERSION = 2;
+const BACKUPS_KEPT = 5;
+
+export type StoreName = 'users' | 'sessions' | 'signatures' | 'collections' | 'backups';
+
+// Sessions carry a local "YYYY-MM" key so they can be indexed by month
+export type StoredSession = Session & { month: string };
+
+export interface StoredSignature {
+  sessionId: string;
+  blob: Blob;
+}
+
+export interface CollectionRecord {
+  name: string;
+  value: unknown;
+}
+
+// A full copy of the data taken before a schema upgrade
+export interface StorageBackup {
+  id: string;
+  createdAt: string; // ISO string
+  schemaVersion: number;
+  reason: string;
+  data: string; // JSON
+}
+
+// A batch of changes applied in a single transaction
+export interface StorageWrite {
+  store: StoreName;
+  clear?: boolean; // applied before the puts
+  put?: unknown[];
+  delete?: string[];
+}
+
+export const monthKey = (timestamp: string): string => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const toStoredSession = (session: Session): StoredSession => {
+  // Signature images live in their own store
+  const { signatureDataUrl, ...rest } = session;
+  return { ...rest, month: monthKey(session.timestamp) };
+};
+
+export const fromStoredSession = ({ month, ...session }: StoredSession): Session => session;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+export const openStorage = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(IDB_NAME, IDB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const idb = request.result;
+      if (event.oldVersion < 1) {
+        idb.createObjectStore('users', { keyPath: 'id' });
+        const sessions = idb.createObjectStore('sessions', { keyPath: 'id' });
+        sessions.createIndex('therapistId', 'therapistId');
+        sessions.createIndex('month', 'month');
+        sessions.createIndex('therapistMonth', ['therapistId', 'month']);
+        idb.createObjectStore('signatures', { keyPath: 'sessionId' });
+        idb.createObjectStore('collections', { keyPath: 'name' });
+      }
+      if (event.oldVersion < 2) {
+        idb.createObjectStore('backups', { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Close other PhysioTrack tabs to finish upgrading storage.'));
+  });
+
+export const readAll = <T>(idb: IDBDatabase, store: StoreName): Promise<T[]> =>
+  promisify(idb.transaction(store, 'readonly').objectStore(store).getAll() as IDBRequest<T[]>);
+
+export const readCollections = async (idb: IDBDatabase): Promise<Record<string, unknown>> => {
+  const records = await readAll<CollectionRecord>(idb, 'collections');
+  const collections: Record<string, unknown> = {};
+  records.forEach(r => { collections[r.name] = r.value; });
+  return collections;
+};
+
+export const readSessionsByMonth = async (idb: IDBDatabase, month: string, therapistId?: string): Promise<Session[]> => {
+  const store = idb.transaction('sessions', 'readonly').objectStore('sessions');
+  const request = therapistId
+    ? store.index('therapistMonth').getAll([therapistId, month])
+    : store.index('month').getAll(month);
+  const records = await promisify(request as IDBRequest<StoredSession[]>);
+  return records.map(fromStoredSession);
+};
+
+export const readSignature = async (idb: IDBDatabase, sessionId: string): Promise<Blob | undefined> => {
+  const request = idb.transaction('signatures', 'readonly').objectStore('signatures').get(sessionId);
+  const record = await promisify(request as IDBRequest<StoredSignature | undefined>);
+  return record?.blob;
+};
+
+export const writeBatch = (idb: IDBDatabase, writes: StorageWrite[]): Promise<void> => {
+  const stores = Array.from(new Set(writes.map(w => w.store)));
+  const tx = idb.transaction(stores, 'readwrite');
+  writes.forEach(w => {
+    const store = tx.objectStore(w.store);
+    if (w.clear) store.clear();
+    w.put?.forEach(value => store.put(value));
+    w.delete?.forEach(key => store.delete(key));
+  });
+  return completion(tx);
+};
+
+// Stores a backup and drops all but the most recent few
+export const saveBackup = async (idb: IDBDatabase, backup: StorageBackup): Promise<void> => {
+  const existing = await readAll<StorageBackup>(idb, 'backups');
+  const stale = existing
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(BACKUPS_KEPT - 1)
+    .map(b => b.id);
+  await writeBatch(idb, [{ store: 'backups', put: [backup], delete: stale }]);
+};
+
+export const isEmpty = async (idb: IDBDatabase): Promise<boolean> => {
+  const count = await promisify(idb.transaction('users', 'readonly').objectStore('users').count());
+  return count === 0;
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const type = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Ask the browser not to evict our data under storage pressure; best effort only
+export const requestPersistence = async (): Promise<void> => {
+  try {
+    await navigator.storage?.persist?.();
+  } catch {
+    // Not supported here
+  }
+};
@@ -0,0 +1,118 @@
+// Pushes local changes to the sync server and pulls everyone else's.
+// The protocol is a single POST /sync carrying queued changes plus the last pulled revision;
+// see server/syncServer.mjs for the reference implementation.
+
+import { SyncRequest, SyncResponse, SyncSettings, SyncStatus } from '../types';
+import { dbService } from './dbService';
+
+const SYNC_INTERVAL_MS = 60 * 1000;
+const CHANGE_DEBOUNCE_MS = 3 * 1000;
+const BATCH_SIZE = 200; // records per push; signatures make sessions a few KB each
+
+class SyncService {
+  private syncing = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private debounce: ReturnType<typeof setTimeout> | null = null;
+  private listeners: ((status: SyncStatus, applied: number) => void)[] = [];
+  private stopListening: (() => void) | null = null;
+
+  // Syncs now, then periodically, after local changes and whenever the browser comes back online
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.syncNow(), SYNC_INTERVAL_MS);
+    window.addEventListener('online', this.handleOnline);
+    this.stopListening = dbService.onOutboxChange(() => {
+      this.notify(0);
+      if (this.debounce) clearTimeout(this.debounce);
+      this.debounce = setTimeout(() => this.syncNow(), CHANGE_DEBOUNCE_MS);
+    });
+    this.syncNow();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    if (this.debounce) clearTimeout(this.debounce);
+    this.timer = null;
+    this.debounce = null;
+    window.removeEventListener('online', this.handleOnline);
+    this.stopListening?.();
+    this.stopListening = null;
+  }
+
+  private handleOnline = () => {
+    this.syncNow();
+  };
+
+  getStatus(): SyncStatus {
+    return {
+      configured: !!dbService.getSyncSettings().serverUrl,
+      syncing: this.syncing,
+      ...dbService.getSyncState(),
+    };
+  }
+
+  // `applied` is the number of remote changes taken in, so views know when to re-read
+  subscribe(listener: (status: SyncStatus, applied: number) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notify(applied: number) {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status, applied));
+  }
+
+  private async post(settings: SyncSettings, request: SyncRequest): Promise<SyncResponse> {
+    const response = await fetch(`${settings.serverUrl}/sync`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${settings.key}`,
+      },
+      body: JSON.stringify(request),
+    });
+    if (response.status === 401) throw new Error('The sync server rejected the sync key.');
+    if (!response.ok) throw new Error(`Sync server error (${response.status}).`);
+    return response.json();
+  }
+
+  async syncNow(): Promise<{ success: boolean; message: string }> {
+    const settings = dbService.getSyncSettings();
+    if (!settings.serverUrl) {
+      return { success: false, message: 'Sync is not set up on this device.' };
+    }
+    if (this.syncing) {
+      return { success: false, message: 'A sync is already running.' };
+    }
+    if (!navigator.onLine) {
+      return { success: false, message: 'This device is offline. Changes will sync when it reconnects.' };
+    }
+
+    this.syncing = true;
+    this.notify(0);
+    let applied = 0;
+    try {
+      // Keep going while the server has more to send or we had a full batch to push. Refused new records
+      // stay queued, so a full batch that was all refused would only be sent again.
+      let more = true;
+      while (more) {
+        const { request, sent } = await dbService.getSyncBatch(BATCH_SIZE);
+        const response = await this.post(settings, request);
+        applied += dbService.applySyncResponse(response, sent, request.viewer?.userId);
+        more = response.more || (request.changes.length === BATCH_SIZE && (response.rejected || []).length < BATCH_SIZE);
+      }
+      return { success: true, message: applied ? `Synced ${applied} change(s) from other devices.` : 'Everything is up to date.' };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Sync failed.';
+      dbService.recordSyncError(message);
+      return { success: false, message };
+    } finally {
+      this.syncing = false;
+      this.notify(applied);
+    }
+  }
+}
+
+export const syncService = new SyncService();
@@ -0,0 +1,39 @@
+import { Treatment, TreatmentType } from '../types';
+
+export const DEFAULT_TREATMENTS: Treatment[] = [
+  { id: 'Sports Massage', name: 'Sports Massage', allowedDurations: [40, 45, 60], defaultDuration: 60, color: '#4f46e5', active: true },
+  { id: 'Physiotherapy', name: 'Physiotherapy', allowedDurations: [45], defaultDuration: 45, color: '#0d9488', active: true },
+];
+
+const UNKNOWN_COLOR = '#64748b';
+
+export const findTreatment = (treatments: Treatment[], id: TreatmentType): Treatment | undefined =>
+  treatments.find(t => t.id === id);
+
+// Falls back to the raw id so sessions for a removed treatment still read sensibly
+export const treatmentName = (treatments: Treatment[], id: TreatmentType): string =>
+  findTreatment(treatments, id)?.name || id;
+
+export const treatmentColor = (treatments: Treatment[], id: TreatmentType): string =>
+  findTreatment(treatments, id)?.color || UNKNOWN_COLOR;
+
+export const isAllowedDuration = (treatment: Treatment, minutes: number): boolean =>
+  treatment.allowedDurations.includes(minutes);
+
+// "45 mins / session" or "40–60 mins"
+export const durationRuleLabel = (treatment: Treatment): string => {
+  const durations = treatment.allowedDurations.slice().sort((a, b) => a - b);
+  if (durations.length === 1) return `${durations[0]} mins / session`;
+  return `${durations[0]}–${durations[durations.length - 1]} mins`;
+};
+
+export const validateTreatment = (treatment: Treatment, existing: Treatment[]): string | null => {
+  if (!treatment.name.trim()) return 'Treatment name is required.';
+  const clash = existing.find(t => t.id !== treatment.id && t.name.toLowerCase() === treatment.name.trim().toLowerCase());
+  if (clash) return `A treatment called "${clash.name}" already exists.`;
+  if (!treatment.allowedDurations.length) return 'Add at least one allowed duration.';
+  if (treatment.allowedDurations.some(d => !Number.isInteger(d) || d <= 0)) return 'Durations must be whole minutes.';
+  if (!treatment.allowedDurations.includes(treatment.defaultDuration)) return 'The default duration must be one of the allowed durations.';
+  if (treatment.payRate && (isNaN(treatment.payRate.amount) || treatment.payRate.amount < 0)) return 'Enter a valid pay rate.';
+  return null;
+};
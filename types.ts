@@ -1,35 +1,484 @@
-export enum TreatmentType {
-  PHYSIOTHERAPY = 'Physiotherapy',
-  SPORTS_MASSAGE = 'Sports Massage',
+// Id of a Treatment in the catalogue. The seeded treatments reuse the old enum
+// values ('Physiotherapy', 'Sports Massage') as ids so existing sessions keep resolving.
+export type TreatmentType = string;
+
+export interface Treatment {
+  id: TreatmentType;
+  name: string;
+  allowedDurations: number[]; // minutes
+  defaultDuration: number;
+  color: string; // hex, e.g. #0d9488
+  payRate?: { amount: number; unit: RateUnit }; // clinic baseline; the rate card overrides it
+  active: boolean; // inactive treatments stay on old sessions but can't be logged
+  updatedAt?: string; // ISO string; compared when two devices change the same treatment
 }
 
 export type UserRole = 'admin' | 'therapist';
 
+export type EmploymentType = 'freelance' | 'employed' | 'locum';
+
+export interface ContractDetails {
+  employmentType: EmploymentType;
+  startDate?: string; // YYYY-MM-DD
+  payoutReference?: string; // bank account or payout reference used when paying the therapist
+}
+
 export interface User {
   id: string;
   username: string;
   name: string;
   role: UserRole;
+  deactivatedAt?: string; // ISO string; deactivated users can't sign in but stay in past reports
+  contract?: ContractDetails; // therapists only
 }
 
+export type UserEditableFields = Pick<User, 'name' | 'username' | 'role' | 'contract'>;
+
 export interface Session {
   id: string;
   therapistId: string;
   therapistName: string;
-  patientName: string;
+  patientId?: string; // registry link; older sessions are matched on load
+  patientName: string; // name as recorded at the time of the session
   treatmentType: TreatmentType;
   durationMinutes: number;
   timestamp: string; // ISO string
-  signatureDataUrl: string; // Base64 image
-  notes?: string;
+  signatureDataUrl?: string; // Vector strokes (older sessions: a PNG) as a data URL; only set when logging, stored separately (see dbService.getSignature)
+  signed?: boolean;
+  seal?: SignatureSeal; // set when signed; absent on sessions signed before sealing existed
+  notes?: string; // free text from imported timesheets; clinical notes go in clinicalNote
+  clinicalNote?: ClinicalNote; // only shown to the treating therapist and admins
+  appointmentId?: string; // set when logged from a booked appointment
+  importedAt?: string; // ISO string; set on sessions brought in from old timesheets, which have no signature
+  updatedAt?: string; // ISO string, set on edit
+  voidedAt?: string; // ISO string; voided sessions are excluded from payroll
+  voidedBy?: string; // admin user id
+  voidReason?: string;
+}
+
+export interface SoapNote {
+  subjective: string; // what the patient reports
+  objective: string; // findings and measurements
+  assessment: string;
+  plan: string;
+}
+
+export type BodyView = 'front' | 'back';
+
+// A treated area on the body chart; region ids come from BODY_REGIONS in bodyChart.ts
+export interface BodyMark {
+  view: BodyView;
+  regionId: string;
+  pain: number; // 0-10
+}
+
+export interface ClinicalNote extends SoapNote {
+  bodyMarks: BodyMark[];
+  updatedAt: string; // ISO string
+  updatedBy: string; // user id
+}
+
+export type ClinicalNoteDraft = Omit<ClinicalNote, 'updatedAt' | 'updatedBy'>;
+
+// x and y in CSS pixels of the pad, t in ms since the first point, pressure 0..1
+export type StrokePoint = [x: number, y: number, t: number, pressure: number];
+
+export interface SignatureStrokes {
+  version: 1;
+  width: number; // pad size when signed, used as the drawing's viewBox
+  height: number;
+  strokes: StrokePoint[][];
+}
+
+// Binds a signature to the session details it was given for, and chains it to the seal before it
+export interface SignatureSeal {
+  signedAt: string; // ISO string
+  signatureHash: string; // SHA-256 of the signature image bytes, hex
+  prevHash: string; // hash of the newest seal at signing time; '' for the first
+  hash: string; // SHA-256 of prevHash, the sealed session fields and signatureHash, hex
+}
+
+export type SealStatus = 'verified' | 'unsigned' | 'unsealed' | 'edited' | 'tampered' | 'signature_mismatch' | 'chain_broken';
+
+export interface SealCheck {
+  sessionId: string;
+  status: SealStatus;
+  detail: string;
+}
+
+export type SessionEditableFields = Pick<Session, 'patientId' | 'patientName' | 'treatmentType' | 'durationMinutes'>;
+
+export type AuditAction = 'create' | 'edit' | 'void';
+
+// Signatures never change after capture, so audit snapshots leave them out to save space
+export type AuditSnapshot = Omit<Session, 'signatureDataUrl'>;
+
+export interface AuditEntry {
+  id: string;
+  sessionId: string;
+  action: AuditAction;
+  actorId: string;
+  actorName: string;
+  at: string; // ISO string
+  before: AuditSnapshot | null;
+  after: AuditSnapshot;
+  reason?: string;
+}
+
+export type RateUnit = 'session' | 'hour';
+
+export interface PayRate {
+  id: string;
+  therapistId: string | null; // null = clinic-wide default
+  treatmentType: TreatmentType;
+  durationMinutes: number | null; // null = applies to any duration
+  amount: number;
+  unit: RateUnit;
+  effectiveFrom?: string; // ISO date (yyyy-mm-dd), inclusive
+  effectiveTo?: string; // ISO date (yyyy-mm-dd), inclusive
+}
+
+export interface SessionPay {
+  sessionId: string;
+  rateId: string | null; // null when no rate matched
+  grossPay: number;
+}
+
+export interface TherapistPayroll {
+  therapistId: string;
+  therapistName: string;
+  totalSessions: number;
+  totalMinutes: number;
+  grossPay: number;
+  unratedSessions: number;
 }
 
 export interface PayrollReport {
   totalSessions: number;
   totalHours: number;
-  breakdown: {
-    physioCount: number;
-    massageCount: number;
-  };
+  breakdown: Record<TreatmentType, number>; // session count per treatment
+  grossPay: number;
+  unratedSessions: number;
+  sessionPay: Record<string, SessionPay>;
+  therapists: TherapistPayroll[];
   aiAnalysis?: string;
-}
\ No newline at end of file
+}
+
+// Reporting windows for the dashboard. Approval and invoicing stay per calendar month.
+export type PeriodKind = 'week' | 'fortnight' | 'month' | 'quarter' | 'year' | 'custom';
+
+export interface ReportPeriod {
+  kind: PeriodKind;
+  start: string; // YYYY-MM-DD, local time
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+export interface PeriodBucket {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+  label: string;
+}
+
+export interface TrendPoint {
+  sessions: number;
+  minutes: number;
+  byTreatment: Record<TreatmentType, number>; // session count per treatment
+}
+
+export interface TherapistTrend {
+  therapistId: string;
+  therapistName: string;
+  points: TrendPoint[]; // one per bucket
+  total: TrendPoint;
+}
+
+export interface PayrollTrend {
+  buckets: PeriodBucket[];
+  points: TrendPoint[]; // all therapists, one per bucket
+  therapists: TherapistTrend[];
+}
+export interface ClinicDetails {
+  name: string;
+  address: string;
+  email: string;
+}
+
+export interface InvoiceLineItem {
+  sessionId: string;
+  date: string; // ISO string
+  description: string;
+  durationMinutes: number;
+  amount: number;
+}
+
+export interface Invoice {
+  id: string;
+  number: string; // e.g. INV-2025-3FA2-0007, with the issuing device's code; older ones have none
+  therapistId: string;
+  therapistName: string;
+  month: number; // 0-11
+  year: number;
+  issuedAt: string; // ISO string
+  issuedBy: string; // user id
+  clinic: ClinicDetails;
+  lineItems: InvoiceLineItem[];
+  totalMinutes: number;
+  total: number;
+}
+
+export interface Invite {
+  token: string;
+  role: UserRole;
+  name?: string; // when set, the invitee can't change it
+  createdBy: string; // admin user id
+  createdAt: string; // ISO string
+  expiresAt: string; // ISO string
+  usedAt?: string; // ISO string
+  usedBy?: string; // user id of the account created with it
+}
+
+export type PeriodStatus = 'draft' | 'submitted' | 'approved' | 'paid';
+
+export interface PeriodTransition {
+  from: PeriodStatus;
+  to: PeriodStatus;
+  at: string; // ISO string
+  by: string; // user id
+  byName: string;
+}
+
+// One therapist's payroll month
+export interface PayPeriod {
+  therapistId: string;
+  month: number; // 0-11
+  year: number;
+  status: PeriodStatus;
+  history: PeriodTransition[];
+}
+
+export interface PatientConsent {
+  treatment: boolean;
+  dataProcessing: boolean;
+  contact: boolean;
+}
+
+export interface Patient {
+  id: string;
+  name: string;
+  dateOfBirth?: string; // yyyy-mm-dd
+  phone?: string;
+  email?: string;
+  consent: PatientConsent;
+  createdAt: string; // ISO string
+  createdBy: string; // user id, or 'migration'
+  updatedAt?: string; // ISO string; compared when two devices change the same patient
+}
+
+export type AppointmentStatus = 'booked' | 'completed' | 'no_show' | 'late_cancel' | 'cancelled';
+
+export interface Appointment {
+  id: string;
+  therapistId: string;
+  therapistName: string;
+  patientId: string;
+  patientName: string;
+  treatmentType: TreatmentType;
+  start: string; // ISO string
+  durationMinutes: number;
+  status: AppointmentStatus;
+  sessionId?: string; // the session logged when completed
+  createdBy: string; // user id
+  createdAt: string; // ISO string
+  statusChangedBy?: string; // user id
+  statusChangedAt?: string; // ISO string
+}
+
+export type SyncKind = 'session' | 'user' | 'invite' | 'payPeriod' | 'treatment' | 'patient' | 'invoice' | 'analysisPolicy' | 'promptLog';
+
+// A record as held by the sync server; `rev` is the server's revision counter
+export interface SyncRecord {
+  kind: SyncKind;
+  id: string;
+  rev: number;
+  data: unknown | null; // null once deleted
+  signatureDataUrl?: string; // sessions only
+}
+
+export interface SyncChange extends Omit<SyncRecord, 'rev'> {
+  baseRev: number; // server revision the change was made on; 0 for new records
+}
+
+export interface SyncRequest {
+  since: number; // highest server revision already pulled
+  changes: SyncChange[];
+  viewer?: SyncViewer;
+}
+
+// Who is signed in on the pushing device; the server checks their changes against them
+export interface SyncViewer {
+  userId: string;
+  token?: string; // issued by the server in exchange for the password
+  password?: string; // sent only until a token comes back
+}
+
+export interface SyncResponse {
+  rev: number; // pull up to here next time
+  more: boolean; // another page of changes is waiting
+  accepted: { kind: SyncKind; id: string; rev: number }[];
+  conflicts: SyncRecord[]; // server copies of changes that were made on a stale revision
+  rejected?: SyncRejection[]; // changes the server refused outright; absent from older servers
+  changes: SyncRecord[];
+  viewerToken?: string; // set when the request carried the viewer's password
+}
+
+export interface SyncRejection {
+  kind: SyncKind;
+  id: string;
+  reason: string; // fit to show the user
+  current: SyncRecord | null; // the server copy to take instead; null leaves the change queued
+}
+
+export interface SyncSettings {
+  serverUrl: string;
+  key: string;
+}
+
+// 'replay' answers from recorded responses in tests (see analysisRecorder) and can't be chosen in settings
+export type AnalysisProviderId = 'gemini' | 'openai' | 'template' | 'replay';
+
+// How much of the session data an analysis prompt may contain (see analysisPrivacy)
+export type AnalysisPrivacy = 'names' | 'pseudonyms' | 'aggregate';
+
+// Per device, like sync settings: never synced or backed up because it holds API keys. The privacy policy
+// is the exception; it is synced on its own as an AnalysisPolicy.
+export interface AnalysisSettings {
+  provider: Exclude<AnalysisProviderId, 'replay'>;
+  geminiApiKey: string;
+  geminiModel: string;
+  endpointUrl: string; // OpenAI-compatible base URL, e.g. http://localhost:11434/v1 for Ollama
+  endpointModel: string;
+  endpointApiKey: string; // optional; local servers usually don't need one
+  fallbackToTemplate: boolean; // write the offline summary when the provider fails
+  privacy: AnalysisPrivacy;
+  privacySetAt?: string; // ISO string; when an administrator last saved the policy, here or on another device
+  privacySetBy?: string; // their user id
+}
+
+// The clinic's privacy policy for analysis prompts, as synced between devices
+export interface AnalysisPolicy {
+  privacy: AnalysisPrivacy;
+  updatedAt: string; // ISO string
+  updatedBy: string; // admin user id; the sync server and other devices check it
+}
+
+export interface AnalysisRequest {
+  sessions: Session[];
+  periodLabel: string; // e.g. "March 2025" or "Q1 2025"
+  treatments: Treatment[];
+  grossPay: number; // from the payroll report, so quoted pay can be checked
+  aggregateOnly?: boolean; // describe the sessions by their totals only, without listing them
+}
+
+// A question about sessions, translated into a query the app runs on its own data (see sessionQuery)
+export type QueryGroupBy = 'none' | 'therapist' | 'patient' | 'treatment' | 'duration' | 'weekday' | 'month';
+export type QueryMetric = 'sessions' | 'hours' | 'patients';
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+// Filters are combined with AND; values within one list with OR. Names are as stored, not as typed.
+export interface SessionQuerySpec {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  therapists?: string[];
+  patients?: string[];
+  treatments?: string[];
+  durations?: number[]; // minutes
+  weekdays?: Weekday[];
+  groupBy: QueryGroupBy;
+  metric: QueryMetric;
+  sort: 'desc' | 'asc';
+  limit?: number;
+}
+
+export interface QueryResultRow {
+  label: string;
+  value: number; // in the spec's metric
+  sessions: number;
+}
+
+export interface SessionQueryAnswer {
+  question: string;
+  spec?: SessionQuerySpec;
+  error?: string; // why the question couldn't be turned into a query
+  provider: AnalysisProviderId;
+}
+
+// A prompt exactly as it was sent to a provider off this device
+export interface PromptLogEntry {
+  id: string;
+  sentAt: string; // ISO string
+  sentBy: string; // user name
+  provider: AnalysisProviderId;
+  destination: string; // model, and endpoint for OpenAI-compatible servers
+  privacy: AnalysisPrivacy;
+  prompt: string;
+}
+
+// What a quoted number claims to be; 'other' figures are shown but can't be checked
+export type FigureMetric =
+  | 'total_sessions' | 'total_hours' | 'gross_pay' | 'patients'
+  | 'treatment_sessions' | 'therapist_sessions' | 'therapist_hours' | 'other';
+
+export interface QuotedFigure {
+  label: string; // as the analysis words it, e.g. "Sports massage sessions"
+  metric: FigureMetric;
+  subject?: string; // treatment or therapist name for the per-treatment and per-therapist metrics
+  value: number;
+}
+
+export interface PayrollAnalysis {
+  greeting: string;
+  workloadSummary: string;
+  observations: string[];
+  invoiceText: string;
+  figures: QuotedFigure[];
+}
+
+export type FigureCheckStatus = 'match' | 'mismatch' | 'unchecked';
+
+export interface FigureCheck {
+  figure: QuotedFigure;
+  status: FigureCheckStatus;
+  expected?: number; // the computed value, when there is one
+}
+
+export interface AnalysisResult {
+  text: string; // the provider's raw answer, shown as-is when it can't be parsed
+  analysis?: PayrollAnalysis;
+  checks: FigureCheck[]; // one per quoted figure
+  parseError?: string;
+  provider: AnalysisProviderId; // the one that actually wrote it
+  fallbackReason?: string; // why the selected provider's answer wasn't used
+}
+
+// Which report an analysis was written for
+export interface AnalysisScope {
+  therapistId: string | null; // null for all therapists together
+  patientId?: string;
+  period: ReportPeriod;
+}
+
+export interface SavedAnalysis extends AnalysisScope {
+  id: string;
+  inputHash: string; // see hashAnalysisInput; changes once the sessions behind the report do
+  result: AnalysisResult;
+  generatedAt: string; // ISO string
+  generatedBy: string; // user name
+}
+
+export interface SyncStatus {
+  configured: boolean;
+  syncing: boolean;
+  pending: number;
+  lastSyncedAt?: string; // ISO string
+  lastError?: string;
+}